@@ -0,0 +1,41 @@
+// src/agents/clarifier/__tests__/agent.test.ts
+import { describe, test, expect, mock, beforeEach, afterAll } from 'bun:test'
+import { requestClarification } from '../index'
+
+// Module mocks outlive the file, so hand back whatever 'ai' was before this one
+const previousAi = { ...(await import('ai')) }
+
+const mockGenerateText = mock(() =>
+  Promise.resolve({
+    text: JSON.stringify({
+      question: 'Which aspect of machine learning?',
+      options: ['Training', 'Deployment', 'Evaluation', 'Tooling', 'History'],
+    }),
+  })
+)
+
+mock.module('ai', () => ({
+  generateText: mockGenerateText,
+}))
+
+afterAll(() => {
+  mock.module('ai', () => previousAi)
+})
+
+describe('Clarifier Agent', () => {
+  beforeEach(() => mock.restore())
+
+  test('requestClarification returns a question with capped options', async () => {
+    const result = await requestClarification('Tell me about ML')
+    expect(result.question).toBe('Which aspect of machine learning?')
+    expect(result.options.length).toBe(4)
+  })
+
+  test('requestClarification falls back to a generic question on malformed output', async () => {
+    mockGenerateText.mockImplementationOnce(() => Promise.resolve({ text: 'not json' }))
+
+    const result = await requestClarification('Tell me about ML')
+    expect(result.question).toContain('Tell me about ML')
+    expect(result.options).toEqual([])
+  })
+})
@@ -0,0 +1,59 @@
+// src/agents/clarifier/index.ts
+import { generateText } from 'ai'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { CLARIFIER_SYSTEM_PROMPT } from './prompts'
+import type { Clarification } from '@/core/state'
+
+const MAX_OPTIONS = 4
+
+export async function requestClarification(
+  query: string,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<Clarification> {
+  return createSpan('clarify_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: CLARIFIER_SYSTEM_PROMPT,
+      prompt: `Ask for clarification on this query: "${query}"`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': text.substring(0, 500),
+    })
+
+    try {
+      const result = JSON.parse(text) as Partial<Clarification>
+      if (typeof result.question !== 'string' || result.question.trim().length === 0) {
+        throw new Error('Missing clarification question')
+      }
+      return {
+        question: result.question,
+        options: (result.options ?? [])
+          .filter((o): o is string => typeof o === 'string')
+          .slice(0, MAX_OPTIONS),
+      }
+    } catch {
+      return {
+        question: `Could you be more specific about what you want to know regarding "${query}"?`,
+        options: [],
+      }
+    }
+  })
+}
+
+export { CLARIFIER_SYSTEM_PROMPT } from './prompts'
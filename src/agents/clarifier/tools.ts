@@ -0,0 +1,2 @@
+// src/agents/clarifier/tools.ts
+export const clarifierTools = []
@@ -1,6 +1,6 @@
 // src/agents/classifier/index.ts
 import { generateText } from 'ai'
-import { getLLM } from '@/core/llm'
+import { getLLM, recordTokenUsage } from '@/core/llm'
 import { createSpan, SemanticConventions } from '@/core/telemetry'
 import { CLASSIFIER_SYSTEM_PROMPT } from './prompts'
 import type { QueryType } from '@/core/state'
@@ -11,16 +11,21 @@ interface ClassificationResult {
   reasoning: string
 }
 
-export async function classifyQuery(query: string): Promise<ClassificationResult> {
+export async function classifyQuery(
+  query: string,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<ClassificationResult> {
   return createSpan('classify_llm_call', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
-    'llm.model_name': 'gpt-5-mini',
+    'llm.model_name': model,
     'input.value': query.substring(0, 500),
   }, async (span) => {
     const { text, usage } = await generateText({
-      model: getLLM('gpt-5-mini'),
+      model: getLLM(model),
       system: CLASSIFIER_SYSTEM_PROMPT,
       prompt: `Classify this query: "${query}"`,
+      abortSignal: signal,
       temperature: 1.0,
       providerOptions: {
         openai: {
@@ -29,6 +34,7 @@ export async function classifyQuery(query: string): Promise<ClassificationResult
       },
     })
 
+    recordTokenUsage(usage)
     span?.setAttributes({
       'llm.token_count.total': usage?.totalTokens ?? 0,
       'output.value': text.substring(0, 500),
@@ -0,0 +1,29 @@
+// src/agents/contextualizer/__tests__/agent.test.ts
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+import { contextualizeQuery } from '../index'
+
+const mockGenerateText = mock(() =>
+  Promise.resolve({ text: 'What is the pricing of LiteLLM?' })
+)
+
+mock.module('ai', () => ({
+  generateText: mockGenerateText,
+}))
+
+describe('Contextualizer Agent', () => {
+  beforeEach(() => mock.restore())
+
+  test('returns the query unchanged without history', async () => {
+    const result = await contextualizeQuery('What is LiteLLM?')
+    expect(result).toEqual({ standaloneQuery: 'What is LiteLLM?', rewritten: false })
+  })
+
+  test('rewrites follow-up queries using the conversation', async () => {
+    const result = await contextualizeQuery('what about its pricing?', {
+      previousQueries: ['What is LiteLLM?'],
+      previousResponses: ['LiteLLM is an LLM proxy.'],
+    })
+    expect(result.standaloneQuery).toBe('What is the pricing of LiteLLM?')
+    expect(result.rewritten).toBe(true)
+  })
+})
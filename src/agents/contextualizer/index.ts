@@ -0,0 +1,65 @@
+// src/agents/contextualizer/index.ts
+import { generateText } from 'ai'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { formatConversationContext } from '@/core/conversation'
+import { CONTEXTUALIZER_SYSTEM_PROMPT } from './prompts'
+import type { ConversationContext } from '@/core/state'
+
+interface ContextualizeResult {
+  standaloneQuery: string
+  rewritten: boolean
+}
+
+/**
+ * Rewrite a follow-up query into a standalone one using the conversation history.
+ * Queries without history are returned unchanged without an LLM call.
+ */
+export async function contextualizeQuery(
+  query: string,
+  context?: ConversationContext,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<ContextualizeResult> {
+  const transcript = formatConversationContext(context)
+  if (!transcript) {
+    return { standaloneQuery: query, rewritten: false }
+  }
+
+  return createSpan('contextualize_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: CONTEXTUALIZER_SYSTEM_PROMPT,
+      prompt: `Conversation:
+${transcript}
+
+Follow-up query: ${query}`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    const standaloneQuery = text.trim() || query
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': standaloneQuery.substring(0, 500),
+    })
+
+    return {
+      standaloneQuery,
+      rewritten: standaloneQuery !== query,
+    }
+  })
+}
+
+export { CONTEXTUALIZER_SYSTEM_PROMPT } from './prompts'
@@ -0,0 +1,2 @@
+// src/agents/contextualizer/tools.ts
+export const contextualizerTools = []
@@ -67,4 +67,36 @@ describe('Critic Agent', () => {
     expect(result.needsRefinement).toBe(true)
     expect(result.refinementReason).toBeDefined()
   })
+
+  test('critiqueAnswer replaces scores that are not numbers and clamps the rest', async () => {
+    mockGenerateText.mockImplementationOnce(() =>
+      Promise.resolve({
+        text: JSON.stringify({
+          qualityScore: 'high',
+          scores: {
+            relevance: '0.9',
+            accuracy: null,
+            completeness: 1.4,
+            clarity: -0.2,
+            confidence: 'n/a',
+          },
+        }),
+      })
+    )
+
+    const result = await critiqueAnswer({
+      query: 'What is machine learning?',
+      answer: 'Machine learning learns from data.',
+      sources: [],
+    })
+    expect(result.qualityScore).toBe(0.5)
+    expect(result.needsRefinement).toBe(true)
+    expect(result.scores).toEqual({
+      relevance: 0.5,
+      accuracy: 0.5,
+      completeness: 1,
+      clarity: 0,
+      sourceUsage: 0.5,
+    })
+  })
 })
@@ -1,39 +1,68 @@
 // src/agents/critic/index.ts
 import { generateText } from 'ai'
-import { getLLM } from '@/core/llm'
+import { getLLM, recordTokenUsage } from '@/core/llm'
 import { createSpan, SemanticConventions } from '@/core/telemetry'
 import { CRITIC_SYSTEM_PROMPT } from './prompts'
-import type { RetrievedChunk } from '@/core/state'
+import type { CritiqueScores, RetrievedChunk } from '@/core/state'
 
 interface CritiqueOptions {
   query: string
   answer: string
   sources: RetrievedChunk[]
+  model?: string
+  signal?: AbortSignal
 }
 
 interface CritiqueResult {
   qualityScore: number
   needsRefinement: boolean
   refinementReason?: string
-  scores: {
-    relevance: number
-    accuracy: number
-    completeness: number
-    clarity: number
-    sourceUsage: number
+  scores: CritiqueScores
+}
+
+const DEFAULT_SCORES: CritiqueScores = {
+  relevance: 0.5,
+  accuracy: 0.5,
+  completeness: 0.5,
+  clarity: 0.5,
+  sourceUsage: 0.5,
+}
+
+/**
+ * A score the model returned, clamped to 0-1, or the fallback when it isn't a number.
+ */
+function toScore(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback
+}
+
+/**
+ * The model's per-dimension scores. Dimensions it left out or scored with
+ * something other than a number fall back to neutral scores; unknown ones are dropped.
+ */
+function toScores(value: unknown): CritiqueScores {
+  const scores = (typeof value === 'object' && value !== null ? value : {}) as Partial<
+    Record<keyof CritiqueScores, unknown>
+  >
+  return {
+    relevance: toScore(scores.relevance, DEFAULT_SCORES.relevance),
+    accuracy: toScore(scores.accuracy, DEFAULT_SCORES.accuracy),
+    completeness: toScore(scores.completeness, DEFAULT_SCORES.completeness),
+    clarity: toScore(scores.clarity, DEFAULT_SCORES.clarity),
+    sourceUsage: toScore(scores.sourceUsage, DEFAULT_SCORES.sourceUsage),
   }
 }
 
 export async function critiqueAnswer(options: CritiqueOptions): Promise<CritiqueResult> {
+  const model = options.model ?? 'gpt-5-mini'
   return createSpan('critique_llm_call', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
-    'llm.model_name': 'gpt-5-mini',
+    'llm.model_name': model,
     'input.value': options.query.substring(0, 500),
   }, async (span) => {
     const sourcesText = options.sources.map(s => s.content).join('\n')
 
     const { text, usage } = await generateText({
-      model: getLLM('gpt-5-mini'),
+      model: getLLM(model),
       system: CRITIC_SYSTEM_PROMPT,
       prompt: `Query: ${options.query}
 
@@ -44,6 +73,7 @@ Available sources:
 ${sourcesText || 'No sources provided'}
 
 Evaluate the answer quality.`,
+      abortSignal: options.signal,
       temperature: 1.0,
       providerOptions: {
         openai: {
@@ -52,6 +82,7 @@ Evaluate the answer quality.`,
       },
     })
 
+    recordTokenUsage(usage)
     span?.setAttributes({
       'llm.token_count.total': usage?.totalTokens ?? 0,
       'output.value': text.substring(0, 500),
@@ -59,17 +90,13 @@ Evaluate the answer quality.`,
 
     try {
       const result = JSON.parse(text)
+      const qualityScore = toScore(result.qualityScore, 0.5)
       const critique = {
-        qualityScore: Math.min(1, Math.max(0, result.qualityScore ?? 0.5)),
-        needsRefinement: result.needsRefinement ?? result.qualityScore < 0.7,
-        refinementReason: result.refinementReason,
-        scores: result.scores ?? {
-          relevance: 0.5,
-          accuracy: 0.5,
-          completeness: 0.5,
-          clarity: 0.5,
-          sourceUsage: 0.5,
-        },
+        qualityScore,
+        needsRefinement:
+          typeof result.needsRefinement === 'boolean' ? result.needsRefinement : qualityScore < 0.7,
+        refinementReason: typeof result.refinementReason === 'string' ? result.refinementReason : undefined,
+        scores: toScores(result.scores),
       }
 
       span?.setAttributes({
@@ -85,13 +112,7 @@ Evaluate the answer quality.`,
         qualityScore: 0.5,
         needsRefinement: true,
         refinementReason: 'Failed to parse critique response',
-        scores: {
-          relevance: 0.5,
-          accuracy: 0.5,
-          completeness: 0.5,
-          clarity: 0.5,
-          sourceUsage: 0.5,
-        },
+        scores: { ...DEFAULT_SCORES },
       }
     }
   })
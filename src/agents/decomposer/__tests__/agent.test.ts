@@ -0,0 +1,35 @@
+// src/agents/decomposer/__tests__/agent.test.ts
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+import { decomposeQuery } from '../index'
+
+const mockGenerateText = mock(() =>
+  Promise.resolve({
+    text: JSON.stringify({
+      subQueries: ['Who wrote the ML guide?', 'What else has that author published?'],
+      reasoning: 'Need the author first',
+    }),
+  })
+)
+
+mock.module('ai', () => ({
+  generateText: mockGenerateText,
+}))
+
+describe('Decomposer Agent', () => {
+  beforeEach(() => mock.restore())
+
+  test('decomposeQuery returns ordered sub-queries', async () => {
+    const result = await decomposeQuery('What else has the author of the ML guide published?')
+    expect(result.subQueries).toEqual([
+      'Who wrote the ML guide?',
+      'What else has that author published?',
+    ])
+  })
+
+  test('decomposeQuery falls back to the original query on malformed output', async () => {
+    mockGenerateText.mockImplementationOnce(() => Promise.resolve({ text: '{ invalid json' }))
+
+    const result = await decomposeQuery('Who founded the company that makes X?')
+    expect(result.subQueries).toEqual(['Who founded the company that makes X?'])
+  })
+})
@@ -0,0 +1,136 @@
+// src/agents/decomposer/graph.ts
+import {
+  Annotation,
+  StateGraph,
+  END,
+  START,
+  type LangGraphRunnableConfig,
+} from '@langchain/langgraph'
+import type {
+  ExpansionConfig,
+  RerankerName,
+  SearchMethod,
+  SelectionConfig,
+} from '@/core/config'
+import type { MetadataFilters } from '@/core/filters'
+import type { QueryType, RetrievedChunk, SubQuestion } from '@/core/state'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { retrieveDocuments, mergeChunks } from '@/agents/retriever'
+import { getReranker } from '@/agents/reranker'
+import { decomposeQuery, rewriteSubQuestion, answerSubQuestion } from './index'
+
+const HOP_TOP_K = 5
+
+export const MultiHopStateAnnotation = Annotation.Root({
+  query: Annotation<string>,
+  queryType: Annotation<QueryType | undefined>,
+  /** Chunks retrieved per hop */
+  topK: Annotation<number | undefined>,
+  /** Search methods each hop runs */
+  strategy: Annotation<SearchMethod[] | undefined>,
+  reranker: Annotation<RerankerName | undefined>,
+  rerankCandidates: Annotation<number | undefined>,
+  selection: Annotation<SelectionConfig | undefined>,
+  expansion: Annotation<ExpansionConfig | undefined>,
+  /** Metadata constraints every hop's search applies */
+  filters: Annotation<MetadataFilters | undefined>,
+  model: Annotation<string | undefined>,
+  plan: Annotation<string[]>,
+  trail: Annotation<SubQuestion[]>,
+  chunks: Annotation<RetrievedChunk[]>,
+})
+
+type MultiHopState = typeof MultiHopStateAnnotation.State
+
+async function planNode(
+  state: MultiHopState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<MultiHopState>> {
+  const { subQueries } = await decomposeQuery(state.query, state.model, config?.signal)
+  return {
+    plan: subQueries,
+    trail: [],
+    chunks: [],
+  }
+}
+
+async function hopNode(
+  state: MultiHopState,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<MultiHopState>> {
+  const step = state.trail.length
+  const question = state.plan[step]
+
+  return createSpan('multi_hop_step', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'iteration.count': step,
+    'input.value': question.substring(0, 500),
+  }, async (span) => {
+    const resolvedQuery = await rewriteSubQuestion(
+      question,
+      state.trail,
+      state.model,
+      config?.signal
+    )
+    const retrieval = await retrieveDocuments({
+      query: resolvedQuery,
+      queryType: state.queryType,
+      topK: state.topK ?? HOP_TOP_K,
+      strategy: state.strategy,
+      reranker: getReranker(state.reranker ?? 'none', state.model),
+      rerankCandidates: state.rerankCandidates,
+      selection: state.selection,
+      expansion: state.expansion,
+      filters: state.filters,
+      signal: config?.signal,
+    })
+    const answer = await answerSubQuestion({
+      question: resolvedQuery,
+      chunks: retrieval.chunks,
+      model: state.model,
+      signal: config?.signal,
+    })
+
+    span?.setAttributes({
+      'retrieval.score': retrieval.score,
+      'output.value': answer.substring(0, 500),
+      'workflow.status': 'completed',
+    })
+
+    return {
+      trail: [
+        ...state.trail,
+        {
+          question,
+          resolvedQuery,
+          answer,
+          chunkIds: retrieval.chunks.map((c) => c.chunkId),
+        },
+      ],
+      chunks: mergeChunks([state.chunks, retrieval.chunks]),
+    }
+  })
+}
+
+function routeAfterHop(state: MultiHopState): string {
+  return state.trail.length < state.plan.length ? 'hop' : END
+}
+
+/**
+ * Subgraph for multi_hop queries: decompose into ordered sub-questions, then
+ * retrieve and answer them one at a time, feeding earlier answers into later hops.
+ */
+export function createMultiHopGraph() {
+  const workflow = new StateGraph(MultiHopStateAnnotation)
+    .addNode('planner', planNode)
+    .addNode('hop', hopNode)
+    .addEdge(START, 'planner')
+    .addEdge('planner', 'hop')
+    .addConditionalEdges('hop', routeAfterHop, {
+      [END]: END,
+      hop: 'hop',
+    })
+
+  return workflow.compile()
+}
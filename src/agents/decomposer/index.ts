@@ -0,0 +1,173 @@
+// src/agents/decomposer/index.ts
+import { generateText } from 'ai'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import {
+  DECOMPOSER_SYSTEM_PROMPT,
+  SUB_QUESTION_REWRITE_PROMPT,
+  SUB_QUESTION_ANSWER_PROMPT,
+} from './prompts'
+import type { RetrievedChunk, SubQuestion } from '@/core/state'
+
+const MAX_SUB_QUERIES = 4
+
+interface DecompositionResult {
+  subQueries: string[]
+  reasoning: string
+}
+
+export async function decomposeQuery(
+  query: string,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<DecompositionResult> {
+  return createSpan('decompose_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: DECOMPOSER_SYSTEM_PROMPT,
+      prompt: `Decompose this query: "${query}"`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'medium',
+        },
+      },
+    })
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': text.substring(0, 500),
+    })
+
+    try {
+      const result = JSON.parse(text) as Partial<DecompositionResult>
+      const subQueries = (result.subQueries ?? [])
+        .filter((q): q is string => typeof q === 'string' && q.trim().length > 0)
+        .slice(0, MAX_SUB_QUERIES)
+
+      if (subQueries.length === 0) {
+        throw new Error('Empty decomposition')
+      }
+
+      return {
+        subQueries,
+        reasoning: result.reasoning ?? '',
+      }
+    } catch {
+      return {
+        subQueries: [query],
+        reasoning: 'Failed to parse decomposition, using original query',
+      }
+    }
+  })
+}
+
+/**
+ * Rewrite a sub-question so it no longer depends on earlier hops,
+ * substituting in the answers found so far.
+ */
+export async function rewriteSubQuestion(
+  question: string,
+  trail: SubQuestion[],
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<string> {
+  if (trail.length === 0) {
+    return question
+  }
+
+  return createSpan('rewrite_sub_question_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': question.substring(0, 500),
+  }, async (span) => {
+    const findings = trail
+      .map((step, i) => `${i + 1}. ${step.resolvedQuery} -> ${step.answer}`)
+      .join('\n')
+
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: SUB_QUESTION_REWRITE_PROMPT,
+      prompt: `Findings so far:
+${findings}
+
+Next sub-question: ${question}`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    const rewritten = text.trim()
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': rewritten.substring(0, 500),
+    })
+
+    return rewritten.length > 0 ? rewritten : question
+  })
+}
+
+interface SubAnswerOptions {
+  question: string
+  chunks: RetrievedChunk[]
+  model?: string
+  signal?: AbortSignal
+}
+
+/**
+ * Produce a short intermediate answer for one hop, used to resolve later sub-questions.
+ */
+export async function answerSubQuestion(options: SubAnswerOptions): Promise<string> {
+  if (options.chunks.length === 0) {
+    return 'Unknown'
+  }
+  const model = options.model ?? 'gpt-5-mini'
+
+  return createSpan('answer_sub_question_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': options.question.substring(0, 500),
+  }, async (span) => {
+    const contextText = options.chunks
+      .map((chunk, i) => `[${i + 1}] ${chunk.content}`)
+      .join('\n\n')
+
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: SUB_QUESTION_ANSWER_PROMPT,
+      prompt: `Sub-question: ${options.question}
+
+Chunks:
+${contextText}`,
+      abortSignal: options.signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': text.substring(0, 500),
+    })
+
+    return text.trim() || 'Unknown'
+  })
+}
+
+export { DECOMPOSER_SYSTEM_PROMPT } from './prompts'
@@ -0,0 +1,2 @@
+// src/agents/decomposer/tools.ts
+export const decomposerTools = []
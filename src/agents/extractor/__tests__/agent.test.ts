@@ -0,0 +1,57 @@
+// src/agents/extractor/__tests__/agent.test.ts
+import { describe, test, expect, mock, beforeEach, afterEach } from 'bun:test'
+import { config, type FilterSchema } from '@/core/config'
+import { extractFilters } from '../index'
+
+let responseText = '{"filters": {"year": "2024", "doc_type": "security", "team": "platform"}}'
+const mockGenerateText = mock(() => Promise.resolve({ text: responseText }))
+
+mock.module('ai', () => ({
+  generateText: mockGenerateText,
+}))
+
+const schema: FilterSchema = {
+  year: { type: 'number', description: 'Publication year' },
+  doc_type: { type: 'string', values: ['security', 'guide'] },
+  published: { type: 'date' },
+}
+
+describe('Filter Extractor Agent', () => {
+  const original = config.filters.schema
+
+  beforeEach(() => {
+    config.filters.schema = schema
+    mockGenerateText.mockClear()
+    responseText = '{"filters": {"year": "2024", "doc_type": "security", "team": "platform"}}'
+  })
+
+  afterEach(() => {
+    config.filters.schema = original
+  })
+
+  test('makes no call without filterable fields', async () => {
+    config.filters.schema = {}
+    expect(await extractFilters('What changed in the 2024 security docs?')).toEqual({})
+    expect(mockGenerateText).not.toHaveBeenCalled()
+  })
+
+  test('keeps the filters that fit the schema', async () => {
+    const filters = await extractFilters('What changed in the 2024 security docs?')
+    expect(filters).toEqual({ year: 2024, doc_type: 'security' })
+  })
+
+  test('returns no filters for an unparseable reply', async () => {
+    responseText = 'year is 2024'
+    expect(await extractFilters('What changed in the 2024 security docs?')).toEqual({})
+  })
+
+  test('keeps date ranges and lists date fields with their format', async () => {
+    responseText = '{"filters": {"published": {"gte": "2024-03-01", "lte": null}}}'
+
+    const filters = await extractFilters('Which security docs changed since March 2024?')
+
+    expect(filters).toEqual({ published: { gte: '2024-03-01' } })
+    const [[params]] = mockGenerateText.mock.calls as unknown as Array<[{ prompt: string }]>
+    expect(params.prompt).toContain('- published (date, YYYY-MM-DD or a gte/lte range)')
+  })
+})
@@ -0,0 +1,74 @@
+// src/agents/extractor/index.ts
+import { generateText } from 'ai'
+import { config, type FilterSchema } from '@/core/config'
+import { sanitizeFilters, type MetadataFilters } from '@/core/filters'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { FILTER_EXTRACTOR_SYSTEM_PROMPT } from './prompts'
+
+/**
+ * One line per filterable field, as listed to the model.
+ */
+function describeSchema(schema: FilterSchema): string {
+  return Object.entries(schema)
+    .map(([name, field]) => {
+      const values = field.values ? `, one of: ${field.values.join(', ')}` : ''
+      const format = field.type === 'date' ? ', YYYY-MM-DD or a gte/lte range' : ''
+      return `- ${name} (${field.type}${values}${format})${field.description ? `: ${field.description}` : ''}`
+    })
+    .join('\n')
+}
+
+/**
+ * Turn constraints stated in the query into metadata filters on the fields of
+ * the configured filter schema. Fields the model gets wrong are dropped; an
+ * unparseable reply yields no filters. No LLM call is made when no fields are
+ * configured.
+ */
+export async function extractFilters(
+  query: string,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<MetadataFilters> {
+  const schema = config.filters.schema
+  if (Object.keys(schema).length === 0) {
+    return {}
+  }
+
+  return createSpan('extract_filters_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: FILTER_EXTRACTOR_SYSTEM_PROMPT,
+      prompt: `Filterable fields:
+${describeSchema(schema)}
+
+Query: "${query}"`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': text.substring(0, 500),
+    })
+
+    try {
+      const result = JSON.parse(text) as { filters?: unknown }
+      return sanitizeFilters(result.filters, schema)
+    } catch {
+      return {}
+    }
+  })
+}
+
+export { FILTER_EXTRACTOR_SYSTEM_PROMPT } from './prompts'
@@ -1,6 +1,6 @@
 // src/agents/generator/__tests__/agent.test.ts
 import { describe, test, expect, mock, beforeEach } from 'bun:test'
-import { generateAnswer } from '../index'
+import { formatRefinementFeedback, generateAnswer } from '../index'
 import type { RetrievedChunk } from '@/core/state'
 
 const mockChunks: RetrievedChunk[] = [
@@ -54,4 +54,15 @@ describe('Generator Agent', () => {
     })
     expect(result.sources[0]?.chunkId).toBeDefined()
   })
+
+  test('formatRefinementFeedback lists the weakest dimensions first', () => {
+    const feedback = formatRefinementFeedback({
+      previousDraft: 'ML is AI.',
+      refinementReason: 'Too short',
+      scores: { relevance: 0.9, accuracy: 0.8, completeness: 0.3, clarity: 0.7, sourceUsage: 0.5 },
+    })
+    expect(feedback).toContain('Previous draft:\nML is AI.')
+    expect(feedback).toContain('- Reason: Too short')
+    expect(feedback).toContain('completeness 0.30, sourceUsage 0.50, clarity 0.70')
+  })
 })
@@ -0,0 +1,52 @@
+// src/agents/generator/__tests__/table.test.ts
+import { describe, test, expect } from 'bun:test'
+import type { RetrievedChunk } from '@/core/state'
+import { parseComparisonTable } from '../table'
+
+const sources: RetrievedChunk[] = [
+  { chunkId: 'pg-1', content: 'Postgres uses MVCC.', score: 0.9 },
+  { chunkId: 'my-1', content: 'MySQL InnoDB uses MVCC too.', score: 0.8 },
+]
+
+describe('parseComparisonTable', () => {
+  test('reads one cell per entity with the cited chunk ids', () => {
+    const answer = `Here is how they compare.
+
+|Aspect|Postgres|MySQL|
+|:---|:---:|---:|
+| Concurrency | MVCC [1] | MVCC with InnoDB [2, 1] |
+| License | Not covered | Not covered [7] |
+
+Both use MVCC [1][2].`
+    expect(parseComparisonTable(answer, sources, ['PostgreSQL', 'MySQL'])).toEqual({
+      entities: ['PostgreSQL', 'MySQL'],
+      rows: [
+        {
+          aspect: 'Concurrency',
+          cells: [
+            { entity: 'PostgreSQL', text: 'MVCC', citations: ['pg-1'] },
+            { entity: 'MySQL', text: 'MVCC with InnoDB', citations: ['my-1', 'pg-1'] },
+          ],
+        },
+        {
+          aspect: 'License',
+          cells: [
+            { entity: 'PostgreSQL', text: 'Not covered', citations: [] },
+            { entity: 'MySQL', text: 'Not covered', citations: [] },
+          ],
+        },
+      ],
+    })
+  })
+
+  test('keeps the header names when they do not match the entities', () => {
+    const answer = '| Aspect | A | B | C |\n| --- | --- | --- | --- |\n| Speed | fast [1] | slow | ok |'
+    expect(parseComparisonTable(answer, sources, ['A', 'B'])?.entities).toEqual(['A', 'B', 'C'])
+  })
+
+  test('returns undefined without a table comparing two entities', () => {
+    expect(parseComparisonTable('Postgres uses MVCC [1].', sources)).toBeUndefined()
+    expect(parseComparisonTable('| Aspect | Postgres |\n| --- | --- |\n| MVCC | yes |', sources)).toBeUndefined()
+    expect(parseComparisonTable('| Aspect | A | B |\n| --- | --- | --- |\n\nNo rows.', sources)).toBeUndefined()
+  })
+})
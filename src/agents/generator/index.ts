@@ -1,46 +1,116 @@
 // src/agents/generator/index.ts
-import { generateText } from 'ai'
-import { getLLM } from '@/core/llm'
+import { generateText, streamText, type LanguageModelUsage } from 'ai'
+import { getLLM, recordTokenUsage } from '@/core/llm'
 import { createSpan, SemanticConventions } from '@/core/telemetry'
-import { GENERATOR_SYSTEM_PROMPT } from './prompts'
-import type { RetrievedChunk } from '@/core/state'
+import { GENERATOR_SYSTEM_PROMPT, comparisonFormatPrompt } from './prompts'
+import { parseComparisonTable } from './table'
+import type { ComparisonTable, CritiqueScores, RetrievedChunk, SubQuestion } from '@/core/state'
+
+interface RefinementFeedback {
+  previousDraft: string
+  refinementReason?: string
+  scores?: CritiqueScores
+}
 
 interface GenerateOptions {
   query: string
   chunks: RetrievedChunk[]
   conversationContext?: string
+  subQuestions?: SubQuestion[]
+  /** Entities of a comparative query; the answer then opens with a comparison table */
+  comparedEntities?: string[]
+  /** Set on refinement iterations so the rewrite targets the critic's feedback */
+  refinement?: RefinementFeedback
+  model?: string
+  signal?: AbortSignal
+  /** When set, the answer is streamed and each text delta is passed here as it arrives */
+  onToken?: (delta: string) => void
 }
 
 interface GenerateResult {
   answer: string
   sources: RetrievedChunk[]
+  /** The answer's comparison table, when entities were given and the answer has one */
+  comparison?: ComparisonTable
   tokensUsed?: number
 }
 
+/**
+ * Render the prior draft and critic feedback, weakest dimensions first.
+ */
+export function formatRefinementFeedback(refinement: RefinementFeedback): string {
+  const scores = Object.entries(refinement.scores ?? {})
+    .sort(([, a], [, b]) => a - b)
+    .map(([dimension, score]) => `${dimension} ${score.toFixed(2)}`)
+    .join(', ')
+
+  return [
+    `Previous draft:\n${refinement.previousDraft}`,
+    'Reviewer feedback:',
+    refinement.refinementReason ? `- Reason: ${refinement.refinementReason}` : '',
+    scores ? `- Scores (0-1, lowest first): ${scores}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Stream a completion, forwarding text deltas, and resolve with the full text and usage.
+ */
+async function streamAnswer(
+  request: Parameters<typeof streamText>[0],
+  onToken: (delta: string) => void
+): Promise<{ text: string; usage?: LanguageModelUsage }> {
+  const result = streamText(request)
+  for await (const delta of result.textStream) {
+    onToken(delta)
+  }
+  return { text: await result.text, usage: await result.usage }
+}
+
 export async function generateAnswer(options: GenerateOptions): Promise<GenerateResult> {
+  const model = options.model ?? 'gpt-4.1'
   return createSpan('generate_llm_call', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
-    'llm.model_name': 'gpt-4.1',
+    'llm.model_name': model,
     'input.value': options.query.substring(0, 500),
     'llm.chunk_count': options.chunks.length,
+    'generation.is_refinement': options.refinement !== undefined,
   }, async (span) => {
     const contextText = options.chunks
-      .map((chunk, i) => `[${i + 1}] ${chunk.content}`)
+      .map((chunk, i) => `[${i + 1}]${chunk.entity ? ` (${chunk.entity})` : ''} ${chunk.content}`)
       .join('\n\n')
 
-    const { text, usage } = await generateText({
-      model: getLLM('gpt-4.1'),
+    const findingsText = (options.subQuestions ?? [])
+      .map((step, i) => `${i + 1}. ${step.resolvedQuery} -> ${step.answer}`)
+      .join('\n')
+
+    const feedbackText = options.refinement ? formatRefinementFeedback(options.refinement) : ''
+    const instruction = options.refinement
+      ? 'Revise the previous draft to address the feedback, improving the lowest-scoring dimensions. Keep source citations.'
+      : 'Provide a comprehensive answer with source citations.'
+    const comparing = (options.comparedEntities?.length ?? 0) >= 2
+
+    const request = {
+      model: getLLM(model),
       system: GENERATOR_SYSTEM_PROMPT,
       prompt: `Query: ${options.query}
 
 Context:
 ${contextText}
 
+${findingsText ? `Intermediate findings:\n${findingsText}\n` : ''}
 ${options.conversationContext ? `Previous context: ${options.conversationContext}` : ''}
+${feedbackText ? `\n${feedbackText}\n` : ''}
+${instruction}${comparing ? `\n\n${comparisonFormatPrompt(options.comparedEntities ?? [])}` : ''}`,
+      abortSignal: options.signal,
+    }
 
-Provide a comprehensive answer with source citations.`,
-    })
+    const { text, usage } = options.onToken
+      ? await streamAnswer(request, options.onToken)
+      : await generateText(request)
 
+    recordTokenUsage(usage)
     span?.setAttributes({
       'llm.token_count.total': usage?.totalTokens ?? 0,
       'llm.token_count.prompt': usage?.inputTokens ?? 0,
@@ -51,9 +121,13 @@ Provide a comprehensive answer with source citations.`,
     return {
       answer: text,
       sources: options.chunks,
+      comparison: comparing
+        ? parseComparisonTable(text, options.chunks, options.comparedEntities)
+        : undefined,
       tokensUsed: usage?.totalTokens,
     }
   })
 }
 
-export { GENERATOR_SYSTEM_PROMPT } from './prompts'
+export { GENERATOR_SYSTEM_PROMPT, comparisonFormatPrompt } from './prompts'
+export { parseComparisonTable } from './table'
@@ -8,3 +8,13 @@ export const GENERATOR_SYSTEM_PROMPT = `You are an expert answer generator. Give
 5. If the chunks don't contain enough information, say so
 
 Format your response with clear structure and cite sources inline.`
+
+/**
+ * Answer format for comparative queries: a table whose cells cite their
+ * sources, which is parsed for the API response, followed by prose.
+ */
+export function comparisonFormatPrompt(entities: string[]): string {
+  return `Format: start with a Markdown comparison table with one row per aspect that matters for the query and the header | Aspect | ${entities.join(' | ')} |.
+Cite the sources for every cell, e.g. "Row-level locking [2]", using the sources retrieved for that column's entity; write "Not covered" when the sources don't say.
+After the table, explain the key differences in prose, also with citations.`
+}
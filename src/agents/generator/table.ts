@@ -0,0 +1,74 @@
+// src/agents/generator/table.ts
+import type { ComparisonRow, ComparisonTable, RetrievedChunk } from '@/core/state'
+
+/** Citation markers such as [1], [2, 3] */
+const CITATION = /\[(\d+(?:\s*,\s*\d+)*)\]/g
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map((cell) => cell.trim())
+}
+
+function isSeparator(line: string): boolean {
+  return /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line.trim())
+}
+
+/**
+ * The chunks a cell's citation markers point at, numbered from 1 as in the
+ * generator's context. Markers past the end of the sources are ignored.
+ */
+function citedChunkIds(cell: string, sources: RetrievedChunk[]): string[] {
+  const ids = [...cell.matchAll(CITATION)]
+    .flatMap((match) => match[1].split(','))
+    .map((n) => sources[Number(n.trim()) - 1]?.chunkId)
+    .filter((id): id is string => id !== undefined)
+  return [...new Set(ids)]
+}
+
+/**
+ * Parse the first Markdown table of a comparative answer: the first column
+ * names the aspect, the others one compared entity each. Column headers are
+ * replaced by `entities` when there is one column per entity. Returns
+ * undefined when the answer has no table comparing at least two entities.
+ */
+export function parseComparisonTable(
+  answer: string,
+  sources: RetrievedChunk[],
+  entities: string[] = []
+): ComparisonTable | undefined {
+  const lines = answer.split('\n')
+  const start = lines.findIndex(
+    (line, i) => line.trim().startsWith('|') && isSeparator(lines[i + 1] ?? '')
+  )
+  if (start === -1) {
+    return undefined
+  }
+
+  const header = splitRow(lines[start])
+  const columns = header.slice(1).length === entities.length ? entities : header.slice(1)
+  if (columns.length < 2) {
+    return undefined
+  }
+
+  const rows: ComparisonRow[] = []
+  for (const line of lines.slice(start + 2)) {
+    if (!line.trim().startsWith('|')) {
+      break
+    }
+    const [aspect, ...cells] = splitRow(line)
+    rows.push({
+      aspect,
+      cells: columns.map((entity, i) => ({
+        entity,
+        text: (cells[i] ?? '').replace(CITATION, '').replace(/\s+/g, ' ').trim(),
+        citations: citedChunkIds(cells[i] ?? '', sources),
+      })),
+    })
+  }
+
+  return rows.length > 0 ? { entities: columns, rows } : undefined
+}
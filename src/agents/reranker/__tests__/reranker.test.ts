@@ -0,0 +1,116 @@
+// src/agents/reranker/__tests__/reranker.test.ts
+import { describe, test, expect, mock, afterAll } from 'bun:test'
+import type { RetrievedChunk } from '@/core/state'
+
+// mock.module is process-wide; put back the 'ai' module later files expect
+const previousAi = { ...(await import('ai')) }
+
+let judgeResponse = ''
+let judgeError: Error | undefined
+
+mock.module('ai', () => ({
+  generateText: mock(async ({ abortSignal }: { abortSignal?: AbortSignal }) => {
+    if (abortSignal?.aborted) {
+      throw abortSignal.reason
+    }
+    if (judgeError) {
+      throw judgeError
+    }
+    return {
+      text: judgeResponse,
+      usage: { inputTokens: 40, outputTokens: 10, totalTokens: 50 },
+    }
+  }),
+}))
+
+afterAll(() => {
+  mock.module('ai', () => previousAi)
+})
+
+const { bm25Scores, bm25Reranker, createLLMReranker, getReranker, rerankChunks } = await import(
+  '../index'
+)
+
+const chunks: RetrievedChunk[] = [
+  { chunkId: 'a', content: 'Release notes for version two of the proxy', score: 0.9 },
+  { chunkId: 'b', content: 'LiteLLM pricing: the proxy is free to self-host', score: 0.6 },
+  { chunkId: 'c', content: 'Pricing of the hosted LiteLLM plans and LiteLLM enterprise pricing', score: 0.4 },
+]
+
+describe('bm25Scores', () => {
+  test('scores chunks by query term overlap, best at 1', () => {
+    const scores = bm25Scores('LiteLLM pricing', chunks)
+    expect(scores[0]).toBe(0)
+    expect(Math.max(...scores)).toBe(1)
+    expect(scores[2]).toBeGreaterThan(scores[1])
+  })
+
+  test('returns zeros when nothing matches', () => {
+    expect(bm25Scores('kubernetes', chunks)).toEqual([0, 0, 0])
+  })
+})
+
+describe('rerankChunks', () => {
+  test('orders by rerank score, keeps topN and the search scores', async () => {
+    const reranked = await rerankChunks('LiteLLM pricing', chunks, { reranker: bm25Reranker, topN: 2 })
+    expect(reranked.map((c) => c.chunkId)).toEqual(['c', 'b'])
+    expect(reranked[0]).toMatchObject({ score: 0.4, rerankScore: 1 })
+  })
+
+  test('accepts any reranker implementation', async () => {
+    const reranked = await rerankChunks('query', chunks, {
+      reranker: { name: 'llm', score: async () => [0.2, 0.1, 0.9] },
+      topN: 3,
+    })
+    expect(reranked.map((c) => c.chunkId)).toEqual(['c', 'a', 'b'])
+  })
+
+  test('keeps the search order when the reranker cannot judge', async () => {
+    const reranked = await rerankChunks('query', chunks, {
+      reranker: { name: 'llm', score: async () => undefined },
+      topN: 2,
+    })
+    expect(reranked.map((c) => c.chunkId)).toEqual(['a', 'b'])
+    expect(reranked[0].rerankScore).toBeUndefined()
+  })
+})
+
+describe('createLLMReranker', () => {
+  test('returns the judged scores, clamped to 0-1', async () => {
+    judgeResponse = JSON.stringify({ scores: [0.1, 1.4, 0.7] })
+    expect(await createLLMReranker().score('LiteLLM pricing', chunks)).toEqual([0.1, 1, 0.7])
+  })
+
+  test('returns undefined for unparseable or mismatched responses', async () => {
+    judgeResponse = 'The second passage is best'
+    expect(await createLLMReranker().score('LiteLLM pricing', chunks)).toBeUndefined()
+    judgeResponse = JSON.stringify({ scores: [0.5] })
+    expect(await createLLMReranker().score('LiteLLM pricing', chunks)).toBeUndefined()
+  })
+
+  test('keeps the search order when the model call fails', async () => {
+    judgeError = new Error('Service unavailable')
+    try {
+      const reranked = await rerankChunks('LiteLLM pricing', chunks, { reranker: createLLMReranker(), topN: 2 })
+      expect(reranked.map((c) => c.chunkId)).toEqual(['a', 'b'])
+    } finally {
+      judgeError = undefined
+    }
+  })
+
+  test('still fails when the run was cancelled', async () => {
+    const controller = new AbortController()
+    controller.abort(new Error('Run cancelled'))
+    await expect(
+      createLLMReranker().score('LiteLLM pricing', chunks, controller.signal)
+    ).rejects.toThrow('Run cancelled')
+  })
+})
+
+describe('getReranker', () => {
+  test('maps configured names to rerankers', () => {
+    expect(getReranker('none')).toBeUndefined()
+    expect(getReranker('bm25')).toBe(bm25Reranker)
+    expect(getReranker('llm')?.name).toBe('llm')
+  })
+})
@@ -0,0 +1,44 @@
+// src/agents/reranker/bm25.ts
+import type { RetrievedChunk } from '@/core/state'
+
+/** Term frequency saturation */
+const K1 = 1.2
+/** Document length normalization */
+const B = 0.75
+
+/**
+ * Lowercased word and number tokens of a text.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/**
+ * BM25 scores of each chunk for the query, with term statistics taken from
+ * the candidates themselves. Scores are divided by the best one so they fall
+ * in 0-1; all zero when no chunk shares a term with the query.
+ */
+export function bm25Scores(query: string, chunks: RetrievedChunk[]): number[] {
+  const terms = [...new Set(tokenize(query))]
+  const documents = chunks.map((chunk) => tokenize(chunk.content))
+  const averageLength =
+    documents.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(1, documents.length)
+
+  const idf = new Map(
+    terms.map((term) => {
+      const matching = documents.filter((tokens) => tokens.includes(term)).length
+      return [term, Math.log(1 + (documents.length - matching + 0.5) / (matching + 0.5))]
+    })
+  )
+
+  const scores = documents.map((tokens) => {
+    const lengthNorm = 1 - B + B * (tokens.length / (averageLength || 1))
+    return terms.reduce((score, term) => {
+      const frequency = tokens.filter((token) => token === term).length
+      return score + ((idf.get(term) ?? 0) * frequency * (K1 + 1)) / (frequency + K1 * lengthNorm)
+    }, 0)
+  })
+
+  const best = Math.max(0, ...scores)
+  return scores.map((score) => (best > 0 ? score / best : 0))
+}
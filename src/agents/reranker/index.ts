@@ -0,0 +1,152 @@
+// src/agents/reranker/index.ts
+import { generateText } from 'ai'
+import type { RerankerName } from '@/core/config'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import type { RetrievedChunk } from '@/core/state'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { bm25Scores } from './bm25'
+import { RERANKER_SYSTEM_PROMPT } from './prompts'
+
+/**
+ * Rescores retrieval candidates for a query. `score` returns one relevance
+ * score between 0 and 1 per chunk, in chunk order, or undefined when the
+ * chunks couldn't be judged.
+ */
+export interface Reranker {
+  name: RerankerName
+  score(query: string, chunks: RetrievedChunk[], signal?: AbortSignal): Promise<number[] | undefined>
+}
+
+/**
+ * Characters of each passage the relevance judge sees.
+ */
+const PASSAGE_PREVIEW_LENGTH = 1000
+
+/**
+ * Reranker that asks a model to judge every candidate in one call.
+ */
+export function createLLMReranker(model = 'gpt-5-mini'): Reranker {
+  return {
+    name: 'llm',
+    score: (query, chunks, signal) =>
+      createSpan('rerank_llm_call', {
+        [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+        'llm.model_name': model,
+        'input.value': query.substring(0, 500),
+      }, async (span) => {
+        const passages = chunks
+          .map((chunk, i) => `[${i + 1}] ${chunk.content.substring(0, PASSAGE_PREVIEW_LENGTH)}`)
+          .join('\n\n')
+
+        let response: Awaited<ReturnType<typeof generateText>>
+        try {
+          response = await generateText({
+            model: getLLM(model),
+            system: RERANKER_SYSTEM_PROMPT,
+            prompt: `Query: ${query}
+
+Passages:
+${passages}
+
+Rate each of the ${chunks.length} passages.`,
+            abortSignal: signal,
+            temperature: 1.0,
+            providerOptions: {
+              openai: {
+                reasoningEffort: 'low',
+              },
+            },
+          })
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error
+          }
+          // A failed judge call costs the reranking, not the retrieval
+          return undefined
+        }
+        const { text, usage } = response
+
+        recordTokenUsage(usage)
+        span?.setAttributes({
+          'llm.token_count.total': usage?.totalTokens ?? 0,
+          'output.value': text.substring(0, 500),
+        })
+
+        try {
+          const { scores } = JSON.parse(text)
+          if (!Array.isArray(scores) || scores.length !== chunks.length) {
+            return undefined
+          }
+          return scores.map((score) => Math.min(1, Math.max(0, Number(score) || 0)))
+        } catch {
+          return undefined
+        }
+      }),
+  }
+}
+
+/**
+ * Local lexical reranker; makes no model or network calls.
+ */
+export const bm25Reranker: Reranker = {
+  name: 'bm25',
+  score: async (query, chunks) => bm25Scores(query, chunks),
+}
+
+/**
+ * Reranker configured under a name, or undefined for none.
+ */
+export function getReranker(name: RerankerName, model?: string): Reranker | undefined {
+  switch (name) {
+    case 'llm':
+      return createLLMReranker(model)
+    case 'bm25':
+      return bm25Reranker
+    case 'none':
+      return undefined
+  }
+}
+
+interface RerankOptions {
+  reranker: Reranker
+  /** Chunks to keep */
+  topN: number
+  signal?: AbortSignal
+}
+
+/**
+ * Rescore candidates and keep the topN most relevant, highest rerank score
+ * first. Chunks keep their search score alongside the rerank score. When the
+ * reranker can't judge the candidates, the search order stands.
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: RetrievedChunk[],
+  options: RerankOptions
+): Promise<RetrievedChunk[]> {
+  return createSpan('rerank', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'reranker',
+    'tool.name': options.reranker.name,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const scores = chunks.length > 0 ? await options.reranker.score(query, chunks, options.signal) : []
+    if (!scores) {
+      span?.setAttributes({ 'workflow.status': 'failed' })
+      return chunks.slice(0, options.topN)
+    }
+
+    const reranked = chunks
+      .map((chunk, i) => ({ ...chunk, rerankScore: scores[i] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, options.topN)
+
+    span?.setAttributes({
+      'tool.result_count': reranked.length,
+      'workflow.status': 'completed',
+    })
+    return reranked
+  })
+}
+
+export { bm25Scores, tokenize } from './bm25'
+export { RERANKER_SYSTEM_PROMPT } from './prompts'
@@ -1,6 +1,6 @@
 // src/agents/retriever/__tests__/agent.test.ts
 import { describe, test, expect, mock, beforeEach } from 'bun:test'
-import { retrieveDocuments } from '../index'
+import { retrieveDocuments, extractComparedEntities, mergeChunks } from '../index'
 
 global.fetch = mock(() =>
   Promise.resolve({
@@ -38,4 +38,54 @@ describe('Retriever Agent', () => {
     })
     expect(result).toBeDefined()
   })
+
+  test('retrieveDocuments leaves out excluded chunks', async () => {
+    const result = await retrieveDocuments({
+      query: 'test query',
+      topK: 5,
+      excludeChunkIds: ['1'],
+    })
+    expect(result.chunks.map((c) => c.chunkId)).toEqual(['2'])
+  })
+})
+
+describe('extractComparedEntities', () => {
+  test('splits "X vs Y" queries', () => {
+    expect(extractComparedEntities('Postgres vs MySQL?')).toEqual(['Postgres', 'MySQL'])
+  })
+
+  test('strips comparison phrasing', () => {
+    expect(extractComparedEntities('Compare the Node.js runtime versus Deno')).toEqual([
+      'Node.js runtime',
+      'Deno',
+    ])
+  })
+
+  test('leaves queries that are not a plain "X vs Y" to the model', () => {
+    expect(extractComparedEntities('What are the pros and cons of Kafka versus RabbitMQ?')).toEqual([])
+    expect(extractComparedEntities('Which is better for analytics, Postgres or MySQL?')).toEqual([])
+    expect(extractComparedEntities('How do hybrid search and semantic search differ?')).toEqual([])
+    expect(extractComparedEntities('Compare the hybrid search and semantic search')).toEqual([])
+  })
+
+  test('returns empty array when nothing is compared', () => {
+    expect(extractComparedEntities('What is hybrid search?')).toEqual([])
+  })
+})
+
+describe('mergeChunks', () => {
+  test('interleaves lists and keeps the highest score for duplicates', () => {
+    const merged = mergeChunks([
+      [
+        { chunkId: 'a', content: 'A', score: 0.5 },
+        { chunkId: 'b', content: 'B', score: 0.4 },
+      ],
+      [
+        { chunkId: 'c', content: 'C', score: 0.9 },
+        { chunkId: 'a', content: 'A', score: 0.8 },
+      ],
+    ])
+    expect(merged.map((c) => c.chunkId)).toEqual(['a', 'c', 'b'])
+    expect(merged[0].score).toBe(0.8)
+  })
 })
@@ -0,0 +1,90 @@
+// src/agents/retriever/__tests__/agentic.test.ts
+import { describe, test, expect, mock } from 'bun:test'
+import type { ToolSet } from 'ai'
+
+interface GenerateParams {
+  system: string
+  tools: ToolSet
+  stopWhen: (options: { steps: unknown[] }) => boolean
+  abortSignal?: AbortSignal
+}
+
+let searches: Array<{ tool: string; query: string; topK: number }> = []
+let lastParams: GenerateParams | undefined
+
+// The model searches twice with its own rewrites, then stops
+mock.module('ai', () => ({
+  tool: (config: unknown) => config,
+  generateText: mock(async (params: GenerateParams) => {
+    lastParams = params
+    const options = { toolCallId: 'call-1', messages: [], abortSignal: params.abortSignal }
+    await params.tools.hybrid_search.execute?.({ query: 'LiteLLM proxy pricing' }, options)
+    await params.tools.semantic_search.execute?.({ query: 'cost of running LiteLLM', topK: 50 }, options)
+    return {
+      text: 'Found pricing details',
+      steps: [{}, {}],
+      totalUsage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+    }
+  }),
+}))
+
+global.fetch = mock(async (url: string, init?: { body?: string }) => {
+  const body = JSON.parse(init?.body ?? '{}')
+  searches.push({ tool: url.includes('semantic') ? 'semantic' : 'hybrid', query: body.query, topK: body.top_k })
+  const semantic = url.includes('semantic')
+  return {
+    ok: true,
+    json: async () => ({
+      results: semantic
+        ? [
+            { chunk_id: 'b', content: 'Semantic hit', similarity_score: 0.7 },
+            { chunk_id: 'a', content: 'Shared hit', similarity_score: 0.95 },
+          ]
+        : [{ chunk_id: 'a', content: 'Shared hit', hybrid_score: 0.9 }],
+      total: 1,
+      query_time_ms: 5,
+    }),
+  } as Response
+}) as unknown as typeof fetch
+
+const { retrieveAgentically } = await import('../agentic')
+const { searchInputSchema } = await import('../tools')
+
+describe('retrieveAgentically', () => {
+  test('merges the chunks of every search the model makes', async () => {
+    searches = []
+    const result = await retrieveAgentically({ query: 'How much does LiteLLM cost?', topK: 5, maxSteps: 3 })
+
+    expect(result.chunks.map((chunk) => chunk.chunkId)).toEqual(['a', 'b'])
+    // Duplicate chunks keep their highest score
+    expect(result.chunks[0].score).toBe(0.95)
+    expect(lastParams?.system).toContain('retrieval specialist')
+  })
+
+  test('records each tool call with the query and clamped topK', async () => {
+    searches = []
+    const result = await retrieveAgentically({ query: 'How much does LiteLLM cost?', topK: 5, maxSteps: 3 })
+
+    expect(result.toolCalls).toMatchObject([
+      { tool: 'hybrid_search', query: 'LiteLLM proxy pricing', topK: 5, resultCount: 1 },
+      { tool: 'semantic_search', query: 'cost of running LiteLLM', topK: 20, resultCount: 2 },
+    ])
+    expect(searches.map((search) => search.topK)).toEqual([5, 20])
+  })
+
+  test('stops after the step budget', async () => {
+    await retrieveAgentically({ query: 'q', topK: 5, maxSteps: 2 })
+
+    expect(lastParams?.stopWhen({ steps: [{}] })).toBe(false)
+    expect(lastParams?.stopWhen({ steps: [{}, {}] })).toBe(true)
+  })
+
+  test.each([0, 2.5, 21])('search tools reject topK %p', (topK) => {
+    expect(searchInputSchema.safeParse({ query: 'q', topK }).success).toBe(false)
+  })
+
+  test('search tools accept topK up to the limit', () => {
+    expect(searchInputSchema.safeParse({ query: 'q', topK: 20 }).success).toBe(true)
+    expect(searchInputSchema.safeParse({ query: 'q' }).success).toBe(true)
+  })
+})
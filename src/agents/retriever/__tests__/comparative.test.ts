@@ -0,0 +1,35 @@
+// src/agents/retriever/__tests__/comparative.test.ts
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+
+const generateText = mock(async ({ prompt }: { prompt: string }) => {
+  const entities = prompt.includes('Kafka')
+    ? ['Kafka', 'RabbitMQ']
+    : prompt.includes('Postgres')
+      ? ['Postgres', 'MySQL']
+      : ['hybrid search', 'semantic search']
+  return { text: JSON.stringify({ entities }), usage: { totalTokens: 20 } }
+})
+
+mock.module('ai', () => ({ generateText }))
+
+const { identifyComparedEntities } = await import('../comparative')
+
+beforeEach(() => {
+  generateText.mockClear()
+})
+
+describe('identifyComparedEntities', () => {
+  test('splits "X vs Y" without asking the model', async () => {
+    expect(await identifyComparedEntities('Postgres vs. MySQL?')).toEqual(['Postgres', 'MySQL'])
+    expect(generateText).not.toHaveBeenCalled()
+  })
+
+  test.each([
+    ['What are the pros and cons of Kafka versus RabbitMQ?', ['Kafka', 'RabbitMQ']],
+    ['Which is better for analytics, Postgres or MySQL?', ['Postgres', 'MySQL']],
+    ['How do hybrid search and semantic search differ?', ['hybrid search', 'semantic search']],
+  ])('asks the model for the entities of "%s"', async (query, entities) => {
+    expect(await identifyComparedEntities(query)).toEqual(entities)
+    expect(generateText).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,85 @@
+// src/agents/retriever/__tests__/expand.test.ts
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+import type { ExpansionConfig } from '@/core/config'
+import type { RetrievedChunk } from '@/core/state'
+import { expandChunks } from '../expand'
+
+// One document split into six chunks; chunk 4 is missing from the index
+const document = [0, 1, 2, 3, 5].map((position) => ({
+  chunk_id: `doc-${position}`,
+  content: `Part ${position}.`,
+  similarity_score: 0.5,
+  metadata: { document_id: 'doc', chunk_index: position },
+}))
+
+let requestedFilters: Array<Record<string, unknown>> = []
+
+beforeEach(() => {
+  requestedFilters = []
+  global.fetch = mock(async (_url: string, init?: { body?: string }) => {
+    const { filters } = JSON.parse(init?.body ?? '{}')
+    requestedFilters.push(filters)
+    const results = document.filter(
+      (chunk) =>
+        chunk.metadata.document_id === filters.document_id &&
+        chunk.metadata.chunk_index === filters.chunk_index
+    )
+    return { ok: true, json: async () => ({ results, total: results.length, query_time_ms: 5 }) } as Response
+  }) as unknown as typeof fetch
+})
+
+const settings: ExpansionConfig = { window: 1, documentKey: 'document_id', positionKey: 'chunk_index' }
+
+function hit(position: number, score = 0.9): RetrievedChunk {
+  return {
+    chunkId: `doc-${position}`,
+    content: `Part ${position}.`,
+    score,
+    metadata: { document_id: 'doc', chunk_index: position },
+  }
+}
+
+describe('expandChunks', () => {
+  test('merges neighbours into one passage that keeps the hit chunkId and score', async () => {
+    const [passage] = await expandChunks([hit(1)], { settings })
+    expect(passage).toMatchObject({
+      chunkId: 'doc-1',
+      score: 0.9,
+      content: 'Part 0.\nPart 1.\nPart 2.',
+      expandedChunkIds: ['doc-0', 'doc-2'],
+    })
+    expect(requestedFilters).toEqual([
+      { document_id: 'doc', chunk_index: 0 },
+      { document_id: 'doc', chunk_index: 2 },
+    ])
+  })
+
+  test('does not repeat text across passages', async () => {
+    const passages = await expandChunks([hit(1), hit(2, 0.8), hit(5, 0.7)], { settings })
+    expect(passages.map((p) => p.expandedChunkIds)).toEqual([['doc-0'], ['doc-3'], undefined])
+    expect(passages[2].content).toBe('Part 5.')
+  })
+
+  test('keeps passages contiguous across missing chunks', async () => {
+    const [passage] = await expandChunks([hit(3)], { settings: { ...settings, window: 2 } })
+    expect(passage.content).toBe('Part 1.\nPart 2.\nPart 3.')
+    expect(passage.expandedChunkIds).toEqual(['doc-1', 'doc-2'])
+  })
+
+  test('ignores neighbours a backend returns without honouring the filter', async () => {
+    global.fetch = mock(async () => ({
+      ok: true,
+      json: async () => ({ results: [document[4]], total: 1, query_time_ms: 5 }),
+    })) as unknown as typeof fetch
+    const [passage] = await expandChunks([hit(1)], { settings })
+    expect(passage).toEqual(hit(1))
+  })
+
+  test('leaves chunks without position metadata and skips work when off', async () => {
+    const plain = { chunkId: 'x', content: 'No metadata', score: 0.4 }
+    expect(await expandChunks([plain], { settings })).toEqual([plain])
+    const chunks = [hit(1)]
+    expect(await expandChunks(chunks, { settings: { ...settings, window: 0 } })).toBe(chunks)
+    expect(requestedFilters).toEqual([])
+  })
+})
@@ -0,0 +1,142 @@
+// src/agents/retriever/__tests__/select.test.ts
+import { describe, test, expect, mock } from 'bun:test'
+import type { SelectionConfig } from '@/core/config'
+import type { RetrievedChunk } from '@/core/state'
+
+let embeddingError: Error | undefined
+
+// Each text embeds to a one-hot vector on its first letter
+mock.module('ai', () => ({
+  generateText: mock(),
+  cosineSimilarity: (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0),
+  embedMany: mock(async ({ values }: { values: string[] }) => {
+    if (embeddingError) {
+      throw embeddingError
+    }
+    return {
+      embeddings: values.map((value) => ['a', 'b', 'c'].map((letter) => (value[0] === letter ? 1 : 0))),
+      usage: { tokens: values.length },
+    }
+  }),
+}))
+
+const { selectChunks, packChunks, lexicalSimilarities } = await import('../select')
+
+const settings: SelectionConfig = {
+  enabled: true,
+  mmrLambda: 0.5,
+  similarity: 'lexical',
+  embeddingModel: 'text-embedding-3-small',
+  duplicateThreshold: 0.9,
+  maxChunksPerDocument: 0,
+  documentKey: 'source',
+  contextTokenBudget: 6000,
+}
+
+function chunk(chunkId: string, content: string, source?: string): RetrievedChunk {
+  return { chunkId, content, score: 0.5, metadata: source ? { source } : undefined }
+}
+
+describe('lexicalSimilarities', () => {
+  test('is 1 for the same terms and 0 for disjoint ones', () => {
+    const similarities = lexicalSimilarities([
+      chunk('a', 'Hybrid search combines vectors'),
+      chunk('b', 'hybrid SEARCH combines vectors.'),
+      chunk('c', 'Pricing plans'),
+    ])
+    expect(similarities[0][1]).toBeCloseTo(1)
+    expect(similarities[0][2]).toBe(0)
+  })
+})
+
+describe('selectChunks', () => {
+  test('collapses near-duplicates into the higher-ranked chunk', async () => {
+    const selected = await selectChunks(
+      [
+        chunk('a', 'LiteLLM is a proxy for many model providers'),
+        chunk('b', 'LiteLLM is a proxy for many model providers!'),
+        chunk('c', 'Pricing of the hosted plans'),
+      ],
+      { topK: 3, settings }
+    )
+    expect(selected.map((c) => c.chunkId)).toEqual(['a', 'c'])
+  })
+
+  test('prefers a novel chunk over one similar to those already chosen', async () => {
+    const selected = await selectChunks(
+      [
+        chunk('a', 'proxy routing retries fallbacks'),
+        chunk('b', 'proxy routing retries budgets'),
+        chunk('c', 'pricing of hosted plans'),
+      ],
+      { topK: 2, settings }
+    )
+    expect(selected.map((c) => c.chunkId)).toEqual(['a', 'c'])
+  })
+
+  test('ranks by relevance alone with lambda 1', async () => {
+    const selected = await selectChunks(
+      [
+        chunk('a', 'proxy routing retries fallbacks'),
+        chunk('b', 'proxy routing retries budgets'),
+        chunk('c', 'pricing of hosted plans'),
+      ],
+      { topK: 2, settings: { ...settings, mmrLambda: 1 } }
+    )
+    expect(selected.map((c) => c.chunkId)).toEqual(['a', 'b'])
+  })
+
+  test('caps chunks per source document', async () => {
+    const selected = await selectChunks(
+      [
+        chunk('a', 'first section', 'guide.pdf'),
+        chunk('b', 'second part', 'guide.pdf'),
+        chunk('c', 'third chapter', 'guide.pdf'),
+        chunk('d', 'an overview', 'overview.pdf'),
+      ],
+      { topK: 3, settings: { ...settings, mmrLambda: 1, maxChunksPerDocument: 2 } }
+    )
+    expect(selected.map((c) => c.chunkId)).toEqual(['a', 'b', 'd'])
+  })
+
+  test('measures similarity with embeddings, falling back to lexical on failure', async () => {
+    const candidates = [
+      chunk('a', 'a proxy'),
+      chunk('b', 'a different text'),
+      chunk('c', 'b pricing'),
+    ]
+    const embedding = { ...settings, similarity: 'embedding' as const }
+
+    // Embeddings see a and b as duplicates despite the different words
+    expect((await selectChunks(candidates, { topK: 3, settings: embedding })).map((c) => c.chunkId)).toEqual([
+      'a',
+      'c',
+    ])
+
+    embeddingError = new Error('Embedding model unavailable')
+    try {
+      const selected = await selectChunks(candidates, { topK: 3, settings: embedding })
+      expect(selected).toHaveLength(3)
+    } finally {
+      embeddingError = undefined
+    }
+  })
+})
+
+describe('packChunks', () => {
+  const chunks = [chunk('a', 'x'.repeat(400)), chunk('b', 'y'.repeat(800)), chunk('c', 'z'.repeat(200))]
+
+  test('returns the chunks untouched when they fit', () => {
+    expect(packChunks(chunks, 1000)).toBe(chunks)
+  })
+
+  test('skips chunks that would overflow and fills with later ones', () => {
+    expect(packChunks(chunks, 200).map((c) => c.chunkId)).toEqual(['a', 'c'])
+  })
+
+  test('cuts the first chunk when nothing fits', () => {
+    const packed = packChunks(chunks, 10)
+    expect(packed).toHaveLength(1)
+    expect(packed[0].content).toBe('x'.repeat(40))
+  })
+})
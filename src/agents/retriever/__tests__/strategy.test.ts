@@ -0,0 +1,122 @@
+// src/agents/retriever/__tests__/strategy.test.ts
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+import { retrieveDocuments, runSearchMethod, fuseRankings } from '../index'
+
+let requests: Array<{ url: string; body: Record<string, unknown> }> = []
+
+// Semantic search and the RAG pipeline rank the same chunks differently
+const resultsByEndpoint: Record<string, unknown[]> = {
+  hybrid: [
+    { chunk_id: 'a', content: 'A', hybrid_score: 0.9 },
+    { chunk_id: 'b', content: 'B', hybrid_score: 0.6 },
+  ],
+  semantic: [
+    { chunk_id: 'c', content: 'C', similarity_score: 0.8 },
+    { chunk_id: 'b', content: 'B', similarity_score: 0.75 },
+  ],
+  query: [{ chunk_id: 'b', content: 'B', hybrid_score: 0.7 }],
+}
+
+beforeEach(() => {
+  requests = []
+  global.fetch = mock(async (url: string, init?: { body?: string }) => {
+    requests.push({ url, body: JSON.parse(init?.body ?? '{}') })
+    const endpoint = Object.keys(resultsByEndpoint).find((name) => url.includes(name)) ?? 'hybrid'
+    return {
+      ok: true,
+      json: async () => ({
+        results: resultsByEndpoint[endpoint],
+        total: resultsByEndpoint[endpoint].length,
+        query_time_ms: endpoint === 'query' ? 120 : 30,
+      }),
+    } as Response
+  }) as unknown as typeof fetch
+})
+
+describe('runSearchMethod', () => {
+  test('maps each search method to its backend call', async () => {
+    const options = { query: 'test query', topK: 4 }
+    await runSearchMethod('hybrid', options)
+    await runSearchMethod('hybrid_rrf', { ...options, queryType: 'analytical' })
+    await runSearchMethod('semantic', options)
+    await runSearchMethod('text', options)
+    await runSearchMethod('rag_thorough', options)
+
+    expect(requests.map((request) => request.url.replace(/^.*\/api\/v1/, ''))).toEqual([
+      '/search/hybrid',
+      '/search/hybrid',
+      '/search/semantic/text',
+      '/search/text',
+      '/rag/query',
+    ])
+    expect(requests[0].body).toMatchObject({ fusion_method: 'weighted_sum', vector_weight: 0.7 })
+    expect(requests[1].body).toMatchObject({ fusion_method: 'rrf', vector_weight: 0.6 })
+    expect(requests[4].body).toMatchObject({ strategy: 'thorough', top_k: 4 })
+  })
+})
+
+describe('runSearchMethod with filters', () => {
+  test('sends filters to the search endpoints and applies them to pipeline results', async () => {
+    const filters = { year: 2024 }
+    await runSearchMethod('hybrid', { query: 'test query', topK: 4, filters })
+    expect(requests[0].body.filters).toEqual(filters)
+
+    // The pipeline's chunks carry no year, so none of them match
+    const response = await runSearchMethod('rag_fast', { query: 'test query', topK: 4, filters })
+    expect(requests[1].body.filters).toBeUndefined()
+    expect(response.results).toEqual([])
+  })
+})
+
+describe('retrieveDocuments with a strategy', () => {
+  test('runs one hybrid search by default', async () => {
+    const result = await retrieveDocuments({ query: 'test query' })
+    expect(requests).toHaveLength(1)
+    expect(result.strategy).toEqual(['hybrid'])
+    expect(result.chunks.map((c) => c.chunkId)).toEqual(['a', 'b'])
+  })
+
+  test('fuses several search methods by rank and keeps the best scores', async () => {
+    const result = await retrieveDocuments({
+      query: 'test query',
+      topK: 3,
+      strategy: ['hybrid', 'semantic', 'rag_balanced', 'semantic'],
+    })
+
+    expect(requests).toHaveLength(3)
+    expect(result.strategy).toEqual(['hybrid', 'semantic', 'rag_balanced'])
+    // b is found by every method, so it outranks the single-method top hits
+    expect(result.chunks.map((c) => c.chunkId)).toEqual(['b', 'a', 'c'])
+    expect(result.chunks[0].score).toBe(0.75)
+    expect(result.queryTimeMs).toBe(120)
+  })
+
+  test('over-fetches candidates for the reranker and keeps topK', async () => {
+    const result = await retrieveDocuments({
+      query: 'test query',
+      topK: 1,
+      reranker: { name: 'bm25', score: async (_query, chunks) => chunks.map((_, i) => i) },
+      rerankCandidates: 10,
+    })
+
+    expect(requests[0].body.top_k).toBe(10)
+    expect(result.chunks).toEqual([{ chunkId: 'b', content: 'B', score: 0.6, rerankScore: 1 }])
+  })
+})
+
+describe('fuseRankings', () => {
+  test('orders by reciprocal rank across lists', () => {
+    const fused = fuseRankings([
+      [
+        { chunkId: 'x', content: 'X', score: 0.9 },
+        { chunkId: 'y', content: 'Y', score: 0.5 },
+      ],
+      [
+        { chunkId: 'y', content: 'Y', score: 0.6 },
+        { chunkId: 'z', content: 'Z', score: 0.4 },
+      ],
+    ])
+    expect(fused.map((c) => c.chunkId)).toEqual(['y', 'x', 'z'])
+    expect(fused[0].score).toBe(0.6)
+  })
+})
@@ -0,0 +1,91 @@
+// src/agents/retriever/__tests__/transform.test.ts
+import { describe, test, expect, mock, beforeEach } from 'bun:test'
+
+let multiQueryText = '{"queries": ["definition of hybrid search", "keyword plus vector retrieval"]}'
+let hydeError: Error | undefined
+
+mock.module('ai', () => ({
+  generateText: mock(async ({ system }: { system: string }) => {
+    if (system.includes('hypothetical answer writer')) {
+      if (hydeError) {
+        throw hydeError
+      }
+      return { text: '  Hybrid search combines keyword and vector scores.  ', usage: { totalTokens: 30 } }
+    }
+    return { text: multiQueryText, usage: { totalTokens: 20 } }
+  }),
+}))
+
+const { transformQuery, transformedSearches, extractKeywords } = await import('../transform')
+
+const context = { model: 'gpt-5-mini', variants: 3 }
+
+beforeEach(() => {
+  multiQueryText = '{"queries": ["definition of hybrid search", "keyword plus vector retrieval"]}'
+  hydeError = undefined
+})
+
+describe('extractKeywords', () => {
+  test('drops stopwords and repeats, keeping query order', () => {
+    expect(extractKeywords('What is the difference between BM25 and hybrid search in the API?')).toBe(
+      'difference bm25 hybrid search api'
+    )
+  })
+
+  test('is empty when only stopwords are left', () => {
+    expect(extractKeywords('What is it?')).toBe('')
+  })
+})
+
+describe('transformQuery', () => {
+  test('runs nothing without transforms', async () => {
+    expect(await transformQuery('What is hybrid search?', { ...context, transforms: [] })).toEqual({})
+  })
+
+  test('combines the output of every transform', async () => {
+    const transformed = await transformQuery('What is hybrid search?', {
+      ...context,
+      transforms: ['keywords', 'hyde', 'multi_query'],
+    })
+    expect(transformed).toEqual({
+      keywords: 'hybrid search',
+      hypotheticalAnswer: 'Hybrid search combines keyword and vector scores.',
+      variants: ['definition of hybrid search', 'keyword plus vector retrieval'],
+    })
+  })
+
+  test('caps variants and drops ones repeating the query', async () => {
+    multiQueryText = '{"queries": ["What is hybrid search?", "a", "b", "a", "c"]}'
+    const transformed = await transformQuery('what is hybrid search?', {
+      ...context,
+      variants: 2,
+      transforms: ['multi_query'],
+    })
+    expect(transformed.variants).toEqual(['a', 'b'])
+  })
+
+  test('leaves out transforms that fail or return nothing usable', async () => {
+    hydeError = new Error('Model unavailable')
+    multiQueryText = 'not json'
+    const transformed = await transformQuery('What is hybrid search?', {
+      ...context,
+      transforms: ['keywords', 'hyde', 'multi_query'],
+    })
+    expect(transformed).toEqual({ keywords: 'hybrid search' })
+  })
+})
+
+describe('transformedSearches', () => {
+  test('sends keywords to text search, HyDE to vector search and variants through the strategy', () => {
+    const searches = transformedSearches(
+      { keywords: 'hybrid search', hypotheticalAnswer: 'A passage.', variants: ['v1'] },
+      ['hybrid', 'rag_fast']
+    )
+    expect(searches).toEqual([
+      { query: 'hybrid search', method: 'text' },
+      { query: 'A passage.', method: 'semantic' },
+      { query: 'v1', method: 'hybrid' },
+      { query: 'v1', method: 'rag_fast' },
+    ])
+  })
+})
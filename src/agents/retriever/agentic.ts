@@ -0,0 +1,145 @@
+// src/agents/retriever/agentic.ts
+import { generateText, tool, type StopCondition, type ToolSet } from 'ai'
+import { config } from '@/core/config'
+import type { MetadataFilters } from '@/core/filters'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import type { QueryType, RetrievalToolCall, RetrievedChunk } from '@/core/state'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import type { HybridSearchResponse } from '@/core/tools'
+import { averageScore, mergeChunks } from './merge'
+import { RETRIEVER_SYSTEM_PROMPT } from './prompts'
+import { retrieverTools, type RetrieverToolContext } from './tools'
+
+interface AgenticRetrieveOptions {
+  query: string
+  queryType?: QueryType
+  /** Chunks kept from all searches; also the default topK of each search */
+  topK: number
+  /** LLM steps, each of which may issue several searches */
+  maxSteps: number
+  model?: string
+  /** Metadata constraints every search applies, whatever the model asks for */
+  filters?: MetadataFilters
+  signal?: AbortSignal
+}
+
+interface AgenticRetrieveResult {
+  chunks: RetrievedChunk[]
+  score: number
+  queryTimeMs: number
+  toolCalls: RetrievalToolCall[]
+}
+
+/**
+ * Characters of each chunk shown to the model, enough to judge relevance.
+ */
+const PREVIEW_LENGTH = 300
+
+/**
+ * Let an LLM gather evidence with the retriever tools, rewriting the query and
+ * choosing topK per search until it has enough or runs out of steps.
+ * Chunks from all searches are merged round-robin and cut to topK; the
+ * result is empty if the model made no successful search.
+ */
+export async function retrieveAgentically(
+  options: AgenticRetrieveOptions
+): Promise<AgenticRetrieveResult> {
+  const model = options.model ?? 'gpt-5-mini'
+  const toolCalls: RetrievalToolCall[] = []
+  const found: RetrievedChunk[][] = []
+
+  return createSpan('agentic_retrieval', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'agent',
+    'llm.model_name': model,
+    'input.value': options.query.substring(0, 500),
+  }, async (span) => {
+    const stopAfterMaxSteps: StopCondition<ToolSet> = ({ steps }) => steps.length >= options.maxSteps
+    const { steps, totalUsage } = await generateText({
+      model: getLLM(model),
+      system: RETRIEVER_SYSTEM_PROMPT,
+      prompt: `Query: ${options.query}
+${options.queryType ? `Query type: ${options.queryType}\n` : ''}Default topK: ${options.topK}`,
+      tools: recordingTools(options.topK, toolCalls, found),
+      experimental_context: { filters: options.filters } satisfies RetrieverToolContext,
+      stopWhen: stopAfterMaxSteps,
+      abortSignal: options.signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+    recordTokenUsage(totalUsage)
+
+    const chunks = mergeChunks(found).slice(0, options.topK)
+    const score = averageScore(chunks)
+    span?.setAttributes({
+      'llm.token_count.total': totalUsage?.totalTokens ?? 0,
+      'iteration.count': steps?.length ?? 0,
+      'tool.result_count': chunks.length,
+      'retrieval.score': score,
+    })
+    return {
+      chunks,
+      score,
+      queryTimeMs: toolCalls.reduce((sum, call) => sum + call.durationMs, 0),
+      toolCalls,
+    }
+  })
+}
+
+/**
+ * The retriever tools, wrapped so every call is traced, recorded in
+ * `toolCalls` and its chunks collected in `found`. The model sees short
+ * previews rather than whole chunks.
+ */
+function recordingTools(
+  defaultTopK: number,
+  toolCalls: RetrievalToolCall[],
+  found: RetrievedChunk[][]
+): ToolSet {
+  return Object.fromEntries(
+    Object.entries(retrieverTools).map(([name, search]) => [
+      name,
+      tool({
+        description: search.description,
+        inputSchema: search.inputSchema,
+        execute: async (input, callOptions) => {
+          const topK = Math.min(input.topK ?? defaultTopK, config.workflow.limits.topK)
+          return createSpan('agentic_search_tool_call', {
+            [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'retriever',
+            'tool.name': name,
+            'input.value': input.query.substring(0, 500),
+          }, async (span) => {
+            const startedAt = Date.now()
+            const call: RetrievalToolCall = { tool: name, query: input.query, topK, resultCount: 0, durationMs: 0 }
+            toolCalls.push(call)
+            try {
+              const response = (await search.execute?.({ ...input, topK }, callOptions)) as HybridSearchResponse
+              const chunks = (response.results ?? []).map((r) => ({
+                chunkId: r.chunk_id,
+                content: r.content,
+                score: r.hybrid_score ?? r.similarity_score ?? 0,
+                metadata: r.metadata,
+              }))
+              found.push(chunks)
+              call.resultCount = chunks.length
+              span?.setAttributes({ 'tool.result_count': chunks.length, 'retrieval.score': averageScore(chunks) })
+              return chunks.map((chunk) => ({
+                chunkId: chunk.chunkId,
+                score: chunk.score,
+                preview: chunk.content.substring(0, PREVIEW_LENGTH),
+              }))
+            } catch (error) {
+              call.error = error instanceof Error ? error.message : 'Unknown error'
+              throw error
+            } finally {
+              call.durationMs = Date.now() - startedAt
+            }
+          })
+        },
+      }),
+    ])
+  )
+}
@@ -0,0 +1,111 @@
+// src/agents/retriever/comparative.ts
+import { generateText } from 'ai'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { COMPARISON_ENTITIES_SYSTEM_PROMPT } from './prompts'
+
+/**
+ * Entities retrieved for separately; further ones would thin out each one's evidence.
+ */
+const MAX_COMPARED_ENTITIES = 4
+
+const COMPARISON_PREFIX = /^compare\s+/i
+const COMPARISON_SEPARATOR = /\s+(?:vs\.?|versus)\s+/i
+
+/**
+ * Longest operand, in words, taken as a name rather than part of a sentence.
+ */
+const MAX_ENTITY_WORDS = 3
+
+/**
+ * Words that mark an operand as a clause ("the pros and cons of Kafka")
+ * rather than the name of the thing compared.
+ */
+const CLAUSE_WORDS = new Set([
+  'and', 'are', 'better', 'do', 'does', 'for', 'how', 'in', 'is', 'of', 'on', 'or', 'should',
+  'to', 'what', 'when', 'which', 'why', 'with',
+])
+
+function isEntityName(operand: string): boolean {
+  const words = operand.split(/\s+/)
+  return (
+    words.length <= MAX_ENTITY_WORDS &&
+    !/[,;:]/.test(operand) &&
+    words.every((word) => !CLAUSE_WORDS.has(word.toLowerCase()))
+  )
+}
+
+/**
+ * Split a query of the strict form "X vs Y" (or "compare X versus Y") whose
+ * operands are short names, e.g. "Postgres vs MySQL?" -> ["Postgres", "MySQL"].
+ * Returns an empty array for anything else, which is left to the model.
+ */
+export function extractComparedEntities(query: string): string[] {
+  const body = query
+    .trim()
+    .replace(/[?.!]+$/, '')
+    .replace(COMPARISON_PREFIX, '')
+
+  const parts = body
+    .split(COMPARISON_SEPARATOR)
+    .map((part) => part.replace(/^(?:the|a|an)\s+/i, '').trim())
+
+  return parts.length >= 2 && parts.every((part) => part.length > 0 && isEntityName(part))
+    ? parts
+    : []
+}
+
+/**
+ * Entities a comparative query compares. Queries of the strict "X vs Y"
+ * form are split without a model call; otherwise the model picks them out. Returns an empty array when fewer than two are found.
+ */
+export async function identifyComparedEntities(
+  query: string,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<string[]> {
+  const split = extractComparedEntities(query)
+  if (split.length > 0) {
+    return split.slice(0, MAX_COMPARED_ENTITIES)
+  }
+
+  return createSpan('comparison_entities_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: COMPARISON_ENTITIES_SYSTEM_PROMPT,
+      prompt: `Query: "${query}"`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': text.substring(0, 500),
+    })
+
+    try {
+      const result = JSON.parse(text) as { entities?: unknown[] }
+      const entities = [
+        ...new Set(
+          (result.entities ?? [])
+            .filter((entity): entity is string => typeof entity === 'string')
+            .map((entity) => entity.trim())
+            .filter((entity) => entity.length > 0)
+        ),
+      ].slice(0, MAX_COMPARED_ENTITIES)
+      return entities.length >= 2 ? entities : []
+    } catch {
+      return []
+    }
+  })
+}
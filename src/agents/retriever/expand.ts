@@ -0,0 +1,145 @@
+// src/agents/retriever/expand.ts
+import type { ExpansionConfig } from '@/core/config'
+import type { RetrievedChunk } from '@/core/state'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { semanticTextSearch, type SearchResult } from '@/core/tools'
+
+interface ExpandOptions {
+  settings: ExpansionConfig
+  signal?: AbortSignal
+}
+
+interface Neighbour {
+  chunkId: string
+  content: string
+  position: number
+}
+
+function positionOf(metadata: Record<string, unknown> | undefined, key: string): number | undefined {
+  const position = Number(metadata?.[key])
+  return Number.isInteger(position) ? position : undefined
+}
+
+/**
+ * Fetch the chunk at a position in a document through a metadata-filtered
+ * search. The result is checked against the filter, so a backend that
+ * ignores the filter can't slip in an unrelated chunk.
+ */
+async function fetchNeighbour(
+  source: RetrievedChunk,
+  documentId: unknown,
+  position: number,
+  options: ExpandOptions
+): Promise<Neighbour | undefined> {
+  const { documentKey, positionKey } = options.settings
+  try {
+    const response = await semanticTextSearch({
+      query: source.content,
+      topK: 1,
+      filters: { [documentKey]: documentId, [positionKey]: position },
+      signal: options.signal,
+    })
+    const match = (response.results ?? []).find(
+      (r: SearchResult) =>
+        r.metadata?.[documentKey] === documentId && positionOf(r.metadata, positionKey) === position
+    )
+    return match ? { chunkId: match.chunk_id, content: match.content, position } : undefined
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error
+    }
+    // A missing neighbour only means less context
+    return undefined
+  }
+}
+
+/**
+ * Widen each retrieved chunk with up to `window` adjacent chunks on either
+ * side, joined in document order into one passage. The passage keeps the
+ * hit's chunkId and score so citations still resolve; the merged neighbours
+ * are listed in `expandedChunkIds`. Neighbours that are themselves among the
+ * chunks aren't merged, since they already appear as their own passage, and a
+ * neighbour shared by two hits goes to the higher-ranked one. Chunks without
+ * a document id and position in their metadata are left as they are.
+ */
+export async function expandChunks(
+  chunks: RetrievedChunk[],
+  options: ExpandOptions
+): Promise<RetrievedChunk[]> {
+  const { window, documentKey, positionKey } = options.settings
+  if (window === 0 || chunks.length === 0) {
+    return chunks
+  }
+
+  return createSpan('expand_chunks', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'tool.name': 'rag-api',
+  }, async (span) => {
+    // Positions already covered by a passage. Each neighbour is claimed by the
+    // highest-ranked hit next to it, so no text appears twice
+    const claimed = new Set(
+      chunks.map((chunk) => `${chunk.metadata?.[documentKey]}#${positionOf(chunk.metadata, positionKey)}`)
+    )
+
+    const expanded = await Promise.all(
+      chunks.map(async (chunk) => {
+        const documentId = chunk.metadata?.[documentKey]
+        const position = positionOf(chunk.metadata, positionKey)
+        if (documentId === undefined || documentId === null || position === undefined) {
+          return chunk
+        }
+
+        // Walk outward on each side, stopping at a position another passage covers
+        const positions: number[] = []
+        for (const direction of [-1, 1]) {
+          for (let step = 1; step <= window; step++) {
+            const neighbour = position + direction * step
+            const key = `${documentId}#${neighbour}`
+            if (neighbour < 0 || claimed.has(key)) {
+              break
+            }
+            claimed.add(key)
+            positions.push(neighbour)
+          }
+        }
+        const fetched = await Promise.all(
+          positions.map((p) => fetchNeighbour(chunk, documentId, p, options))
+        )
+        const found = new Map(
+          fetched
+            .filter((neighbour): neighbour is Neighbour => neighbour !== undefined)
+            .map((neighbour) => [neighbour.position, neighbour])
+        )
+
+        // Keep the passage contiguous: a gap ends it on that side
+        const neighbours: Neighbour[] = []
+        for (const direction of [-1, 1]) {
+          for (let step = 1; found.has(position + direction * step); step++) {
+            neighbours.push(found.get(position + direction * step) as Neighbour)
+          }
+        }
+        if (neighbours.length === 0) {
+          return chunk
+        }
+
+        const passage = [...neighbours, { chunkId: chunk.chunkId, content: chunk.content, position }]
+        passage.sort((a, b) => a.position - b.position)
+        return {
+          ...chunk,
+          content: passage.map((part) => part.content).join('\n'),
+          expandedChunkIds: passage
+            .filter((part) => part.chunkId !== chunk.chunkId)
+            .map((part) => part.chunkId),
+        }
+      })
+    )
+
+    span?.setAttributes({
+      'expansion.neighbour_count': expanded.reduce(
+        (count, chunk) => count + (chunk.expandedChunkIds?.length ?? 0),
+        0
+      ),
+    })
+    return expanded
+  })
+}
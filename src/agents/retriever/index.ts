@@ -1,45 +1,113 @@
 // src/agents/retriever/index.ts
-import { hybridSearch, type SearchResult } from '@/core/tools'
+import { rerankChunks, type Reranker } from '@/agents/reranker'
+import type { ExpansionConfig, SearchMethod, SelectionConfig } from '@/core/config'
+import type { MetadataFilters } from '@/core/filters'
+import type { SearchResult } from '@/core/tools'
 import { createSpan, SemanticConventions } from '@/core/telemetry'
-import type { RetrievedChunk, QueryType } from '@/core/state'
+import type { RetrievedChunk, QueryType, TransformedQueries } from '@/core/state'
 import { RETRIEVER_SYSTEM_PROMPT } from './prompts'
+import { averageScore, fuseRankings } from './merge'
+import { runSearchMethod } from './strategy'
+import { selectChunks } from './select'
+import { expandChunks } from './expand'
+import { transformedSearches } from './transform'
+
+/**
+ * Candidates fetched per result slot when diversity selection is on and no
+ * reranker sets the pool size, so there is something to choose between.
+ */
+const SELECTION_POOL_FACTOR = 2
 
 interface RetrieveOptions {
   query: string
   queryType?: QueryType
   topK?: number
+  /** Search methods to run, fused when there are several; defaults to hybrid search */
+  strategy?: SearchMethod[]
+  /** Rewrites of the query searched alongside it, fused with its results */
+  transformed?: TransformedQueries
+  /** Metadata constraints every search applies */
+  filters?: MetadataFilters
+  /** Chunks to leave out of the results, e.g. ones an earlier pass already found */
+  excludeChunkIds?: string[]
+  /** Rescores the candidates; topK of them are kept */
+  reranker?: Reranker
+  /** Candidates fetched for the reranker, when it is given; defaults to topK */
+  rerankCandidates?: number
+  /** Picks topK diverse chunks from the candidates instead of the top of the ranking */
+  selection?: SelectionConfig
+  /** Widens the chosen chunks with their neighbours in the source document */
+  expansion?: ExpansionConfig
+  signal?: AbortSignal
 }
 
 interface RetrieveResult {
   chunks: RetrievedChunk[]
   score: number
   queryTimeMs: number
+  strategy: SearchMethod[]
 }
 
 export async function retrieveDocuments(options: RetrieveOptions): Promise<RetrieveResult> {
   const topK = options.topK ?? 5
+  const candidates = options.reranker
+    ? Math.max(topK, options.rerankCandidates ?? topK)
+    : options.selection
+      ? topK * SELECTION_POOL_FACTOR
+      : topK
+  const excluded = new Set(options.excludeChunkIds)
+  const strategy = [...new Set<SearchMethod>(options.strategy ?? ['hybrid'])]
 
   return createSpan('retrieve_tool_call', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'retriever',
     'tool.name': 'rag-api',
     'input.value': options.query.substring(0, 500),
+    'retrieval.strategy': strategy.join('+'),
+    ...(options.filters && { 'retrieval.filters': JSON.stringify(options.filters) }),
   }, async (span) => {
-    const response = await hybridSearch({
-      query: options.query,
-      topK,
-      vectorWeight: options.queryType === 'analytical' ? 0.6 : 0.7,
-      textWeight: options.queryType === 'analytical' ? 0.4 : 0.3,
-    })
+    const searches = [
+      ...strategy.map((method) => ({ query: options.query, method })),
+      ...transformedSearches(options.transformed ?? {}, strategy),
+    ]
+    const responses = await Promise.all(
+      searches.map(({ query, method }) =>
+        runSearchMethod(method, {
+          query,
+          queryType: options.queryType,
+          // Over-fetch so excluded chunks don't take up result slots
+          topK: candidates + excluded.size,
+          filters: options.filters,
+          signal: options.signal,
+        })
+      )
+    )
 
-    const chunks: RetrievedChunk[] = (response.results ?? []).map((r: SearchResult) => ({
-      chunkId: r.chunk_id,
-      content: r.content,
-      score: r.hybrid_score ?? r.similarity_score ?? 0,
-      metadata: r.metadata,
-    }))
+    const rankings = responses.map((response) =>
+      (response.results ?? [])
+        .filter((r: SearchResult) => !excluded.has(r.chunk_id))
+        .map((r: SearchResult) => ({
+          chunkId: r.chunk_id,
+          content: r.content,
+          score: r.hybrid_score ?? r.similarity_score ?? 0,
+          metadata: r.metadata,
+        }))
+    )
+    const fused = fuseRankings(rankings).slice(0, candidates)
+    const ranked = options.reranker
+      ? await rerankChunks(options.query, fused, {
+          reranker: options.reranker,
+          topN: fused.length,
+          signal: options.signal,
+        })
+      : fused
+    const selected = options.selection
+      ? await selectChunks(ranked, { topK, settings: options.selection, signal: options.signal })
+      : ranked.slice(0, topK)
+    const chunks = options.expansion
+      ? await expandChunks(selected, { settings: options.expansion, signal: options.signal })
+      : selected
 
-    const avgScore =
-      chunks.length > 0 ? chunks.reduce((sum, c) => sum + c.score, 0) / chunks.length : 0
+    const avgScore = averageScore(chunks)
 
     span?.setAttributes({
       'tool.result_count': chunks.length,
@@ -50,10 +118,32 @@ export async function retrieveDocuments(options: RetrieveOptions): Promise<Retri
     return {
       chunks,
       score: avgScore,
-      queryTimeMs: response.query_time_ms ?? 0,
+      // The searches run side by side, so the slowest one sets the pace
+      queryTimeMs: Math.max(0, ...responses.map((response) => response.query_time_ms ?? 0)),
+      strategy,
     }
   })
 }
 
-export { RETRIEVER_SYSTEM_PROMPT } from './prompts'
-export { retrieverTools } from './tools'
+export {
+  RETRIEVER_SYSTEM_PROMPT,
+  REFORMULATOR_SYSTEM_PROMPT,
+  HYDE_SYSTEM_PROMPT,
+  MULTI_QUERY_SYSTEM_PROMPT,
+  COMPARISON_ENTITIES_SYSTEM_PROMPT,
+} from './prompts'
+export { reformulateQuery } from './reformulate'
+export { extractComparedEntities, identifyComparedEntities } from './comparative'
+export { mergeChunks, averageScore, fuseRankings } from './merge'
+export { runSearchMethod } from './strategy'
+export { selectChunks, packChunks, estimateTokens, lexicalSimilarities } from './select'
+export { expandChunks } from './expand'
+export {
+  transformQuery,
+  transformedSearches,
+  extractKeywords,
+  getQueryTransform,
+  type QueryTransform,
+} from './transform'
+export { retrieverTools, type RetrieverToolContext } from './tools'
+export { retrieveAgentically } from './agentic'
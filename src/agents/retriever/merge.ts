@@ -0,0 +1,62 @@
+// src/agents/retriever/merge.ts
+import type { RetrievedChunk } from '@/core/state'
+
+/**
+ * Merge several retrieval result lists into one, round-robin, so no single
+ * list crowds out the others. Duplicate chunks keep their highest score.
+ */
+export function mergeChunks(lists: RetrievedChunk[][]): RetrievedChunk[] {
+  const merged = new Map<string, RetrievedChunk>()
+  const longest = Math.max(0, ...lists.map((list) => list.length))
+
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      const chunk = list[i]
+      if (!chunk) continue
+      const existing = merged.get(chunk.chunkId)
+      if (!existing || existing.score < chunk.score) {
+        merged.set(chunk.chunkId, existing ? { ...existing, score: chunk.score } : chunk)
+      }
+    }
+  }
+
+  return [...merged.values()]
+}
+
+/**
+ * Mean score of a chunk list, 0 when empty.
+ */
+export function averageScore(chunks: RetrievedChunk[]): number {
+  return chunks.length > 0 ? chunks.reduce((sum, c) => sum + c.score, 0) / chunks.length : 0
+}
+
+/**
+ * Smoothing constant of reciprocal rank fusion; dampens the lead of the top ranks.
+ */
+const RRF_K = 60
+
+/**
+ * Fuse ranked result lists with reciprocal rank fusion, so chunks ranked high
+ * by several searches come first. Each chunk keeps its best original score,
+ * which keeps fused results comparable with the retrieval score thresholds.
+ */
+export function fuseRankings(lists: RetrievedChunk[][]): RetrievedChunk[] {
+  const fused = new Map<string, { chunk: RetrievedChunk; rank: number }>()
+
+  for (const list of lists) {
+    for (const [index, chunk] of list.entries()) {
+      const entry = fused.get(chunk.chunkId)
+      const rank = 1 / (RRF_K + index + 1)
+      if (!entry) {
+        fused.set(chunk.chunkId, { chunk, rank })
+        continue
+      }
+      entry.rank += rank
+      if (entry.chunk.score < chunk.score) {
+        entry.chunk = { ...entry.chunk, score: chunk.score }
+      }
+    }
+  }
+
+  return [...fused.values()].sort((a, b) => b.rank - a.rank).map((entry) => entry.chunk)
+}
@@ -0,0 +1,47 @@
+// src/agents/retriever/reformulate.ts
+import { generateText } from 'ai'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { REFORMULATOR_SYSTEM_PROMPT } from './prompts'
+
+/**
+ * Rewrite a query for another retrieval pass, optionally guided by critic feedback.
+ * Falls back to the original query when the model returns nothing.
+ */
+export async function reformulateQuery(
+  query: string,
+  feedback?: string,
+  model = 'gpt-5-mini',
+  signal?: AbortSignal
+): Promise<string> {
+  return createSpan('reformulate_llm_call', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+    'llm.model_name': model,
+    'input.value': query.substring(0, 500),
+  }, async (span) => {
+    const { text, usage } = await generateText({
+      model: getLLM(model),
+      system: REFORMULATOR_SYSTEM_PROMPT,
+      prompt: `Query: ${query}
+${feedback ? `\nReviewer feedback: ${feedback}\n` : ''}
+Reformulated query:`,
+      abortSignal: signal,
+      temperature: 1.0,
+      providerOptions: {
+        openai: {
+          reasoningEffort: 'low',
+        },
+      },
+    })
+
+    const reformulated = text.trim() || query
+
+    recordTokenUsage(usage)
+    span?.setAttributes({
+      'llm.token_count.total': usage?.totalTokens ?? 0,
+      'output.value': reformulated.substring(0, 500),
+    })
+
+    return reformulated
+  })
+}
@@ -0,0 +1,185 @@
+// src/agents/retriever/select.ts
+import { cosineSimilarity, embedMany } from 'ai'
+import { tokenize } from '@/agents/reranker'
+import type { SelectionConfig } from '@/core/config'
+import { getEmbeddingModel, recordTokenUsage } from '@/core/llm'
+import type { RetrievedChunk } from '@/core/state'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+
+/**
+ * Rough characters per token of English text, for budgeting without a tokenizer.
+ */
+const CHARS_PER_TOKEN = 4
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * Pairwise similarity of chunk texts: cosine similarity of their term counts.
+ */
+export function lexicalSimilarities(chunks: RetrievedChunk[]): number[][] {
+  const vectors = chunks.map((chunk) => termCounts(chunk.content))
+  const norms = vectors.map((vector) =>
+    Math.sqrt([...vector.values()].reduce((sum, count) => sum + count * count, 0))
+  )
+
+  return vectors.map((a, i) =>
+    vectors.map((b, j) => {
+      if (norms[i] === 0 || norms[j] === 0) {
+        return 0
+      }
+      let dot = 0
+      for (const [term, count] of a) {
+        dot += count * (b.get(term) ?? 0)
+      }
+      return dot / (norms[i] * norms[j])
+    })
+  )
+}
+
+async function embeddingSimilarities(
+  chunks: RetrievedChunk[],
+  model: string,
+  signal?: AbortSignal
+): Promise<number[][]> {
+  const { embeddings, usage } = await embedMany({
+    model: getEmbeddingModel(model),
+    values: chunks.map((chunk) => chunk.content),
+    abortSignal: signal,
+  })
+  recordTokenUsage({ inputTokens: usage.tokens, outputTokens: 0, totalTokens: usage.tokens })
+  return embeddings.map((a) => embeddings.map((b) => cosineSimilarity(a, b)))
+}
+
+function documentOf(chunk: RetrievedChunk, key: string): string | undefined {
+  const value = chunk.metadata?.[key]
+  return value === undefined || value === null ? undefined : String(value)
+}
+
+interface SelectOptions {
+  topK: number
+  settings: SelectionConfig
+  signal?: AbortSignal
+}
+
+/**
+ * Pick topK chunks from ranked candidates for relevance and variety.
+ *
+ * Near-duplicates of a higher-ranked chunk are dropped first. The rest are
+ * chosen by Maximal Marginal Relevance, trading rank against similarity to the
+ * chunks already chosen, with at most `maxChunksPerDocument` per source
+ * document. Relevance is taken from rank, since search scores from different
+ * backends aren't on one scale. If embeddings can't be fetched, lexical
+ * similarity stands in.
+ */
+export async function selectChunks(
+  chunks: RetrievedChunk[],
+  options: SelectOptions
+): Promise<RetrievedChunk[]> {
+  const { settings } = options
+  return createSpan('select_chunks', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'selection.candidate_count': chunks.length,
+  }, async (span) => {
+    if (chunks.length === 0) {
+      return []
+    }
+
+    let similarities: number[][]
+    if (settings.similarity === 'embedding') {
+      try {
+        similarities = await embeddingSimilarities(chunks, settings.embeddingModel, options.signal)
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error
+        }
+        similarities = lexicalSimilarities(chunks)
+      }
+    } else {
+      similarities = lexicalSimilarities(chunks)
+    }
+
+    const distinct: number[] = []
+    for (const i of chunks.keys()) {
+      if (distinct.every((j) => similarities[i][j] < settings.duplicateThreshold)) {
+        distinct.push(i)
+      }
+    }
+
+    const selected: number[] = []
+    const perDocument = new Map<string, number>()
+    const remaining = new Set(distinct)
+    while (selected.length < options.topK) {
+      let best: number | undefined
+      let bestScore = Number.NEGATIVE_INFINITY
+      for (const i of remaining) {
+        const document = documentOf(chunks[i], settings.documentKey)
+        if (
+          settings.maxChunksPerDocument > 0 &&
+          document !== undefined &&
+          (perDocument.get(document) ?? 0) >= settings.maxChunksPerDocument
+        ) {
+          continue
+        }
+        const relevance = 1 - i / chunks.length
+        const redundancy = Math.max(0, ...selected.map((j) => similarities[i][j]))
+        const score = settings.mmrLambda * relevance - (1 - settings.mmrLambda) * redundancy
+        if (score > bestScore) {
+          best = i
+          bestScore = score
+        }
+      }
+      if (best === undefined) {
+        break
+      }
+
+      selected.push(best)
+      remaining.delete(best)
+      const document = documentOf(chunks[best], settings.documentKey)
+      if (document !== undefined) {
+        perDocument.set(document, (perDocument.get(document) ?? 0) + 1)
+      }
+    }
+
+    span?.setAttributes({
+      'selection.duplicate_count': chunks.length - distinct.length,
+      'tool.result_count': selected.length,
+    })
+    return selected.map((i) => chunks[i])
+  })
+}
+
+/**
+ * Fit chunks into a token budget in rank order. A chunk that doesn't fit is
+ * skipped so smaller ones after it can still use the room; if not even one
+ * fits, the first is cut to the budget so the generator has some evidence.
+ * Returns the input array itself when everything fits.
+ */
+export function packChunks(chunks: RetrievedChunk[], tokenBudget: number): RetrievedChunk[] {
+  const packed: RetrievedChunk[] = []
+  let remaining = tokenBudget
+  for (const chunk of chunks) {
+    const tokens = estimateTokens(chunk.content)
+    if (tokens <= remaining) {
+      packed.push(chunk)
+      remaining -= tokens
+    }
+  }
+
+  if (packed.length === chunks.length) {
+    return chunks
+  }
+  if (packed.length === 0) {
+    return [{ ...chunks[0], content: chunks[0].content.substring(0, tokenBudget * CHARS_PER_TOKEN) }]
+  }
+  return packed
+}
@@ -0,0 +1,72 @@
+// src/agents/retriever/strategy.ts
+import type { SearchMethod } from '@/core/config'
+import { matchesFilters, type MetadataFilters } from '@/core/filters'
+import type { QueryType } from '@/core/state'
+import {
+  hybridSearch,
+  ragQuery,
+  semanticTextSearch,
+  textSearch,
+  type HybridSearchResponse,
+} from '@/core/tools'
+
+interface SearchMethodOptions {
+  query: string
+  queryType?: QueryType
+  topK: number
+  filters?: MetadataFilters
+  signal?: AbortSignal
+}
+
+/**
+ * Query the RAG pipeline, which takes no metadata filters; they are applied
+ * to its results instead, so it may return fewer than topK.
+ */
+async function filteredRagQuery(
+  strategy: 'fast' | 'balanced' | 'thorough',
+  { query, topK, filters, signal }: SearchMethodOptions
+): Promise<HybridSearchResponse> {
+  const response = await ragQuery({ query, topK, strategy, signal })
+  if (!filters) {
+    return response
+  }
+  const results = (response.results ?? []).filter((r) => matchesFilters(r.metadata, filters))
+  return { ...response, results, total: results.length }
+}
+
+/**
+ * Run one search method against the RAG API. Every backend answers with the
+ * same result list shape; ragQuery's generated answer is not used.
+ */
+export function runSearchMethod(
+  method: SearchMethod,
+  options: SearchMethodOptions
+): Promise<HybridSearchResponse> {
+  const { query, topK, filters, signal } = options
+  switch (method) {
+    case 'hybrid':
+    case 'hybrid_rrf': {
+      // Explanations lean more on the wording of the passages
+      const analytical = options.queryType === 'analytical'
+      return hybridSearch({
+        query,
+        topK,
+        vectorWeight: analytical ? 0.6 : 0.7,
+        textWeight: analytical ? 0.4 : 0.3,
+        fusionMethod: method === 'hybrid_rrf' ? 'rrf' : 'weighted_sum',
+        filters,
+        signal,
+      })
+    }
+    case 'semantic':
+      return semanticTextSearch({ query, topK, filters, signal })
+    case 'text':
+      return textSearch({ query, topK, filters, signal })
+    case 'rag_fast':
+      return filteredRagQuery('fast', options)
+    case 'rag_balanced':
+      return filteredRagQuery('balanced', options)
+    case 'rag_thorough':
+      return filteredRagQuery('thorough', options)
+  }
+}
@@ -1,27 +1,53 @@
 // src/agents/retriever/tools.ts
 import { tool } from 'ai'
 import { z } from 'zod'
+import { config } from '@/core/config'
+import type { MetadataFilters } from '@/core/filters'
 import { hybridSearch, semanticTextSearch } from '@/core/tools'
 
-export const retrieverTools = [
-  tool({
+/**
+ * Passed to the tools as `experimental_context` by their caller rather than
+ * chosen by the model.
+ */
+export interface RetrieverToolContext {
+  filters?: MetadataFilters
+}
+
+function filtersOf(context: unknown): MetadataFilters | undefined {
+  return (context as RetrieverToolContext | undefined)?.filters
+}
+
+/**
+ * Input of both search tools; topK is bounded like the workflow policy's.
+ */
+export const searchInputSchema = z.object({
+  query: z.string().describe('The search query'),
+  topK: z.number().int().min(1).max(config.workflow.limits.topK).optional().describe('Number of results'),
+})
+
+export const retrieverTools = {
+  hybrid_search: tool({
     description: 'Search for documents using hybrid search (vector + text)',
-    inputSchema: z.object({
-      query: z.string().describe('The search query'),
-      topK: z.number().optional().describe('Number of results'),
-    }),
-    execute: async ({ query, topK }) => {
-      return hybridSearch({ query, topK: topK ?? 5 })
+    inputSchema: searchInputSchema,
+    execute: async ({ query, topK }, { abortSignal, experimental_context }) => {
+      return hybridSearch({
+        query,
+        topK: topK ?? 5,
+        filters: filtersOf(experimental_context),
+        signal: abortSignal,
+      })
     },
   }),
-  tool({
+  semantic_search: tool({
     description: 'Search for documents using semantic similarity',
-    inputSchema: z.object({
-      query: z.string().describe('The search query'),
-      topK: z.number().optional().describe('Number of results'),
-    }),
-    execute: async ({ query, topK }) => {
-      return semanticTextSearch({ query, topK: topK ?? 5 })
+    inputSchema: searchInputSchema,
+    execute: async ({ query, topK }, { abortSignal, experimental_context }) => {
+      return semanticTextSearch({
+        query,
+        topK: topK ?? 5,
+        filters: filtersOf(experimental_context),
+        signal: abortSignal,
+      })
     },
   }),
-]
+}
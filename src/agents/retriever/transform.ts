@@ -0,0 +1,203 @@
+// src/agents/retriever/transform.ts
+import { generateText } from 'ai'
+import { tokenize } from '@/agents/reranker'
+import type { QueryTransformName, SearchMethod } from '@/core/config'
+import { getLLM, recordTokenUsage } from '@/core/llm'
+import type { TransformedQueries } from '@/core/state'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import { HYDE_SYSTEM_PROMPT, MULTI_QUERY_SYSTEM_PROMPT } from './prompts'
+
+interface TransformContext {
+  model: string
+  /** Alternative phrasings the multi_query transform asks for */
+  variants: number
+  signal?: AbortSignal
+}
+
+/**
+ * One way of rewriting the query before retrieval. Each transform fills in
+ * its own field of TransformedQueries, or leaves it out when it has nothing
+ * to add.
+ */
+export interface QueryTransform {
+  name: QueryTransformName
+  apply(query: string, context: TransformContext): Promise<Partial<TransformedQueries>>
+}
+
+/**
+ * Words too common to be worth a full-text match.
+ */
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'between', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'give', 'has', 'have', 'how', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'should', 'so', 'some', 'tell',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to',
+  'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will',
+  'with', 'would', 'you', 'your',
+])
+
+/**
+ * The query's distinct terms without stopwords, in query order.
+ */
+export function extractKeywords(query: string): string {
+  return [...new Set(tokenize(query).filter((term) => !STOPWORDS.has(term)))].join(' ')
+}
+
+const keywordsTransform: QueryTransform = {
+  name: 'keywords',
+  async apply(query) {
+    const keywords = extractKeywords(query)
+    return keywords ? { keywords } : {}
+  },
+}
+
+const hydeTransform: QueryTransform = {
+  name: 'hyde',
+  apply(query, { model, signal }) {
+    return createSpan('hyde_llm_call', {
+      [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+      'llm.model_name': model,
+      'input.value': query.substring(0, 500),
+    }, async (span) => {
+      const { text, usage } = await generateText({
+        model: getLLM(model),
+        system: HYDE_SYSTEM_PROMPT,
+        prompt: `Query: ${query}\n\nPassage:`,
+        abortSignal: signal,
+        temperature: 1.0,
+        providerOptions: {
+          openai: {
+            reasoningEffort: 'low',
+          },
+        },
+      })
+
+      recordTokenUsage(usage)
+      span?.setAttributes({
+        'llm.token_count.total': usage?.totalTokens ?? 0,
+        'output.value': text.substring(0, 500),
+      })
+
+      const hypotheticalAnswer = text.trim()
+      return hypotheticalAnswer ? { hypotheticalAnswer } : {}
+    })
+  },
+}
+
+const multiQueryTransform: QueryTransform = {
+  name: 'multi_query',
+  apply(query, { model, variants, signal }) {
+    return createSpan('multi_query_llm_call', {
+      [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'llm',
+      'llm.model_name': model,
+      'input.value': query.substring(0, 500),
+    }, async (span) => {
+      const { text, usage } = await generateText({
+        model: getLLM(model),
+        system: MULTI_QUERY_SYSTEM_PROMPT,
+        prompt: `Write ${variants} alternative search queries for: "${query}"`,
+        abortSignal: signal,
+        temperature: 1.0,
+        providerOptions: {
+          openai: {
+            reasoningEffort: 'low',
+          },
+        },
+      })
+
+      recordTokenUsage(usage)
+      span?.setAttributes({
+        'llm.token_count.total': usage?.totalTokens ?? 0,
+        'output.value': text.substring(0, 500),
+      })
+
+      try {
+        const result = JSON.parse(text) as { queries?: unknown[] }
+        const original = query.trim().toLowerCase()
+        const queries = [
+          ...new Set(
+            (result.queries ?? [])
+              .filter((q): q is string => typeof q === 'string')
+              .map((q) => q.trim())
+              .filter((q) => q.length > 0 && q.toLowerCase() !== original)
+          ),
+        ].slice(0, variants)
+        return queries.length > 0 ? { variants: queries } : {}
+      } catch {
+        // Without variants the original query is still searched
+        return {}
+      }
+    })
+  },
+}
+
+const QUERY_TRANSFORMS: Record<QueryTransformName, QueryTransform> = {
+  keywords: keywordsTransform,
+  hyde: hydeTransform,
+  multi_query: multiQueryTransform,
+}
+
+export function getQueryTransform(name: QueryTransformName): QueryTransform {
+  return QUERY_TRANSFORMS[name]
+}
+
+interface TransformOptions extends TransformContext {
+  transforms: QueryTransformName[]
+}
+
+/**
+ * Run the given transforms on the query side by side. A transform that fails
+ * is left out, since the original query is searched regardless.
+ */
+export async function transformQuery(
+  query: string,
+  options: TransformOptions
+): Promise<TransformedQueries> {
+  const { transforms, ...context } = options
+  if (transforms.length === 0) {
+    return {}
+  }
+
+  return createSpan('transform_query', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'input.value': query.substring(0, 500),
+    'query.transforms': transforms.join('+'),
+  }, async (span) => {
+    const results = await Promise.all(
+      transforms.map(async (name) => {
+        try {
+          return await getQueryTransform(name).apply(query, context)
+        } catch (error) {
+          if (context.signal?.aborted) {
+            throw error
+          }
+          return {}
+        }
+      })
+    )
+    const transformed: TransformedQueries = Object.assign({}, ...results)
+
+    span?.setAttributes({
+      'output.value': JSON.stringify(transformed).substring(0, 500),
+    })
+    return transformed
+  })
+}
+
+/**
+ * The searches the transformed queries add to a retrieval: keywords go to
+ * full-text search, the hypothetical answer to vector search, and each
+ * variant through the same methods as the original query.
+ */
+export function transformedSearches(
+  transformed: TransformedQueries,
+  strategy: SearchMethod[]
+): Array<{ query: string; method: SearchMethod }> {
+  return [
+    ...(transformed.keywords ? [{ query: transformed.keywords, method: 'text' as const }] : []),
+    ...(transformed.hypotheticalAnswer
+      ? [{ query: transformed.hypotheticalAnswer, method: 'semantic' as const }]
+      : []),
+    ...(transformed.variants ?? []).flatMap((query) => strategy.map((method) => ({ query, method }))),
+  ]
+}
@@ -1,53 +1,331 @@
 // src/agents/supervisor/graph.ts
-import { StateGraph, END, START } from '@langchain/langgraph'
-import { AgentStateAnnotation, type AgentStateValues } from '@/core/state'
+import {
+  StateGraph,
+  END,
+  START,
+  interrupt,
+  type BaseCheckpointSaver,
+  type LangGraphRunnableConfig,
+} from '@langchain/langgraph'
+import {
+  AgentStateAnnotation,
+  type AgentError,
+  type AgentName,
+  type AgentStateValues,
+  type Clarification,
+  type CritiqueScores,
+  type QueryType,
+  type RetrievalToolCall,
+  type RetrievedChunk,
+  type TransformedQueries,
+} from '@/core/state'
 import { createSpan, createSessionSpan, SemanticConventions } from '@/core/telemetry'
 import { classifyQuery } from '@/agents/classifier'
-import { retrieveDocuments } from '@/agents/retriever'
+import { extractFilters } from '@/agents/extractor'
+import {
+  retrieveDocuments,
+  retrieveAgentically,
+  reformulateQuery,
+  identifyComparedEntities,
+  mergeChunks,
+  averageScore,
+  packChunks,
+  transformQuery,
+} from '@/agents/retriever'
+import { getReranker } from '@/agents/reranker'
+import { createMultiHopGraph } from '@/agents/decomposer/graph'
+import { requestClarification } from '@/agents/clarifier'
+import { contextualizeQuery } from '@/agents/contextualizer'
+import { formatConversationContext } from '@/core/conversation'
+import { config as appConfig, type SearchMethod } from '@/core/config'
+import { mergeFilters } from '@/core/filters'
+import { resolveWorkflowPolicy, type WorkflowPolicy } from '@/core/policy'
 import { generateAnswer } from '@/agents/generator'
 import { critiqueAnswer } from '@/agents/critic'
 
-const MAX_ITERATIONS = 2
+const multiHopGraph = createMultiHopGraph()
 
-async function classifierNode(state: AgentStateValues): Promise<Partial<AgentStateValues>> {
+/**
+ * Node each query type is routed to after classification.
+ * Query types not listed take the single-pass retriever path.
+ */
+const QUERY_ROUTES: Partial<Record<QueryType, string>> = {
+  multi_hop: 'decomposer',
+  comparative: 'comparative_retriever',
+  vague: 'clarifier',
+}
+
+/**
+ * Events nodes emit on the `custom` stream mode while the answer is being written.
+ * Token deltas are only produced when the run is started with
+ * `configurable.streamTokens` set; otherwise the generator makes a single call.
+ */
+export type AnswerStreamEvent =
+  | { type: 'answer_delta'; iteration: number; delta: string }
+  | {
+      type: 'critique'
+      iteration: number
+      qualityScore: number
+      scores: CritiqueScores
+      refinementReason?: string
+      /** The draft streamed for `iteration` failed review and will be replaced */
+      discardDraft: boolean
+    }
+
+function emit(config: LangGraphRunnableConfig | undefined, event: AnswerStreamEvent): void {
+  config?.writer?.(event)
+}
+
+/**
+ * Cancellation ends the run; it is not recorded as an agent error.
+ */
+function rethrowIfAborted(config: LangGraphRunnableConfig | undefined, error: unknown): void {
+  if (config?.signal?.aborted) {
+    throw error
+  }
+}
+
+function appendError(
+  state: AgentStateValues,
+  agent: AgentName,
+  error: unknown,
+  fallback: string
+): AgentError[] {
+  return [
+    ...state.errors,
+    {
+      agent,
+      message: error instanceof Error ? error.message : fallback,
+      timestamp: new Date().toISOString(),
+    },
+  ]
+}
+
+function routeAtStart(state: AgentStateValues): string {
+  return state.context?.previousQueries?.length ? 'contextualizer' : 'classifier'
+}
+
+function routeByQueryType(state: AgentStateValues): string {
+  // A query the user has already clarified is never sent back for clarification
+  if (state.queryType === 'vague' && state.clarification?.answer) {
+    return 'retriever'
+  }
+  return (state.queryType && QUERY_ROUTES[state.queryType]) ?? 'retriever'
+}
+
+/**
+ * Queries headed for clarification skip filter extraction; the clarified
+ * query is classified again and has its filters extracted then.
+ */
+function routeAfterClassifier(state: AgentStateValues): string {
+  return routeByQueryType(state) === 'clarifier' ? 'clarifier' : 'extractor'
+}
+
+/**
+ * Policy in effect for this run. Graphs invoked without one use the configured defaults.
+ */
+function policyOf(state: AgentStateValues): WorkflowPolicy {
+  return state.policy ?? resolveWorkflowPolicy(state.queryType, state.policyOptions)
+}
+
+/**
+ * How the policy has every search of a run fetch and rank its results, within
+ * the run's metadata filters.
+ */
+function searchOptions(state: AgentStateValues, signal?: AbortSignal) {
+  const policy = policyOf(state)
+  return {
+    strategy: policy.retrievalStrategy,
+    reranker: getReranker(policy.reranker, policy.models.utility),
+    rerankCandidates: policy.rerankCandidates,
+    selection: policy.selection,
+    expansion: policy.expansion,
+    filters: state.filters,
+    signal,
+  }
+}
+
+function canRetrieveAgain(state: AgentStateValues): boolean {
+  return (state.retrievalPasses ?? 0) < policyOf(state).maxRetrievalPasses
+}
+
+function routeAfterRetrieval(state: AgentStateValues): string {
+  if ((state.retrievalScore ?? 0) < policyOf(state).minRetrievalScore && canRetrieveAgain(state)) {
+    return 're_retriever'
+  }
+  return 'generator'
+}
+
+/**
+ * Whether the critic judged the answer short on evidence rather than badly written.
+ */
+function needsMoreEvidence(state: AgentStateValues): boolean {
+  const scores = state.critiqueScores
+  if (!scores) {
+    return false
+  }
+  const threshold = policyOf(state).minEvidenceScore
+  return scores.completeness < threshold || scores.sourceUsage < threshold
+}
+
+async function contextualizerNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  return createSpan('contextualizer_node', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'input.value': state.query.substring(0, 500),
+  }, async (span) => {
+    const result = await contextualizeQuery(
+      state.query,
+      state.context,
+      policyOf(state).models.utility,
+      config?.signal
+    )
+    span?.setAttributes({
+      'output.value': result.standaloneQuery.substring(0, 500),
+      'workflow.status': 'completed',
+    })
+    if (!result.rewritten) {
+      return { currentAgent: 'contextualizer' }
+    }
+    return {
+      query: result.standaloneQuery,
+      originalQuery: state.query,
+      currentAgent: 'contextualizer',
+    }
+  })
+}
+
+async function classifierNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
   return createSpan('classifier_node', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
     'workflow.status': 'in_progress',
   }, async (span) => {
-    const result = await classifyQuery(state.query)
+    const result = await classifyQuery(state.query, policyOf(state).models.classifier, config?.signal)
     span?.setAttributes({
       'query.type': result.queryType,
+      'workflow.route': QUERY_ROUTES[result.queryType] ?? 'retriever',
       'workflow.status': 'completed',
     })
     return {
       queryType: result.queryType,
       classificationConfidence: result.confidence,
+      policy: resolveWorkflowPolicy(result.queryType, state.policyOptions),
       currentAgent: 'classifier',
     }
   })
 }
 
-async function retrieverNode(state: AgentStateValues): Promise<Partial<AgentStateValues>> {
-  return createSpan('retriever_node', {
+/**
+ * Add the filters the query states to the request's own, which win on the
+ * same field. Extraction is optional: if it fails, the request's filters
+ * still apply.
+ */
+async function extractorNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  return createSpan('extractor_node', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
     'workflow.status': 'in_progress',
   }, async (span) => {
     try {
-      const result = await retrieveDocuments({
-        query: state.query,
-        queryType: state.queryType,
-        topK: 5,
+      const extracted = await extractFilters(state.query, policyOf(state).models.utility, config?.signal)
+      const filters = mergeFilters(extracted, state.filters)
+      span?.setAttributes({
+        ...(filters && { 'retrieval.filters': JSON.stringify(filters) }),
+        'workflow.status': 'completed',
       })
+      return { filters, currentAgent: 'extractor' }
+    } catch (error) {
+      rethrowIfAborted(config, error)
+      span?.setAttributes({
+        'workflow.status': 'failed',
+      })
+      return {
+        currentAgent: 'extractor',
+        errors: appendError(state, 'extractor', error, 'Filter extraction failed'),
+      }
+    }
+  })
+}
+
+/**
+ * Initial retrieval in the policy's mode. In single mode the policy's query
+ * transforms are searched alongside the query and returned. In agentic mode
+ * the searches the model made are returned too; if none found anything, the
+ * policy's retrieval strategy stands in so generation still has evidence.
+ */
+async function retrieve(
+  state: AgentStateValues,
+  signal?: AbortSignal
+): Promise<{
+  chunks: RetrievedChunk[]
+  score: number
+  toolCalls?: RetrievalToolCall[]
+  strategy?: SearchMethod[]
+  transformed?: TransformedQueries
+}> {
+  const policy = policyOf(state)
+  const options = { query: state.query, queryType: state.queryType, topK: policy.topK, signal }
+  const search = { ...options, ...searchOptions(state, signal) }
+  if (policy.retrievalMode !== 'agentic') {
+    if (policy.queryTransforms.length === 0) {
+      return retrieveDocuments(search)
+    }
+    const transformed = await transformQuery(state.query, {
+      transforms: policy.queryTransforms,
+      variants: policy.queryVariants,
+      model: policy.models.utility,
+      signal,
+    })
+    return { ...(await retrieveDocuments({ ...search, transformed })), transformed }
+  }
+
+  const result = await retrieveAgentically({
+    ...options,
+    maxSteps: policy.maxRetrievalSteps,
+    model: policy.models.utility,
+    filters: state.filters,
+  })
+  if (result.chunks.length > 0) {
+    return result
+  }
+  return { ...(await retrieveDocuments(search)), toolCalls: result.toolCalls }
+}
+
+async function retrieverNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  return createSpan('retriever_node', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'workflow.route': policyOf(state).retrievalMode === 'agentic' ? 'agentic_retriever' : 'retriever',
+  }, async (span) => {
+    try {
+      const result = await retrieve(state, config?.signal)
       span?.setAttributes({
         'retrieval.score': result.score,
+        ...(result.strategy && { 'retrieval.strategy': result.strategy.join('+') }),
+        ...(result.transformed && { 'query.transforms': policyOf(state).queryTransforms.join('+') }),
         'workflow.status': 'completed',
       })
       return {
         retrievedChunks: result.chunks,
         retrievalScore: result.score,
+        retrievalToolCalls: result.toolCalls,
+        retrievalStrategy: result.strategy,
+        transformedQueries: result.transformed,
         currentAgent: 'retriever',
       }
     } catch (error) {
+      rethrowIfAborted(config, error)
       span?.setAttributes({
         'workflow.status': 'failed',
       })
@@ -55,41 +333,294 @@ async function retrieverNode(state: AgentStateValues): Promise<Partial<AgentStat
         retrievedChunks: [],
         retrievalScore: 0,
         currentAgent: 'retriever',
-        errors: [
-          ...state.errors,
-          {
-            agent: 'retriever' as const,
-            message: error instanceof Error ? error.message : 'Retrieval failed',
-            timestamp: new Date().toISOString(),
-          },
-        ],
+        errors: appendError(state, 'retriever', error, 'Retrieval failed'),
       }
     }
   })
 }
 
-async function generatorNode(state: AgentStateValues): Promise<Partial<AgentStateValues>> {
+async function decomposerNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  return createSpan('decomposer_node', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'workflow.route': 'decomposer',
+  }, async (span) => {
+    try {
+      const policy = policyOf(state)
+      const result = await multiHopGraph.invoke({
+        query: state.query,
+        queryType: state.queryType,
+        topK: policy.topK,
+        strategy: policy.retrievalStrategy,
+        reranker: policy.reranker,
+        rerankCandidates: policy.rerankCandidates,
+        selection: policy.selection,
+        expansion: policy.expansion,
+        filters: state.filters,
+        model: policy.models.utility,
+      }, { signal: config?.signal })
+      const score = averageScore(result.chunks)
+      span?.setAttributes({
+        'retrieval.score': score,
+        'retrieval.strategy': policy.retrievalStrategy.join('+'),
+        'tool.result_count': result.chunks.length,
+        'iteration.count': result.trail.length,
+        'workflow.status': 'completed',
+      })
+      return {
+        subQuestions: result.trail,
+        retrievedChunks: result.chunks,
+        retrievalScore: score,
+        retrievalStrategy: policy.retrievalStrategy,
+        currentAgent: 'decomposer',
+      }
+    } catch (error) {
+      rethrowIfAborted(config, error)
+      span?.setAttributes({
+        'workflow.status': 'failed',
+      })
+      return {
+        retrievedChunks: [],
+        retrievalScore: 0,
+        currentAgent: 'decomposer',
+        errors: appendError(state, 'decomposer', error, 'Multi-hop retrieval failed'),
+      }
+    }
+  })
+}
+
+/**
+ * Retrieve evidence for each compared entity separately, with the same topK
+ * each, so one entity can't crowd out the others. The lists are interleaved
+ * and every chunk is tagged with the entity it was found for.
+ */
+async function comparativeRetrieverNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  return createSpan('comparative_retriever_node', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'workflow.route': 'comparative_retriever',
+  }, async (span) => {
+    const policy = policyOf(state)
+    try {
+      const entities = await identifyComparedEntities(
+        state.query,
+        policy.models.utility,
+        config?.signal
+      )
+      // Fall back to a single combined search when the entities can't be split out
+      const queries = entities.length > 0 ? entities : [state.query]
+      const results = await Promise.all(
+        queries.map((query) =>
+          retrieveDocuments({
+            query,
+            queryType: state.queryType,
+            topK: policy.topK,
+            ...searchOptions(state, config?.signal),
+          })
+        )
+      )
+      const chunks = mergeChunks(
+        results.map((result, i) =>
+          entities.length > 0
+            ? result.chunks.map((chunk) => ({ ...chunk, entity: entities[i] }))
+            : result.chunks
+        )
+      )
+      const score = averageScore(chunks)
+      span?.setAttributes({
+        'retrieval.score': score,
+        'retrieval.strategy': policy.retrievalStrategy.join('+'),
+        ...(entities.length > 0 && { 'comparison.entities': entities.join('|') }),
+        'tool.result_count': chunks.length,
+        'workflow.status': 'completed',
+      })
+      return {
+        retrievedChunks: chunks,
+        retrievalScore: score,
+        retrievalStrategy: policy.retrievalStrategy,
+        ...(entities.length > 0 && { comparedEntities: entities }),
+        currentAgent: 'retriever',
+      }
+    } catch (error) {
+      rethrowIfAborted(config, error)
+      span?.setAttributes({
+        'workflow.status': 'failed',
+      })
+      return {
+        retrievedChunks: [],
+        retrievalScore: 0,
+        currentAgent: 'retriever',
+        errors: appendError(state, 'retriever', error, 'Retrieval failed'),
+      }
+    }
+  })
+}
+
+/**
+ * Search again for evidence the earlier passes missed: a reformulated query
+ * and a wider topK, within the policy's limit, skipping chunks already retrieved.
+ */
+async function reRetrieverNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  const pass = (state.retrievalPasses ?? 0) + 1
+  return createSpan('re_retriever_node', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'workflow.route': 're_retriever',
+    'retrieval.pass': pass,
+  }, async (span) => {
+    const existing = state.retrievedChunks ?? []
+    const policy = policyOf(state)
+    try {
+      const query = await reformulateQuery(
+        state.query,
+        state.refinementReason,
+        policy.models.utility,
+        config?.signal
+      )
+      const result = await retrieveDocuments({
+        query,
+        queryType: state.queryType,
+        // Reach one topK further down the ranking each pass
+        topK: Math.min(policy.topK * (pass + 1), appConfig.workflow.limits.topK),
+        // Neighbours merged into earlier passages count as found too
+        excludeChunkIds: existing.flatMap((chunk) => [chunk.chunkId, ...(chunk.expandedChunkIds ?? [])]),
+        ...searchOptions(state, config?.signal),
+      })
+      const chunks = [...existing, ...result.chunks]
+      // The pass is judged on its new chunks alone, from the same searches as
+      // the score that sent the graph here, so the threshold means the same
+      const score = result.score
+      span?.setAttributes({
+        'input.value': query.substring(0, 500),
+        'retrieval.score': score,
+        'retrieval.strategy': result.strategy.join('+'),
+        'tool.result_count': result.chunks.length,
+        'workflow.status': 'completed',
+      })
+      return {
+        retrievedChunks: chunks,
+        retrievalScore: score,
+        retrievalPasses: pass,
+        retrievalStrategy: result.strategy,
+        currentAgent: 'retriever',
+      }
+    } catch (error) {
+      rethrowIfAborted(config, error)
+      span?.setAttributes({
+        'workflow.status': 'failed',
+      })
+      return {
+        retrievalPasses: pass,
+        currentAgent: 'retriever',
+        errors: appendError(state, 'retriever', error, 'Re-retrieval failed'),
+      }
+    }
+  })
+}
+
+async function clarifierNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
+  return createSpan('clarifier_node', {
+    [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+    'workflow.status': 'in_progress',
+    'workflow.route': 'clarifier',
+  }, async (span) => {
+    const clarification = await requestClarification(
+      state.query,
+      policyOf(state).models.utility,
+      config?.signal
+    )
+    span?.setAttributes({
+      'output.value': clarification.question.substring(0, 500),
+      'workflow.status': 'completed',
+    })
+    return {
+      clarification,
+      finalAnswer: clarification.question,
+      currentAgent: 'clarifier',
+    }
+  })
+}
+
+/**
+ * Pause the run until the client answers the clarification question.
+ * Kept separate from clarifierNode so resuming doesn't repeat the LLM call.
+ */
+function awaitClarificationNode(state: AgentStateValues): Partial<AgentStateValues> {
+  const clarification = state.clarification as Clarification
+  const answer = interrupt<Clarification, string>(clarification)
+  return {
+    query: `${state.query} (${answer})`,
+    clarification: { ...clarification, answer },
+    currentAgent: 'clarifier',
+  }
+}
+
+async function generatorNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
   return createSpan('generator_node', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
     'workflow.status': 'in_progress',
     'iteration.count': state.iterations,
   }, async (span) => {
+    // Refinement passes revise the previous draft instead of starting over
+    const refinement = state.iterations > 0 && state.draftAnswer
+      ? {
+          previousDraft: state.draftAnswer,
+          refinementReason: state.refinementReason,
+          scores: state.critiqueScores,
+        }
+      : undefined
+    // Chunks that don't fit the context budget are dropped from state too, so
+    // the sources returned line up with the passages the answer cites
+    const retrieved = state.retrievedChunks ?? []
+    const selection = policyOf(state).selection
+    const chunks = selection ? packChunks(retrieved, selection.contextTokenBudget) : retrieved
     const result = await generateAnswer({
       query: state.query,
-      chunks: state.retrievedChunks ?? [],
+      chunks,
+      subQuestions: state.subQuestions,
+      comparedEntities: state.comparedEntities,
+      conversationContext: formatConversationContext(state.context),
+      refinement,
+      model: policyOf(state).models.generator,
+      signal: config?.signal,
+      onToken: config?.configurable?.streamTokens
+        ? (delta) => emit(config, { type: 'answer_delta', iteration: state.iterations + 1, delta })
+        : undefined,
     })
     span?.setAttributes({
+      'generation.is_refinement': refinement !== undefined,
+      'selection.packed_out_count': retrieved.length - chunks.length,
       'workflow.status': 'completed',
     })
     return {
+      ...(chunks !== retrieved && { retrievedChunks: chunks }),
       draftAnswer: result.answer,
       finalAnswer: result.answer,
+      ...(state.comparedEntities && { comparisonTable: result.comparison }),
       currentAgent: 'generator',
     }
   })
 }
 
-async function criticNode(state: AgentStateValues): Promise<Partial<AgentStateValues>> {
+async function criticNode(
+  state: AgentStateValues,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<AgentStateValues>> {
   return createSpan('critic_node', {
     [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
     'workflow.status': 'in_progress',
@@ -99,45 +630,116 @@ async function criticNode(state: AgentStateValues): Promise<Partial<AgentStateVa
       query: state.query,
       answer: state.draftAnswer ?? '',
       sources: state.retrievedChunks ?? [],
+      model: policyOf(state).models.critic,
+      signal: config?.signal,
     })
     span?.setAttributes({
       'quality.score': result.qualityScore,
       'workflow.status': 'completed',
     })
-    return {
+    const update: Partial<AgentStateValues> = {
       qualityScore: result.qualityScore,
       needsRefinement: result.needsRefinement,
       refinementReason: result.refinementReason,
+      critiqueScores: result.scores,
+      draftHistory: [
+        ...(state.draftHistory ?? []),
+        {
+          iteration: state.iterations + 1,
+          draft: state.draftAnswer ?? '',
+          qualityScore: result.qualityScore,
+          scores: result.scores,
+          refinementReason: result.refinementReason,
+        },
+      ],
       currentAgent: 'critic',
       iterations: state.iterations + 1,
     }
+    // Tell streaming clients as soon as the draft they saw is going to be rewritten
+    emit(config, {
+      type: 'critique',
+      iteration: state.iterations + 1,
+      qualityScore: result.qualityScore,
+      scores: result.scores,
+      refinementReason: result.refinementReason,
+      discardDraft: routeAfterCritic({ ...state, ...update }) !== END,
+    })
+    return update
   })
 }
 
 function routeAfterCritic(state: AgentStateValues): string {
-  if (state.qualityScore && state.qualityScore >= 0.7) {
+  const policy = policyOf(state)
+  if ((state.qualityScore ?? 0) >= policy.qualityThreshold) {
     return END
   }
-  if (state.iterations >= MAX_ITERATIONS) {
+  if (state.iterations >= policy.maxIterations) {
     return END
   }
+  if (needsMoreEvidence(state) && canRetrieveAgain(state)) {
+    return 're_retriever'
+  }
   return 'generator'
 }
 
-export function createAgentGraph() {
+interface AgentGraphOptions {
+  /**
+   * Enables pausing for clarification on vague queries. Without one, vague
+   * queries end the run with the clarification question as the answer.
+   */
+  checkpointer?: BaseCheckpointSaver
+}
+
+export function createAgentGraph(options: AgentGraphOptions = {}) {
   const workflow = new StateGraph(AgentStateAnnotation)
+    .addNode('contextualizer', contextualizerNode)
     .addNode('classifier', classifierNode)
+    .addNode('extractor', extractorNode)
     .addNode('retriever', retrieverNode)
+    .addNode('decomposer', decomposerNode)
+    .addNode('comparative_retriever', comparativeRetrieverNode)
+    .addNode('re_retriever', reRetrieverNode)
+    .addNode('clarifier', clarifierNode)
     .addNode('generator', generatorNode)
     .addNode('critic', criticNode)
-    .addEdge(START, 'classifier')
-    .addEdge('classifier', 'retriever')
-    .addEdge('retriever', 'generator')
+    .addConditionalEdges(START, routeAtStart, {
+      contextualizer: 'contextualizer',
+      classifier: 'classifier',
+    })
+    .addEdge('contextualizer', 'classifier')
+    .addConditionalEdges('classifier', routeAfterClassifier, {
+      extractor: 'extractor',
+      clarifier: 'clarifier',
+    })
+    .addConditionalEdges('extractor', routeByQueryType, {
+      retriever: 'retriever',
+      decomposer: 'decomposer',
+      comparative_retriever: 'comparative_retriever',
+    })
+
+  for (const node of ['retriever', 'decomposer', 'comparative_retriever', 're_retriever'] as const) {
+    workflow.addConditionalEdges(node, routeAfterRetrieval, {
+      re_retriever: 're_retriever',
+      generator: 'generator',
+    })
+  }
+
+  workflow
     .addEdge('generator', 'critic')
     .addConditionalEdges('critic', routeAfterCritic, {
       [END]: END,
+      re_retriever: 're_retriever',
       generator: 'generator',
     })
 
-  return workflow.compile()
+  if (options.checkpointer) {
+    workflow
+      .addNode('await_clarification', awaitClarificationNode)
+      .addEdge('clarifier', 'await_clarification')
+      .addEdge('await_clarification', 'classifier')
+  } else {
+    workflow.addEdge('clarifier', END)
+  }
+
+  return workflow.compile({ checkpointer: options.checkpointer })
 }
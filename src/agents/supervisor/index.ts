@@ -1,3 +1,3 @@
 // src/agents/supervisor/index.ts
-export { createAgentGraph } from './graph'
+export { createAgentGraph, type AnswerStreamEvent } from './graph'
 export { SUPERVISOR_SYSTEM_PROMPT } from './prompts'
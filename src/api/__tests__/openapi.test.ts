@@ -28,6 +28,50 @@ describe('OpenAPI Registry', () => {
     expect(document.paths?.['/api/v1/chat/stream']?.post).toBeDefined()
   })
 
+  test('registry publishes the stream event protocol', () => {
+    const document = generateOpenApiDocument()
+    const schemas = document.components?.schemas ?? {}
+    for (const name of ['RunStartedEvent', 'NodeStartedEvent', 'NodeCompletedEvent', 'SourcesEvent', 'AnswerDeltaEvent', 'CritiqueEvent', 'ErrorEvent', 'DoneEvent', 'HeartbeatEvent', 'StreamEvent']) {
+      expect(schemas[name]).toBeDefined()
+    }
+    const response = document.paths?.['/api/v1/chat/stream']?.post?.responses?.['200']
+    expect(response?.content?.['text/event-stream']?.schema).toEqual({ $ref: '#/components/schemas/StreamEvent' })
+  })
+
+  test('registry has run events endpoint for resuming streams', () => {
+    const document = generateOpenApiDocument()
+    expect(document.paths?.['/api/v1/runs/{id}/events']?.get).toBeDefined()
+  })
+
+  test('registry has run cancel endpoint', () => {
+    const document = generateOpenApiDocument()
+    expect(document.paths?.['/api/v1/runs/{id}/cancel']?.post).toBeDefined()
+    expect(document.components?.schemas?.CancelledResponse).toBeDefined()
+  })
+
+  test('registry has job endpoints', () => {
+    const document = generateOpenApiDocument()
+    expect(document.paths?.['/api/v1/jobs']?.post).toBeDefined()
+    expect(document.paths?.['/api/v1/jobs/{id}']?.get).toBeDefined()
+    expect(document.components?.schemas?.JobRequest).toBeDefined()
+    expect(document.components?.schemas?.Job).toBeDefined()
+  })
+
+  test('registry has batch endpoint', () => {
+    const document = generateOpenApiDocument()
+    expect(document.paths?.['/api/v1/chat/batch']?.post).toBeDefined()
+    expect(document.components?.schemas?.BatchItemResult).toBeDefined()
+    expect(document.components?.schemas?.BatchSummary).toBeDefined()
+  })
+
+  test('registry has OpenAI-compatible completions endpoint', () => {
+    const document = generateOpenApiDocument()
+    expect(document.paths?.['/v1/chat/completions']?.post).toBeDefined()
+    expect(document.components?.schemas?.ChatCompletion).toBeDefined()
+    expect(document.components?.schemas?.ChatCompletionChunk).toBeDefined()
+    expect(document.components?.securitySchemes?.BearerAuth).toEqual({ type: 'http', scheme: 'bearer' })
+  })
+
   test('registry has ApiKeyAuth security scheme', () => {
     const document = generateOpenApiDocument()
     expect(document.components?.securitySchemes?.ApiKeyAuth).toEqual({
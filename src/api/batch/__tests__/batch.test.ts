@@ -0,0 +1,107 @@
+// src/api/batch/__tests__/batch.test.ts
+import { describe, test, expect } from 'bun:test'
+import { recordTokenUsage } from '@/core/llm'
+import type { ChatRequestBody, ChatResult } from '../../runner'
+import { runBatch, validateBatchRequest, type BatchItemLine, type BatchLine } from '../index'
+
+const items = (...ids: string[]) => ids.map((id) => ({ id, query: `Query ${id}` }))
+
+async function collect(
+  body: Parameters<typeof runBatch>[0],
+  execute: (request: ChatRequestBody) => Promise<ChatResult>,
+  concurrency = 2
+): Promise<BatchLine[]> {
+  const lines: BatchLine[] = []
+  await runBatch(body, async (line) => {
+    lines.push(line)
+  }, { concurrency, execute })
+  return lines
+}
+
+describe('validateBatchRequest', () => {
+  test('accepts items with unique ids', () => {
+    expect(validateBatchRequest({ items: items('a', 'b') })).toBeUndefined()
+  })
+
+  test('rejects an empty or missing item list', () => {
+    expect(validateBatchRequest({ items: [] })).toBe('items must be a non-empty array')
+    expect(validateBatchRequest({})).toBe('items must be a non-empty array')
+  })
+
+  test('rejects missing and duplicate ids', () => {
+    expect(validateBatchRequest({ items: [{ query: 'x' }] })).toBe('items[0].id must be a non-empty string')
+    expect(validateBatchRequest({ items: items('a', 'a') })).toBe('Duplicate item id: a')
+  })
+
+  test('rejects invalid shared options', () => {
+    expect(validateBatchRequest({ items: items('a'), options: { topK: 0 } })).toBeDefined()
+  })
+})
+
+describe('runBatch', () => {
+  test('reports every item then a summary with totals', async () => {
+    const lines = await collect({ items: items('a', 'b', 'c') }, async () => {
+      recordTokenUsage({ inputTokens: 10, outputTokens: 5, totalTokens: 15 })
+      return { status: 'completed', conversationId: 'conv-1', answer: 'Answer' }
+    })
+
+    expect(lines).toHaveLength(4)
+    expect(lines.slice(0, 3).map((line) => (line as BatchItemLine).id).sort()).toEqual(['a', 'b', 'c'])
+    expect(lines[3]).toMatchObject({
+      type: 'summary',
+      total: 3,
+      counts: { completed: 3, failed: 0 },
+      usage: { inputTokens: 30, outputTokens: 15, totalTokens: 45 },
+    })
+  })
+
+  test('reports item failures without failing the batch', async () => {
+    const lines = await collect({ items: [...items('ok', 'boom'), { id: 'empty', query: '' }] }, async (request) => {
+      if (request.query === 'Query boom') {
+        throw new Error('LLM unavailable')
+      }
+      return { status: 'completed', conversationId: 'conv-1' }
+    })
+
+    const byId = Object.fromEntries(
+      lines.filter((line) => line.type === 'item').map((line) => [line.id, line])
+    )
+    expect(byId.ok).toMatchObject({ status: 'completed' })
+    expect(byId.boom).toMatchObject({ status: 'failed', error: 'LLM unavailable' })
+    expect(byId.empty).toMatchObject({ status: 'failed', error: 'Query is required' })
+    expect(lines.at(-1)).toMatchObject({ counts: { completed: 1, failed: 2 } })
+  })
+
+  test('runs no more items at once than the concurrency limit', async () => {
+    let running = 0
+    let peak = 0
+    await collect({ items: items('a', 'b', 'c', 'd', 'e') }, async () => {
+      running++
+      peak = Math.max(peak, running)
+      await Bun.sleep(5)
+      running--
+      return { status: 'completed', conversationId: 'conv-1' }
+    }, 2)
+
+    expect(peak).toBe(2)
+  })
+
+  test('emits results in completion order', async () => {
+    const lines = await collect({ items: items('slow', 'fast') }, async (request) => {
+      await Bun.sleep(request.query === 'Query slow' ? 20 : 1)
+      return { status: 'completed', conversationId: 'conv-1' }
+    })
+
+    expect((lines[0] as BatchItemLine).id).toBe('fast')
+  })
+
+  test('applies shared options to every item', async () => {
+    const seen: ChatRequestBody[] = []
+    await collect({ items: items('a', 'b'), options: { topK: 3 } }, async (request) => {
+      seen.push(request)
+      return { status: 'completed', conversationId: 'conv-1' }
+    })
+
+    expect(seen.every((request) => request.options?.topK === 3)).toBe(true)
+  })
+})
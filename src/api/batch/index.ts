@@ -0,0 +1,174 @@
+// src/api/batch/index.ts
+import { createRunSignal } from '@/core/cancellation'
+import { config } from '@/core/config'
+import { addTokenUsage, emptyTokenUsage, trackTokenUsage, type TokenUsage } from '@/core/llm'
+import { validatePolicyOptions, type WorkflowPolicyOptions } from '@/core/policy'
+import { runChat, type ChatRequestBody, type ChatResult } from '../runner'
+
+export interface BatchItem {
+  /** Caller's id, echoed on the item's result line */
+  id: string
+  query: string
+  conversationId?: string
+}
+
+export interface BatchRequestBody {
+  items: BatchItem[]
+  /** Workflow policy overrides applied to every item */
+  options?: WorkflowPolicyOptions
+}
+
+export type BatchItemStatus = ChatResult['status'] | 'failed'
+
+export interface BatchItemLine {
+  type: 'item'
+  id: string
+  status: BatchItemStatus
+  durationMs: number
+  usage: TokenUsage
+  result?: ChatResult
+  error?: string
+}
+
+export interface BatchSummaryLine {
+  type: 'summary'
+  total: number
+  counts: Record<BatchItemStatus, number>
+  usage: TokenUsage
+  /** Wall-clock time for the whole batch */
+  durationMs: number
+  itemDurationMs: {
+    total: number
+    average: number
+    max: number
+  }
+}
+
+export type BatchLine = BatchItemLine | BatchSummaryLine
+
+interface RunBatchOptions {
+  concurrency?: number
+  /** Aborting stops items that haven't started and cancels running ones */
+  signal?: AbortSignal
+  /** Runs one item; defaults to the chat runner */
+  execute?: (request: ChatRequestBody, signal: AbortSignal) => Promise<ChatResult>
+}
+
+/**
+ * Check the shape of a batch request. Items with a missing query are not
+ * rejected here; they fail individually so the rest of the batch still runs.
+ * Returns an error message, or undefined if the request is valid.
+ */
+export function validateBatchRequest(body: unknown): string | undefined {
+  const items = (body as Partial<BatchRequestBody> | null)?.items
+  if (!Array.isArray(items) || items.length === 0) {
+    return 'items must be a non-empty array'
+  }
+  if (items.length > config.batch.maxItems) {
+    return `items must contain at most ${config.batch.maxItems} queries`
+  }
+
+  const ids = new Set<string>()
+  for (const [index, item] of items.entries()) {
+    if (typeof item?.id !== 'string' || item.id === '') {
+      return `items[${index}].id must be a non-empty string`
+    }
+    if (ids.has(item.id)) {
+      return `Duplicate item id: ${item.id}`
+    }
+    ids.add(item.id)
+  }
+
+  return validatePolicyOptions((body as BatchRequestBody).options)
+}
+
+async function runItem(
+  item: BatchItem,
+  options: WorkflowPolicyOptions | undefined,
+  execute: NonNullable<RunBatchOptions['execute']>,
+  signal?: AbortSignal
+): Promise<BatchItemLine> {
+  const startedAt = Date.now()
+  if (!item.query) {
+    return {
+      type: 'item',
+      id: item.id,
+      status: 'failed',
+      durationMs: 0,
+      usage: emptyTokenUsage(),
+      error: 'Query is required',
+    }
+  }
+
+  const { result: outcome, usage } = await trackTokenUsage(async () => {
+    try {
+      const request = { query: item.query, conversationId: item.conversationId, options }
+      return { result: await execute(request, createRunSignal(signal)) }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  return {
+    type: 'item',
+    id: item.id,
+    status: outcome.result?.status ?? 'failed',
+    durationMs: Date.now() - startedAt,
+    usage,
+    ...outcome,
+  }
+}
+
+/**
+ * Run every item of a batch with bounded concurrency, passing each result line
+ * to `onLine` as it finishes and the summary line last.
+ */
+export async function runBatch(
+  body: BatchRequestBody,
+  onLine: (line: BatchLine) => Promise<void>,
+  options: RunBatchOptions = {}
+): Promise<BatchSummaryLine> {
+  const startedAt = Date.now()
+  const execute = options.execute ?? runChat
+  const lines: BatchItemLine[] = []
+
+  let next = 0
+  const worker = async () => {
+    while (next < body.items.length && !options.signal?.aborted) {
+      const line = await runItem(body.items[next++], body.options, execute, options.signal)
+      lines.push(line)
+      await onLine(line)
+    }
+  }
+  const workers = Math.min(options.concurrency ?? config.batch.concurrency, body.items.length)
+  await Promise.all(Array.from({ length: workers }, worker))
+
+  const counts: Record<BatchItemStatus, number> = {
+    completed: 0,
+    needs_clarification: 0,
+    cancelled: 0,
+    failed: 0,
+  }
+  const usage = emptyTokenUsage()
+  for (const line of lines) {
+    counts[line.status]++
+    addTokenUsage(usage, line.usage)
+  }
+  const durations = lines.map((line) => line.durationMs)
+  const totalDuration = durations.reduce((sum, duration) => sum + duration, 0)
+
+  const summary: BatchSummaryLine = {
+    type: 'summary',
+    total: lines.length,
+    counts,
+    usage,
+    durationMs: Date.now() - startedAt,
+    itemDurationMs: {
+      total: totalDuration,
+      average: lines.length > 0 ? totalDuration / lines.length : 0,
+      max: Math.max(0, ...durations),
+    },
+  }
+  await onLine(summary)
+  return summary
+}
@@ -0,0 +1,62 @@
+// src/api/jobs/__tests__/manager.test.ts
+import { describe, test, expect } from 'bun:test'
+import type { ChatResult } from '../../runner'
+import { JobManager } from '../index'
+
+const completed: ChatResult = { status: 'completed', conversationId: 'conv-1', answer: 'Answer' }
+
+describe('JobManager', () => {
+  test('runs submitted jobs and records their result', async () => {
+    const manager = new JobManager({ concurrency: 1, ttlMs: 60_000, execute: async () => completed })
+
+    const job = manager.submit({ query: 'What is AI?' })
+    expect(job.status).toBe('running')
+    await Bun.sleep(1)
+
+    expect(manager.get(job.id)).toMatchObject({ status: 'completed', result: completed })
+    expect(manager.get(job.id)?.completedAt).toBeDefined()
+  })
+
+  test('keeps jobs beyond the concurrency limit queued', () => {
+    const manager = new JobManager({
+      concurrency: 1,
+      ttlMs: 60_000,
+      execute: () => new Promise(() => {}),
+    })
+
+    manager.submit({ query: 'first' })
+    const second = manager.submit({ query: 'second' })
+
+    expect(second.status).toBe('queued')
+  })
+
+  test('records failures and cancellations', async () => {
+    const manager = new JobManager({
+      concurrency: 2,
+      ttlMs: 60_000,
+      execute: async (request) => {
+        if (request.query === 'fail') {
+          throw new Error('LLM unavailable')
+        }
+        return { status: 'cancelled', conversationId: 'conv-1', cancelReason: 'deadline_exceeded' }
+      },
+    })
+
+    const failed = manager.submit({ query: 'fail' })
+    const cancelled = manager.submit({ query: 'slow' })
+    await Bun.sleep(1)
+
+    expect(manager.get(failed.id)).toMatchObject({ status: 'failed', error: 'LLM unavailable' })
+    expect(manager.get(cancelled.id)?.status).toBe('cancelled')
+  })
+
+  test('drops finished jobs after the TTL', async () => {
+    const manager = new JobManager({ concurrency: 1, ttlMs: 1000, execute: async () => completed })
+
+    const job = manager.submit({ query: 'What is AI?' })
+    await Bun.sleep(1)
+    manager.sweep(Date.now() + 2000)
+
+    expect(manager.get(job.id)).toBeUndefined()
+  })
+})
@@ -0,0 +1,42 @@
+// src/api/jobs/__tests__/queue.test.ts
+import { describe, test, expect } from 'bun:test'
+import { JobQueue } from '../queue'
+
+describe('JobQueue', () => {
+  test('runs at most `concurrency` tasks at once, in order', async () => {
+    const queue = new JobQueue(2)
+    const started: number[] = []
+    let peak = 0
+
+    for (const id of [1, 2, 3, 4]) {
+      queue.enqueue(async () => {
+        started.push(id)
+        peak = Math.max(peak, queue.active)
+        await Bun.sleep(5)
+      })
+    }
+
+    expect(queue.active).toBe(2)
+    expect(queue.size).toBe(2)
+    await Bun.sleep(30)
+
+    expect(started).toEqual([1, 2, 3, 4])
+    expect(peak).toBe(2)
+    expect(queue.active).toBe(0)
+  })
+
+  test('frees the slot when a task rejects', async () => {
+    const queue = new JobQueue(1)
+    let ran = false
+
+    queue.enqueue(async () => {
+      throw new Error('boom')
+    })
+    queue.enqueue(async () => {
+      ran = true
+    })
+    await Bun.sleep(5)
+
+    expect(ran).toBe(true)
+  })
+})
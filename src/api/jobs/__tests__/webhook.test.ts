@@ -0,0 +1,103 @@
+// src/api/jobs/__tests__/webhook.test.ts
+import { describe, test, expect, afterEach, mock } from 'bun:test'
+import { deliverWebhook, signPayload, validateCallbackUrl, type WebhookDelivery } from '../webhook'
+
+const originalFetch = global.fetch
+const options = { secret: 'test-secret', maxAttempts: 3, retryBaseMs: 1, timeoutMs: 1000 }
+
+function pendingDelivery(): WebhookDelivery {
+  return { url: 'https://example.com/hook', status: 'pending', attempts: 0 }
+}
+
+describe('Webhook delivery', () => {
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  test('signPayload is a stable HMAC of timestamp and body', () => {
+    const signature = signPayload('{"a":1}', '1700000000', 'test-secret')
+
+    expect(signature).toMatch(/^[0-9a-f]{64}$/)
+    expect(signPayload('{"a":1}', '1700000000', 'test-secret')).toBe(signature)
+    expect(signPayload('{"a":2}', '1700000000', 'test-secret')).not.toBe(signature)
+  })
+
+  test('posts the payload with a verifiable signature', async () => {
+    const fetchMock = mock(async () => new Response(null, { status: 200 }))
+    global.fetch = fetchMock as unknown as typeof fetch
+
+    const delivery = await deliverWebhook(pendingDelivery(), { id: 'job-1' }, options)
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1 })
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    const headers = init.headers as Record<string, string>
+    expect(url).toBe('https://example.com/hook')
+    expect(init.body).toBe('{"id":"job-1"}')
+    expect(headers['X-Webhook-Signature']).toBe(
+      `sha256=${signPayload('{"id":"job-1"}', headers['X-Webhook-Timestamp'], 'test-secret')}`
+    )
+  })
+
+  test('retries failed attempts until one succeeds', async () => {
+    let calls = 0
+    global.fetch = mock(async () => {
+      calls++
+      if (calls === 1) {
+        throw new Error('connection refused')
+      }
+      return new Response(null, { status: calls === 2 ? 500 : 204 })
+    }) as unknown as typeof fetch
+
+    const delivery = await deliverWebhook(pendingDelivery(), {}, options)
+
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3 })
+    expect(delivery.lastError).toBeUndefined()
+  })
+
+  test('gives up after maxAttempts', async () => {
+    global.fetch = mock(async () => new Response(null, { status: 503 })) as unknown as typeof fetch
+
+    const delivery = await deliverWebhook(pendingDelivery(), {}, options)
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 3, lastError: 'HTTP 503' })
+  })
+
+  test('counts an attempt the receiver never answers as failed', async () => {
+    // Accepts the request and hangs until the attempt's signal gives up on it
+    global.fetch = mock(
+      (_url: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+        })
+    ) as unknown as typeof fetch
+
+    const delivery = await deliverWebhook(pendingDelivery(), {}, { ...options, maxAttempts: 2, timeoutMs: 10 })
+
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 2, lastError: 'Timed out after 10ms' })
+  })
+})
+
+describe('validateCallbackUrl', () => {
+  test('accepts http(s) URLs of other hosts', () => {
+    expect(validateCallbackUrl('https://example.com/hook')).toBeUndefined()
+    expect(validateCallbackUrl('http://10.0.0.5:8080/hook')).toBeUndefined()
+  })
+
+  test.each(['ftp://example.com/hook', 'not a url', 42])('rejects %p as not http(s)', (url) => {
+    expect(validateCallbackUrl(url)).toBe('callbackUrl must be an http(s) URL')
+  })
+
+  test.each([
+    'http://localhost:3000/hook',
+    'http://api.localhost/hook',
+    'http://127.0.0.1/hook',
+    'http://127.1.2.3/hook',
+    'http://0.0.0.0/hook',
+    'http://169.254.169.254/latest/meta-data',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://[fe80::1]/hook',
+  ])('rejects the loopback or link-local URL %s', (url) => {
+    expect(validateCallbackUrl(url)).toBe('callbackUrl must not point at a loopback or link-local host')
+  })
+})
@@ -0,0 +1,141 @@
+// src/api/jobs/index.ts
+import { createRunSignal } from '@/core/cancellation'
+import { config } from '@/core/config'
+import { runChat, type ChatRequestBody, type ChatResult } from '../runner'
+import { JobQueue } from './queue'
+import { deliverWebhook, type WebhookDelivery, type WebhookOptions } from './webhook'
+
+export { JobQueue } from './queue'
+export * from './webhook'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface Job {
+  id: string
+  status: JobStatus
+  request: ChatRequestBody
+  createdAt: string
+  startedAt?: string
+  completedAt?: string
+  result?: ChatResult
+  error?: string
+  webhook?: WebhookDelivery
+}
+
+interface JobManagerOptions {
+  concurrency: number
+  /** How long finished jobs are kept */
+  ttlMs: number
+  /** Required to accept callback URLs */
+  webhook?: WebhookOptions
+  /** Runs one job; defaults to the chat runner */
+  execute?: (request: ChatRequestBody, signal: AbortSignal) => Promise<ChatResult>
+}
+
+/**
+ * Chat requests run in the background through a bounded queue.
+ * Finished jobs are posted to their callback URL, if any, and kept for polling until their TTL.
+ */
+export class JobManager {
+  private jobs = new Map<string, Job>()
+  private queue: JobQueue
+  private execute: (request: ChatRequestBody, signal: AbortSignal) => Promise<ChatResult>
+
+  constructor(private options: JobManagerOptions) {
+    this.queue = new JobQueue(options.concurrency)
+    this.execute = options.execute ?? ((request, signal) => runChat(request, signal))
+  }
+
+  get acceptsCallbacks(): boolean {
+    return this.options.webhook !== undefined
+  }
+
+  submit(request: ChatRequestBody, callbackUrl?: string): Job {
+    this.sweep()
+    const job: Job = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      request,
+      createdAt: new Date().toISOString(),
+      webhook: callbackUrl ? { url: callbackUrl, status: 'pending', attempts: 0 } : undefined,
+    }
+    this.jobs.set(job.id, job)
+    this.queue.enqueue(() => this.run(job))
+    return job
+  }
+
+  get(jobId: string): Job | undefined {
+    this.sweep()
+    return this.jobs.get(jobId)
+  }
+
+  /**
+   * Drop finished jobs older than the TTL, with their webhook delivered or given up on.
+   */
+  sweep(now = Date.now()): void {
+    for (const [jobId, job] of this.jobs) {
+      const finishedAt = job.completedAt ? Date.parse(job.completedAt) : undefined
+      if (
+        finishedAt !== undefined &&
+        job.webhook?.status !== 'pending' &&
+        now - finishedAt > this.options.ttlMs
+      ) {
+        this.jobs.delete(jobId)
+      }
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    job.status = 'running'
+    job.startedAt = new Date().toISOString()
+
+    try {
+      // Jobs have no client connection to lose; only the run deadline applies
+      job.result = await this.execute(job.request, createRunSignal())
+      job.status = job.result.status === 'cancelled' ? 'cancelled' : 'completed'
+    } catch (error) {
+      job.status = 'failed'
+      job.error = error instanceof Error ? error.message : 'Unknown error'
+    }
+    job.completedAt = new Date().toISOString()
+
+    if (job.webhook && this.options.webhook) {
+      // Delivery state is tracked on the job rather than sent to the receiver
+      const { webhook: _webhook, ...payload } = toJobResponse(job)
+      // Delivered outside the queue so slow receivers don't hold up other jobs
+      void deliverWebhook(job.webhook, payload, this.options.webhook)
+    }
+  }
+}
+
+/**
+ * Job as returned to clients and posted to callbacks; the original request is left out.
+ */
+export function toJobResponse(job: Job) {
+  const { request: _request, ...response } = job
+  return response
+}
+
+let _manager: JobManager | undefined
+
+/**
+ * Shared job manager, created on first use.
+ */
+export function getJobManager(): JobManager {
+  if (!_manager) {
+    const secret = config.webhook.secret
+    _manager = new JobManager({
+      concurrency: config.jobs.concurrency,
+      ttlMs: config.jobs.ttlSeconds * 1000,
+      webhook: secret
+        ? {
+            secret,
+            maxAttempts: config.webhook.maxAttempts,
+            retryBaseMs: config.webhook.retryBaseMs,
+            timeoutMs: config.webhook.timeoutMs,
+          }
+        : undefined,
+    })
+  }
+  return _manager
+}
@@ -0,0 +1,40 @@
+// src/api/jobs/queue.ts
+
+/**
+ * FIFO queue running at most `concurrency` tasks at once.
+ */
+export class JobQueue {
+  private pending: Array<() => Promise<void>> = []
+  private running = 0
+
+  constructor(private concurrency: number) {}
+
+  /** Tasks waiting for a free slot */
+  get size(): number {
+    return this.pending.length
+  }
+
+  get active(): number {
+    return this.running
+  }
+
+  /**
+   * Queue a task. Tasks should handle their own errors; a rejection only frees the slot.
+   */
+  enqueue(task: () => Promise<void>): void {
+    this.pending.push(task)
+    this.drain()
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const task = this.pending.shift() as () => Promise<void>
+      this.running++
+      const done = () => {
+        this.running--
+        this.drain()
+      }
+      task().then(done, done)
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// src/api/jobs/webhook.ts
+import { createHmac } from 'node:crypto'
+
+export interface WebhookOptions {
+  secret: string
+  maxAttempts: number
+  /** Delay before the first retry, doubled on each further attempt */
+  retryBaseMs: number
+  /** How long one attempt waits for a response before it counts as failed */
+  timeoutMs: number
+}
+
+export interface WebhookDelivery {
+  url: string
+  status: 'pending' | 'delivered' | 'failed'
+  attempts: number
+  lastError?: string
+}
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}`, hex encoded. Receivers recompute it
+ * from the X-Webhook-Timestamp header and the raw request body.
+ */
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * The IPv4 address of an IPv4-mapped IPv6 host, which URL normalizes to hex
+ * groups (::ffff:7f00:1 for 127.0.0.1).
+ */
+function mappedIPv4(host: string): string | undefined {
+  const match = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (!match) {
+    return undefined
+  }
+  const [high, low] = [Number.parseInt(match[1], 16), Number.parseInt(match[2], 16)]
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.')
+}
+
+/**
+ * Whether a URL host names this machine or its link-local network, judged
+ * from the URL alone: 'localhost', 127.0.0.0/8, 0.0.0.0, 169.254.0.0/16,
+ * ::1, :: and fe80::/10, including IPv4-mapped IPv6 forms.
+ */
+function isLocalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true
+  }
+  const ipv4 = mappedIPv4(host) ?? host
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ipv4)) {
+    return ipv4.startsWith('127.') || ipv4.startsWith('169.254.') || ipv4 === '0.0.0.0'
+  }
+  return host === '::1' || host === '::' || /^fe[89ab][0-9a-f]:/.test(host)
+}
+
+/**
+ * Check a client-supplied callback URL: absolute http(s), and not aimed at
+ * loopback or link-local hosts the server would reach on the client's behalf.
+ * Returns an error message, or undefined when the URL is acceptable.
+ */
+export function validateCallbackUrl(value: unknown): string | undefined {
+  let url: URL
+  try {
+    url = new URL(typeof value === 'string' ? value : '')
+  } catch {
+    return 'callbackUrl must be an http(s) URL'
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'callbackUrl must be an http(s) URL'
+  }
+  if (isLocalHost(url.hostname)) {
+    return 'callbackUrl must not point at a loopback or link-local host'
+  }
+  return undefined
+}
+
+/**
+ * POST a signed JSON payload, retrying failed attempts with exponential backoff.
+ * An attempt the receiver doesn't answer within `timeoutMs` counts as failed.
+ * `delivery` is updated in place so callers can report progress while it runs.
+ */
+export async function deliverWebhook(
+  delivery: WebhookDelivery,
+  payload: unknown,
+  options: WebhookOptions
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(payload)
+
+  while (delivery.attempts < options.maxAttempts) {
+    if (delivery.attempts > 0) {
+      await Bun.sleep(options.retryBaseMs * 2 ** (delivery.attempts - 1))
+    }
+    delivery.attempts++
+
+    const timestamp = String(Math.floor(Date.now() / 1000))
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signPayload(body, timestamp, options.secret)}`,
+        },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      })
+      if (response.ok) {
+        delivery.status = 'delivered'
+        delivery.lastError = undefined
+        return delivery
+      }
+      delivery.lastError = `HTTP ${response.status}`
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        delivery.lastError = `Timed out after ${options.timeoutMs}ms`
+      } else {
+        delivery.lastError = error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  delivery.status = 'failed'
+  return delivery
+}
@@ -57,6 +57,30 @@ describe('API Key Auth Middleware', () => {
     expect(body.error).toBe('Invalid or missing API key')
   })
 
+  test('allows request with valid bearer token', async () => {
+    const app = new Hono()
+    app.use('*', apiKeyAuth)
+    app.get('/protected', (c) => c.json({ success: true }))
+
+    const res = await app.request('/protected', {
+      headers: { Authorization: 'Bearer test-secret-key' },
+    })
+
+    expect(res.status).toBe(200)
+  })
+
+  test('rejects request with invalid bearer token', async () => {
+    const app = new Hono()
+    app.use('*', apiKeyAuth)
+    app.get('/protected', (c) => c.json({ success: true }))
+
+    const res = await app.request('/protected', {
+      headers: { Authorization: 'Bearer wrong-key' },
+    })
+
+    expect(res.status).toBe(401)
+  })
+
   test('allows all requests when API_KEY is not set', async () => {
     delete process.env.API_KEY
 
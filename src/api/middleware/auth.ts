@@ -9,7 +9,9 @@ export async function apiKeyAuth(c: Context, next: Next) {
     return next()
   }
 
-  const providedKey = c.req.header('X-API-Key')
+  // OpenAI clients send the key as a bearer token
+  const providedKey =
+    c.req.header('X-API-Key') ?? c.req.header('Authorization')?.replace(/^Bearer\s+/i, '')
 
   if (!providedKey || providedKey !== configuredKey) {
     return c.json({ error: 'Invalid or missing API key' }, 401)
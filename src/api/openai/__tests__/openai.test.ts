@@ -0,0 +1,137 @@
+// src/api/openai/__tests__/openai.test.ts
+import { describe, test, expect } from 'bun:test'
+import type { StreamEvent } from '../../stream'
+import {
+  toCompletionChunks,
+  toConversation,
+  validateCompletionRequest,
+  type ChatCompletionChunk,
+} from '../index'
+
+function event(type: string, data: Record<string, unknown>, seq = 1): StreamEvent {
+  return { version: 1, seq, runId: 'run-1', type, timestamp: '', data } as StreamEvent
+}
+
+async function collect(events: StreamEvent[], maxIterations = 3) {
+  const chunks: Array<ChatCompletionChunk | Error> = []
+  const source = (async function* () {
+    yield* events
+  })()
+  for await (const chunk of toCompletionChunks(source, { id: 'chatcmpl-1', model: 'rag-agent' }, maxIterations)) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+function contentOf(chunks: Array<ChatCompletionChunk | Error>): string {
+  return chunks
+    .filter((chunk): chunk is ChatCompletionChunk => !(chunk instanceof Error))
+    .map((chunk) => chunk.choices[0]?.delta.content ?? '')
+    .join('')
+}
+
+const critique = (iteration: number, discardDraft: boolean) =>
+  event('critique', { iteration, qualityScore: 0.5, scores: {}, discardDraft })
+
+describe('validateCompletionRequest', () => {
+  test('requires a non-empty message list ending with a user message', () => {
+    expect(validateCompletionRequest({})).toBe('messages must be a non-empty array')
+    expect(validateCompletionRequest({ messages: [{ role: 'assistant', content: 'Hi' }] })).toBe(
+      'The last message must be a non-empty user message'
+    )
+    expect(validateCompletionRequest({ messages: [{ role: 'user', content: 'What is AI?' }] })).toBeUndefined()
+  })
+})
+
+describe('toConversation', () => {
+  test('uses the last user message as the query and earlier turns as context', () => {
+    const { query, context } = toConversation([
+      { role: 'system', content: 'You are helpful' },
+      { role: 'user', content: 'What is ML?' },
+      { role: 'assistant', content: 'ML is...' },
+      { role: 'user', content: [{ type: 'text', text: 'And its ' }, { type: 'text', text: 'pricing?' }] },
+    ])
+
+    expect(query).toBe('And its pricing?')
+    expect(context).toEqual({ previousQueries: ['What is ML?'], previousResponses: ['ML is...'] })
+  })
+
+  test('keeps user messages without a reply', () => {
+    const { context } = toConversation([
+      { role: 'user', content: 'First' },
+      { role: 'user', content: 'Second' },
+      { role: 'assistant', content: 'Reply' },
+      { role: 'user', content: 'Third' },
+    ])
+
+    expect(context.previousQueries).toEqual(['First', 'Second'])
+    expect(context.previousResponses).toEqual(['', 'Reply'])
+  })
+})
+
+describe('toCompletionChunks', () => {
+  test('releases only the draft the critic accepts', async () => {
+    const chunks = await collect([
+      event('answer_delta', { iteration: 1, delta: 'Rejected ' }),
+      critique(1, true),
+      event('answer_delta', { iteration: 2, delta: 'Accepted ' }),
+      event('answer_delta', { iteration: 2, delta: 'answer' }),
+      critique(2, false),
+      event('done', { status: 'completed', conversationId: 'conv-1', answer: 'Accepted answer', qualityScore: 0.9 }),
+    ])
+
+    expect(chunks[0]).toMatchObject({ choices: [{ delta: { role: 'assistant' } }] })
+    expect(contentOf(chunks)).toBe('Accepted answer')
+    expect(chunks.at(-1)).toMatchObject({
+      choices: [{ finish_reason: 'stop' }],
+      rag: { conversationId: 'conv-1', qualityScore: 0.9 },
+    })
+  })
+
+  test('streams the last allowed draft as it is generated', async () => {
+    const order: string[] = []
+    const source = (async function* () {
+      yield critique(1, true)
+      yield event('answer_delta', { iteration: 2, delta: 'Final ' })
+      yield event('answer_delta', { iteration: 2, delta: 'answer' })
+      order.push('critique')
+      yield critique(2, false)
+      yield event('done', { status: 'completed', conversationId: 'conv-1', answer: 'Final answer' })
+    })()
+
+    for await (const chunk of toCompletionChunks(source, { id: 'chatcmpl-1', model: 'rag-agent' }, 2)) {
+      const content = chunk instanceof Error ? undefined : chunk.choices[0]?.delta.content
+      if (content) {
+        order.push(content)
+      }
+    }
+
+    expect(order).toEqual(['Final ', 'answer', 'critique'])
+  })
+
+  test('sends the final answer when no draft was reviewed', async () => {
+    const chunks = await collect([
+      event('done', {
+        status: 'needs_clarification',
+        conversationId: 'conv-1',
+        clarification: { question: 'Which one?', options: ['A', 'B'] },
+      }),
+    ])
+
+    expect(contentOf(chunks)).toBe('Which one?')
+    expect(chunks.at(-1)).toMatchObject({ rag: { clarification: { options: ['A', 'B'] } } })
+  })
+
+  test('yields an error for failed and cancelled runs', async () => {
+    const failed = await collect([
+      event('error', { message: 'LLM unavailable' }),
+      event('done', { status: 'failed', conversationId: 'conv-1' }),
+    ])
+    const cancelled = await collect([
+      event('done', { status: 'cancelled', conversationId: 'conv-1', cancelReason: 'deadline_exceeded' }),
+    ])
+
+    expect(failed.at(-1)).toEqual(new Error('LLM unavailable'))
+    expect(cancelled.at(-1)).toEqual(new Error('Run cancelled: deadline_exceeded'))
+  })
+})
@@ -0,0 +1,284 @@
+// src/api/openai/index.ts
+import { HISTORY_TURNS } from '@/core/conversation'
+import type { TokenUsage } from '@/core/llm'
+import type { ConversationContext } from '@/core/state'
+import type { ChatResult, ResponseSource } from '../runner'
+import type { StreamEvent } from '../stream'
+
+/**
+ * Model name reported when the request doesn't name one. The agent graph
+ * picks its own models per step, so the requested model is only echoed back.
+ */
+export const DEFAULT_COMPLETIONS_MODEL = 'rag-agent'
+
+type ContentPart = { type: 'text'; text: string } | { type: string }
+
+export interface ChatCompletionMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool'
+  content: string | ContentPart[] | null
+}
+
+export interface ChatCompletionRequest {
+  model?: string
+  messages: ChatCompletionMessage[]
+  stream?: boolean
+  stream_options?: { include_usage?: boolean }
+}
+
+/**
+ * Extension field carrying what the Chat Completions format has no place for.
+ */
+export interface RagExtension {
+  conversationId: string
+  queryType?: string
+  qualityScore?: number
+  sources?: ResponseSource[]
+  clarification?: {
+    question?: string
+    options: string[]
+  }
+}
+
+export interface CompletionUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface ChatCompletion {
+  id: string
+  object: 'chat.completion'
+  created: number
+  model: string
+  choices: Array<{
+    index: 0
+    message: { role: 'assistant'; content: string }
+    finish_reason: 'stop'
+  }>
+  usage: CompletionUsage
+  rag: RagExtension
+}
+
+export interface ChatCompletionChunk {
+  id: string
+  object: 'chat.completion.chunk'
+  created: number
+  model: string
+  choices: Array<{
+    index: 0
+    delta: { role?: 'assistant'; content?: string }
+    finish_reason: 'stop' | null
+  }>
+  usage?: CompletionUsage | null
+  rag?: RagExtension
+}
+
+/**
+ * Error body in the shape OpenAI clients expect.
+ */
+export function completionError(message: string, type = 'invalid_request_error') {
+  return { error: { message, type, param: null, code: null } }
+}
+
+function textOf(content: ChatCompletionMessage['content']): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  return (content ?? [])
+    .map((part) => (part.type === 'text' && 'text' in part ? part.text : ''))
+    .join('')
+}
+
+/**
+ * Check a Chat Completions request. Returns an error message, or undefined if it is valid.
+ */
+export function validateCompletionRequest(body: Partial<ChatCompletionRequest>): string | undefined {
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return 'messages must be a non-empty array'
+  }
+  const last = body.messages[body.messages.length - 1]
+  if (last?.role !== 'user' || !textOf(last.content).trim()) {
+    return 'The last message must be a non-empty user message'
+  }
+  return undefined
+}
+
+/**
+ * Split a message list into the query (the last user message) and the
+ * conversation so far. Each user message is paired with the assistant reply
+ * that follows it; system and tool messages are dropped since the agents
+ * bring their own prompts.
+ */
+export function toConversation(messages: ChatCompletionMessage[]): {
+  query: string
+  context: ConversationContext
+} {
+  const query = textOf(messages[messages.length - 1].content)
+  const previousQueries: string[] = []
+  const previousResponses: string[] = []
+
+  for (const message of messages.slice(0, -1)) {
+    if (message.role === 'user') {
+      previousQueries.push(textOf(message.content))
+      previousResponses.push('')
+    } else if (message.role === 'assistant' && previousResponses.length > 0) {
+      const last = previousResponses.length - 1
+      previousResponses[last] = [previousResponses[last], textOf(message.content)]
+        .filter(Boolean)
+        .join('\n')
+    }
+  }
+
+  return {
+    query,
+    context: {
+      previousQueries: previousQueries.slice(-HISTORY_TURNS),
+      previousResponses: previousResponses.slice(-HISTORY_TURNS),
+    },
+  }
+}
+
+export function toCompletionUsage(usage: TokenUsage): CompletionUsage {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+  }
+}
+
+/**
+ * Assistant text and extension field for a finished run. A clarification
+ * is returned as the assistant's reply, so answering it is just the next user message.
+ */
+export function toRagResult(
+  result: Exclude<ChatResult, { status: 'cancelled' }>
+): { content: string; rag: RagExtension } {
+  if (result.status === 'needs_clarification') {
+    return {
+      content: result.clarification.question ?? '',
+      rag: {
+        conversationId: result.conversationId,
+        queryType: result.queryType,
+        clarification: result.clarification,
+      },
+    }
+  }
+  return {
+    content: result.answer ?? '',
+    rag: {
+      conversationId: result.conversationId,
+      queryType: result.queryType,
+      qualityScore: result.qualityScore,
+      sources: result.sources,
+    },
+  }
+}
+
+export function createCompletion(
+  id: string,
+  model: string,
+  content: string,
+  rag: RagExtension,
+  usage: TokenUsage
+): ChatCompletion {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: toCompletionUsage(usage),
+    rag,
+  }
+}
+
+type ChunkFields = Pick<ChatCompletionChunk, 'id' | 'model'>
+
+function chunk(
+  fields: ChunkFields,
+  delta: ChatCompletionChunk['choices'][0]['delta'],
+  extra: Partial<ChatCompletionChunk> = {}
+): ChatCompletionChunk {
+  return {
+    ...fields,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    choices: [{ index: 0, delta, finish_reason: null }],
+    ...extra,
+  }
+}
+
+/**
+ * Translate a run's protocol events into Chat Completions chunks.
+ *
+ * The Chat Completions stream can't retract text, so each draft's deltas are
+ * held back until the critic accepts it (or the run ends without a review).
+ * Drafts that fail review are dropped instead of being sent and replaced.
+ * The draft of the last iteration the policy allows is kept whatever its
+ * review, so it is streamed as it is generated.
+ * Yields an Error for a failed or cancelled run; the caller reports it.
+ */
+export async function* toCompletionChunks(
+  events: AsyncIterable<StreamEvent>,
+  fields: ChunkFields,
+  maxIterations: number
+): AsyncGenerator<ChatCompletionChunk | Error> {
+  yield chunk(fields, { role: 'assistant', content: '' })
+
+  const drafts = new Map<number, string[]>()
+  let sent = false
+  const release = function* (deltas: string[] = []) {
+    sent = true
+    for (const content of deltas) {
+      yield chunk(fields, { content })
+    }
+  }
+
+  for await (const event of events) {
+    if (event.type === 'answer_delta' && event.data.iteration >= maxIterations) {
+      yield* release([event.data.delta])
+    } else if (event.type === 'answer_delta') {
+      const deltas = drafts.get(event.data.iteration) ?? []
+      deltas.push(event.data.delta)
+      drafts.set(event.data.iteration, deltas)
+    } else if (event.type === 'critique') {
+      if (!event.data.discardDraft) {
+        yield* release(drafts.get(event.data.iteration))
+      }
+      drafts.delete(event.data.iteration)
+    } else if (event.type === 'error') {
+      yield new Error(event.data.message)
+    } else if (event.type === 'done') {
+      const { data } = event
+      if (data.status === 'cancelled') {
+        yield new Error(`Run cancelled: ${data.cancelReason}`)
+        return
+      }
+      if (data.status === 'failed') {
+        return
+      }
+      if (!sent) {
+        // No reviewed draft was released: clarifications and unreviewed answers
+        const content = data.status === 'needs_clarification' ? data.clarification?.question : data.answer
+        yield* release(content ? [content] : [])
+      }
+      const rag: RagExtension = {
+        conversationId: data.conversationId,
+        queryType: data.queryType,
+        ...(data.status === 'needs_clarification'
+          ? { clarification: data.clarification }
+          : { qualityScore: data.qualityScore, sources: data.sources }),
+      }
+      const last = chunk(fields, {}, { rag })
+      last.choices[0].finish_reason = 'stop'
+      yield last
+    }
+  }
+}
+
+/**
+ * Final chunk for `stream_options.include_usage`: no choices, only usage.
+ */
+export function createUsageChunk(fields: ChunkFields, usage: TokenUsage): ChatCompletionChunk {
+  return { ...chunk(fields, {}), choices: [], usage: toCompletionUsage(usage) }
+}
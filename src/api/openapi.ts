@@ -1,6 +1,27 @@
 // src/api/openapi.ts
 import { OpenAPIRegistry, OpenApiGeneratorV31, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi'
 import { z } from 'zod'
+import { SEARCH_METHODS } from '@/core/config'
+import {
+  AnswerDeltaEventSchema,
+  CancelReasonSchema,
+  ComparisonTableSchema,
+  CritiqueEventSchema,
+  CritiqueScoresSchema,
+  DoneEventSchema,
+  DraftCritiqueSchema,
+  ErrorEventSchema,
+  HeartbeatEventSchema,
+  MetadataFiltersSchema,
+  NodeCompletedEventSchema,
+  NodeStartedEventSchema,
+  RunStartedEventSchema,
+  SourcesEventSchema,
+  STREAM_PROTOCOL_VERSION,
+  StreamEventSchema,
+  SubQuestionSchema,
+  WorkflowPolicySchema,
+} from './stream/protocol'
 
 extendZodWithOpenApi(z)
 
@@ -32,6 +53,12 @@ const ApiKeyAuth = registry.registerComponent('securitySchemes', 'ApiKeyAuth', {
   name: 'X-API-Key',
 })
 
+// Same API key, as sent by OpenAI clients
+const BearerAuth = registry.registerComponent('securitySchemes', 'BearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+})
+
 // Schemas
 const HealthResponseSchema = registry.register(
   'HealthResponse',
@@ -40,11 +67,48 @@ const HealthResponseSchema = registry.register(
   })
 )
 
+const WorkflowPolicyOptionsSchema = registry.register(
+  'WorkflowPolicyOptions',
+  z
+    .object({
+      maxIterations: z.number().int().min(1).optional().openapi({ example: 3 }),
+      qualityThreshold: z.number().min(0).max(1).optional().openapi({ example: 0.8 }),
+      topK: z.number().int().min(1).optional().openapi({ example: 10 }),
+      maxRetrievalPasses: z.number().int().min(0).optional().openapi({ example: 2 }),
+      retrievalStrategy: z
+        .array(z.enum(SEARCH_METHODS))
+        .min(1)
+        .optional()
+        .openapi({
+          example: ['hybrid', 'semantic'],
+          description: 'Search methods each retrieval runs, fused by reciprocal rank when several',
+        }),
+      diverseSelection: z.boolean().optional().openapi({
+        example: true,
+        description: 'Turns diversity selection and context packing on or off, overriding the server default',
+      }),
+    })
+    .openapi({
+      description:
+        'Per-request workflow overrides. Values above the server-configured limits are rejected with 400',
+    })
+)
+
+const WorkflowPolicyComponent = registry.register('WorkflowPolicy', WorkflowPolicySchema)
+
+const MetadataFiltersComponent = registry.register('MetadataFilters', MetadataFiltersSchema)
+
 const ChatRequestSchema = registry.register(
   'ChatRequest',
   z.object({
     query: z.string().openapi({ example: 'What is LiteLLM?' }),
     conversationId: z.string().optional().openapi({ example: 'conv-123' }),
+    resumeToken: z.string().optional().openapi({
+      description: 'Resume a run paused for clarification; query is then the answer',
+      example: '5f0c6a1e-2b7d-4c55-9a53-0d1f2e3c4b5a',
+    }),
+    options: WorkflowPolicyOptionsSchema.optional(),
+    filters: MetadataFiltersComponent.optional(),
   })
 )
 
@@ -54,19 +118,145 @@ const SourceSchema = registry.register(
     chunkId: z.string().openapi({ example: 'chunk-abc' }),
     content: z.string().openapi({ example: 'LiteLLM is a proxy...' }),
     score: z.number().openapi({ example: 0.95 }),
+    rerankScore: z.number().optional().openapi({ example: 0.8 }),
+    expandedChunkIds: z.array(z.string()).optional().openapi({ example: ['chunk-abd'] }),
+  })
+)
+
+const SubQuestionComponent = registry.register('SubQuestion', SubQuestionSchema)
+
+const ClarificationSchema = registry.register(
+  'Clarification',
+  z.object({
+    question: z.string().openapi({ example: 'Which aspect of LiteLLM are you interested in?' }),
+    options: z.array(z.string()).openapi({ example: ['Setup', 'Pricing', 'Supported models'] }),
   })
 )
 
+const ComparisonTableComponent = registry.register('ComparisonTable', ComparisonTableSchema)
+
+registry.register('CritiqueScores', CritiqueScoresSchema)
+
+const DraftCritiqueComponent = registry.register('DraftCritique', DraftCritiqueSchema)
+
 const ChatResponseSchema = registry.register(
   'ChatResponse',
   z.object({
+    status: z.enum(['completed', 'needs_clarification']).openapi({ example: 'completed' }),
+    conversationId: z.string().openapi({
+      description: 'Pass back on the next request to continue the conversation',
+      example: 'conv-123',
+    }),
     answer: z.string().openapi({ example: 'LiteLLM is a lightweight LLM proxy...' }),
     queryType: z.string().optional().openapi({ example: 'factual' }),
     qualityScore: z.number().optional().openapi({ example: 0.85 }),
     sources: z.array(SourceSchema).optional(),
+    subQuestions: z.array(SubQuestionComponent).optional(),
+    comparison: ComparisonTableComponent.optional(),
+    draftHistory: z.array(DraftCritiqueComponent).optional().openapi({
+      description: 'Each generated draft with its critique, oldest first',
+    }),
+    clarification: ClarificationSchema.optional(),
+    resumeToken: z.string().optional().openapi({ example: '5f0c6a1e-2b7d-4c55-9a53-0d1f2e3c4b5a' }),
+    policy: WorkflowPolicyComponent.optional(),
+    filters: MetadataFiltersComponent.optional(),
+  })
+)
+
+const CheckpointSummarySchema = registry.register(
+  'CheckpointSummary',
+  z.object({
+    threadId: z.string().openapi({ example: 'conv-123:5f0c6a1e-2b7d-4c55-9a53-0d1f2e3c4b5a' }),
+    checkpointId: z.string().openapi({ example: '1efb5b2c-7d4a-6e10-8003-2a9c1f0e4d21' }),
+    parentCheckpointId: z.string().optional(),
+    step: z.number().openapi({ example: 3 }),
+    source: z.string().openapi({ example: 'loop' }),
+    createdAt: z.string().openapi({ example: '2025-03-01T12:00:00.000Z' }),
+    currentAgent: z.string().optional().openapi({ example: 'generator' }),
+  })
+)
+
+const CheckpointListResponseSchema = registry.register(
+  'CheckpointListResponse',
+  z.object({
+    checkpoints: z.array(CheckpointSummarySchema),
+  })
+)
+
+const CheckpointDetailSchema = registry.register(
+  'CheckpointDetail',
+  CheckpointSummarySchema.extend({
+    values: z.record(z.string(), z.unknown()).openapi({
+      description: 'Agent state values saved at this checkpoint',
+    }),
+  })
+)
+
+const ConversationSummarySchema = registry.register(
+  'ConversationSummary',
+  z.object({
+    id: z.string().openapi({ example: 'conv-123' }),
+    title: z.string().openapi({
+      description: 'User-set title, or the first query when none was set',
+      example: 'What is LiteLLM?',
+    }),
+    turnCount: z.number().openapi({ example: 3 }),
+    createdAt: z.string().openapi({ example: '2025-03-01T12:00:00.000Z' }),
+    updatedAt: z.string().openapi({ example: '2025-03-01T12:05:00.000Z' }),
+  })
+)
+
+const ConversationListResponseSchema = registry.register(
+  'ConversationListResponse',
+  z.object({
+    conversations: z.array(ConversationSummarySchema),
+    limit: z.number().openapi({ example: 20 }),
+    offset: z.number().openapi({ example: 0 }),
+  })
+)
+
+const ConversationTurnSchema = registry.register(
+  'ConversationTurn',
+  z.object({
+    id: z.string().openapi({ example: '7c1d2e3f-4a5b-6c7d-8e9f-0a1b2c3d4e5f' }),
+    query: z.string().openapi({ example: 'What about its pricing?' }),
+    standaloneQuery: z.string().optional().openapi({ example: 'What is the pricing of LiteLLM?' }),
+    answer: z.string().openapi({ example: 'LiteLLM is open source and free to self-host.' }),
+    queryType: z.string().optional().openapi({ example: 'factual' }),
+    qualityScore: z.number().optional().openapi({ example: 0.85 }),
+    retrievalScore: z.number().optional().openapi({ example: 0.78 }),
+    sources: z.array(SourceSchema),
+    createdAt: z.string().openapi({ example: '2025-03-01T12:05:00.000Z' }),
+  })
+)
+
+const ConversationSchema = registry.register(
+  'Conversation',
+  ConversationSummarySchema.extend({
+    turns: z.array(ConversationTurnSchema),
+  })
+)
+
+const RenameConversationRequestSchema = registry.register(
+  'RenameConversationRequest',
+  z.object({
+    title: z.string().min(1).openapi({ example: 'LiteLLM pricing' }),
   })
 )
 
+// Stream protocol events; each is sent as the data of an SSE event named after its type
+registry.register('RunStartedEvent', RunStartedEventSchema)
+registry.register('NodeStartedEvent', NodeStartedEventSchema)
+registry.register('NodeCompletedEvent', NodeCompletedEventSchema)
+registry.register('SourcesEvent', SourcesEventSchema)
+registry.register('AnswerDeltaEvent', AnswerDeltaEventSchema)
+registry.register('CritiqueEvent', CritiqueEventSchema)
+registry.register('ErrorEvent', ErrorEventSchema)
+registry.register('DoneEvent', DoneEventSchema)
+registry.register('HeartbeatEvent', HeartbeatEventSchema)
+
+const StreamEventComponent = registry.register('StreamEvent', StreamEventSchema)
+
 const ErrorResponseSchema = registry.register(
   'ErrorResponse',
   z.object({
@@ -74,6 +264,219 @@ const ErrorResponseSchema = registry.register(
   })
 )
 
+const CancelledResponseSchema = registry.register(
+  'CancelledResponse',
+  z.object({
+    status: z.literal('cancelled'),
+    conversationId: z.string().openapi({ example: 'conv-123' }),
+    cancelReason: CancelReasonSchema.openapi({ example: 'deadline_exceeded' }),
+  })
+)
+
+const CancelRunResponseSchema = registry.register(
+  'CancelRunResponse',
+  z.object({
+    runId: z.string().openapi({ example: '7c0f6a4e-3b1d-4c55-9a2e-5d8f1b6e2a90' }),
+    status: z.literal('cancelling'),
+  })
+)
+
+const JobRequestSchema = registry.register(
+  'JobRequest',
+  ChatRequestSchema.extend({
+    callbackUrl: z.string().url().optional().openapi({
+      description:
+        'Receives the finished job as a POST. The body is signed with HMAC-SHA256 over ' +
+        '`${X-Webhook-Timestamp}.${body}` and sent as `X-Webhook-Signature: sha256=<hex>`. ' +
+        'Must be http(s), and not a loopback or link-local host.',
+      example: 'https://example.com/hooks/rag',
+    }),
+  })
+)
+
+const JobSchema = registry.register(
+  'Job',
+  z.object({
+    id: z.string().openapi({ example: '0b8e2f1c-6a4d-4f7e-9c3b-2d5a1e8f7c6b' }),
+    status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']),
+    createdAt: z.string().openapi({ example: '2025-03-01T12:00:00.000Z' }),
+    startedAt: z.string().optional(),
+    completedAt: z.string().optional(),
+    result: z.union([ChatResponseSchema, CancelledResponseSchema]).optional(),
+    error: z.string().optional().openapi({ description: 'Set when status is failed' }),
+    webhook: z
+      .object({
+        url: z.string(),
+        status: z.enum(['pending', 'delivered', 'failed']),
+        attempts: z.number().int(),
+        lastError: z.string().optional(),
+      })
+      .optional(),
+  })
+)
+
+const TokenUsageSchema = registry.register(
+  'TokenUsage',
+  z.object({
+    inputTokens: z.number().int().openapi({ example: 1200 }),
+    outputTokens: z.number().int().openapi({ example: 300 }),
+    totalTokens: z.number().int().openapi({ example: 1500 }),
+  })
+)
+
+const BatchRequestSchema = registry.register(
+  'BatchRequest',
+  z.object({
+    items: z
+      .array(
+        z.object({
+          id: z.string().openapi({ description: 'Echoed on the result line', example: 'q1' }),
+          query: z.string().openapi({ example: 'What is LiteLLM?' }),
+          conversationId: z.string().optional(),
+        })
+      )
+      .min(1),
+    options: WorkflowPolicyOptionsSchema.optional().openapi({
+      description: 'Policy overrides applied to every item',
+    }),
+  })
+)
+
+const BatchItemResultSchema = registry.register(
+  'BatchItemResult',
+  z.object({
+    type: z.literal('item'),
+    id: z.string().openapi({ example: 'q1' }),
+    status: z.enum(['completed', 'needs_clarification', 'cancelled', 'failed']),
+    durationMs: z.number().openapi({ example: 2350 }),
+    usage: TokenUsageSchema,
+    result: z.union([ChatResponseSchema, CancelledResponseSchema]).optional(),
+    error: z.string().optional().openapi({ description: 'Set when status is failed' }),
+  })
+)
+
+const BatchSummarySchema = registry.register(
+  'BatchSummary',
+  z.object({
+    type: z.literal('summary'),
+    total: z.number().int().openapi({ example: 3 }),
+    counts: z.object({
+      completed: z.number().int(),
+      needs_clarification: z.number().int(),
+      cancelled: z.number().int(),
+      failed: z.number().int(),
+    }),
+    usage: TokenUsageSchema,
+    durationMs: z.number().openapi({ description: 'Wall-clock time for the batch', example: 4100 }),
+    itemDurationMs: z.object({
+      total: z.number(),
+      average: z.number(),
+      max: z.number(),
+    }),
+  })
+)
+
+const RagExtensionSchema = z
+  .object({
+    conversationId: z.string().openapi({ example: 'conv-123' }),
+    queryType: z.string().optional().openapi({ example: 'factual' }),
+    qualityScore: z.number().optional().openapi({ example: 0.85 }),
+    sources: z.array(SourceSchema).optional(),
+    clarification: ClarificationSchema.optional(),
+  })
+  .openapi({ description: 'Agent output with no place in the Chat Completions format' })
+
+const CompletionUsageSchema = z.object({
+  prompt_tokens: z.number().int(),
+  completion_tokens: z.number().int(),
+  total_tokens: z.number().int(),
+})
+
+const ChatCompletionRequestSchema = registry.register(
+  'ChatCompletionRequest',
+  z.object({
+    model: z.string().optional().openapi({
+      description: 'Echoed back; the agents choose their own models',
+      example: 'rag-agent',
+    }),
+    messages: z
+      .array(
+        z.object({
+          role: z.enum(['system', 'developer', 'user', 'assistant', 'tool']),
+          content: z.union([
+            z.string(),
+            z.array(z.object({ type: z.string(), text: z.string().optional() })),
+            z.null(),
+          ]),
+        })
+      )
+      .min(1)
+      .openapi({
+        description:
+          'The last message must be from the user and becomes the query. Earlier user/assistant ' +
+          'pairs become the conversation history; system and tool messages are ignored.',
+      }),
+    stream: z.boolean().optional(),
+    stream_options: z.object({ include_usage: z.boolean().optional() }).optional(),
+  })
+)
+
+const ChatCompletionSchema = registry.register(
+  'ChatCompletion',
+  z.object({
+    id: z.string().openapi({ example: 'chatcmpl-0b8e2f1c-6a4d-4f7e-9c3b-2d5a1e8f7c6b' }),
+    object: z.literal('chat.completion'),
+    created: z.number().int().openapi({ example: 1740830400 }),
+    model: z.string().openapi({ example: 'rag-agent' }),
+    choices: z.array(
+      z.object({
+        index: z.number().int(),
+        message: z.object({
+          role: z.literal('assistant'),
+          content: z.string().openapi({ example: 'LiteLLM is a lightweight LLM proxy...' }),
+        }),
+        finish_reason: z.literal('stop'),
+      })
+    ),
+    usage: CompletionUsageSchema,
+    rag: RagExtensionSchema,
+  })
+)
+
+const ChatCompletionChunkSchema = registry.register(
+  'ChatCompletionChunk',
+  z.object({
+    id: z.string(),
+    object: z.literal('chat.completion.chunk'),
+    created: z.number().int(),
+    model: z.string(),
+    choices: z.array(
+      z.object({
+        index: z.number().int(),
+        delta: z.object({
+          role: z.literal('assistant').optional(),
+          content: z.string().optional(),
+        }),
+        finish_reason: z.literal('stop').nullable(),
+      })
+    ),
+    usage: CompletionUsageSchema.nullable().optional(),
+    rag: RagExtensionSchema.optional().openapi({ description: 'Sent on the final chunk' }),
+  })
+)
+
+const OpenAIErrorSchema = registry.register(
+  'OpenAIError',
+  z.object({
+    error: z.object({
+      message: z.string().openapi({ example: 'messages must be a non-empty array' }),
+      type: z.string().openapi({ example: 'invalid_request_error' }),
+      param: z.null(),
+      code: z.null(),
+    }),
+  })
+)
+
 // Routes
 registry.registerPath({
   method: 'get',
@@ -132,6 +535,22 @@ registry.registerPath({
         },
       },
     },
+    404: {
+      description: 'Resume token unknown or run not awaiting clarification',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    504: {
+      description: 'Run cancelled after exceeding the run deadline',
+      content: {
+        'application/json': {
+          schema: CancelledResponseSchema,
+        },
+      },
+    },
   },
 })
 
@@ -152,13 +571,185 @@ registry.registerPath({
   },
   responses: {
     200: {
-      description: 'SSE stream of agent events',
+      description:
+        `SSE stream following protocol version ${STREAM_PROTOCOL_VERSION}. Each SSE event is ` +
+        'named after the event type and its id is the sequence number. A run emits run_started, ' +
+        'then node_started/node_completed per graph node, sources after retrieval, answer_delta ' +
+        'per generated token and critique after each review (discardDraft means the streamed ' +
+        'draft will be replaced). It ends with done, preceded by error on failure. heartbeat ' +
+        'events keep idle connections open.',
+      headers: z.object({
+        'X-Run-Id': z.string().openapi({
+          description: 'Run id for resuming the stream from /api/v1/runs/{id}/events',
+        }),
+      }),
+      content: {
+        'text/event-stream': {
+          schema: StreamEventComponent,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/chat/batch',
+  summary: 'Run several queries, streaming each result as it finishes',
+  tags: ['Chat'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: BatchRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        'Newline-delimited JSON: one BatchItemResult per item in completion order, then a ' +
+        'BatchSummary. A failed item is reported on its own line without stopping the batch.',
+      content: {
+        'application/x-ndjson': {
+          schema: z.union([BatchItemResultSchema, BatchSummarySchema]),
+        },
+      },
+    },
+    400: {
+      description: 'Bad request',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'post',
+  path: '/v1/chat/completions',
+  summary: 'OpenAI-compatible chat completion over the agent graph',
+  tags: ['OpenAI'],
+  security: [{ [BearerAuth.name]: [] }, { [ApiKeyAuth.name]: [] }],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: ChatCompletionRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description:
+        'A chat completion, or with `stream: true` an SSE stream of chat.completion.chunk objects ' +
+        'ending with `data: [DONE]`. Draft answers the critic rejects are never streamed.',
       content: {
+        'application/json': {
+          schema: ChatCompletionSchema,
+        },
         'text/event-stream': {
-          schema: z.object({
-            event: z.string(),
-            data: z.string(),
-          }),
+          schema: ChatCompletionChunkSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Bad request',
+      content: {
+        'application/json': {
+          schema: OpenAIErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    504: {
+      description: 'Run cancelled after exceeding the run deadline',
+      content: {
+        'application/json': {
+          schema: OpenAIErrorSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/conversations',
+  summary: 'List conversations, most recently updated first',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    query: z.object({
+      limit: z.coerce.number().int().min(0).max(100).optional().openapi({ example: 20 }),
+      offset: z.coerce.number().int().min(0).optional().openapi({ example: 0 }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Page of conversations',
+      content: {
+        'application/json': {
+          schema: ConversationListResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/conversations/{id}',
+  summary: 'Fetch a conversation with its turns, sources and quality scores',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: 'conv-123' }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Conversation with turns',
+      content: {
+        'application/json': {
+          schema: ConversationSchema,
         },
       },
     },
@@ -170,6 +761,425 @@ registry.registerPath({
         },
       },
     },
+    404: {
+      description: 'Conversation not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
   },
 })
 
+registry.registerPath({
+  method: 'patch',
+  path: '/api/v1/conversations/{id}',
+  summary: 'Rename a conversation',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: 'conv-123' }),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: RenameConversationRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Renamed conversation',
+      content: {
+        'application/json': {
+          schema: ConversationSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Missing title',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Conversation not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/conversations/{id}',
+  summary: 'Delete a conversation, its turns and its checkpoints',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: 'conv-123' }),
+    }),
+  },
+  responses: {
+    204: {
+      description: 'Conversation deleted',
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Conversation not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/conversations/{id}/export',
+  summary: 'Download a conversation as JSON or Markdown',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: 'conv-123' }),
+    }),
+    query: z.object({
+      format: z.enum(['json', 'markdown']).optional().openapi({ example: 'markdown' }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Conversation export as an attachment',
+      content: {
+        'application/json': {
+          schema: ConversationSchema,
+        },
+        'text/markdown': {
+          schema: z.string(),
+        },
+      },
+    },
+    400: {
+      description: 'Unsupported export format',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Conversation not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/conversations/{id}/checkpoints',
+  summary: 'List saved graph checkpoints of a conversation, newest first',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: 'conv-123' }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Checkpoints of the conversation',
+      content: {
+        'application/json': {
+          schema: CheckpointListResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/conversations/{id}/checkpoints/{checkpointId}',
+  summary: 'Fetch one checkpoint of a conversation with its saved state',
+  tags: ['Conversations'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: 'conv-123' }),
+      checkpointId: z.string().openapi({ example: '1efb5b2c-7d4a-6e10-8003-2a9c1f0e4d21' }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Checkpoint with state values',
+      content: {
+        'application/json': {
+          schema: CheckpointDetailSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Checkpoint not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/runs/{id}/events',
+  summary: 'Resume a streamed run, replaying events after Last-Event-ID',
+  tags: ['Chat'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: '7c0f6a4e-3b1d-4c55-9a2e-5d8f1b6e2a90' }),
+    }),
+    headers: z.object({
+      'Last-Event-ID': z.string().optional().openapi({ example: '42' }),
+    }),
+    query: z.object({
+      lastEventId: z.string().optional().openapi({ example: '42' }),
+    }),
+  },
+  responses: {
+    200: {
+      description:
+        'Buffered events with a higher sequence id, then live events until the run ends. ' +
+        'Finished runs stay available until their TTL expires.',
+      content: {
+        'text/event-stream': {
+          schema: StreamEventComponent,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid Last-Event-ID',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Run not found or expired',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/runs/{id}/cancel',
+  summary: 'Cancel a streamed run',
+  description:
+    'The run stops at its next LLM or search call and its stream ends with a done event ' +
+    'whose status is cancelled. Only runs started with /chat/stream can be cancelled: ' +
+    'blocking chat and batch runs stop when the client closes the request, and jobs run ' +
+    'until their deadline.',
+  tags: ['Chat'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: '7c0f6a4e-3b1d-4c55-9a2e-5d8f1b6e2a90' }),
+    }),
+  },
+  responses: {
+    202: {
+      description: 'Cancellation requested',
+      content: {
+        'application/json': {
+          schema: CancelRunResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Run not found or expired',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: 'Run already finished or being cancelled, or the id is a job',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/jobs',
+  summary: 'Run a query in the background',
+  description:
+    'Queues the query and returns immediately. Poll GET /api/v1/jobs/{id} for the result, ' +
+    'or pass callbackUrl to have the finished job posted to you, with retries on failure.',
+  tags: ['Jobs'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: JobRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
+      description: 'Job queued; the Location header points at the job',
+      content: {
+        'application/json': {
+          schema: JobSchema,
+        },
+      },
+    },
+    400: {
+      description: 'Bad request, or callbacks are not configured on this server',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Resume token unknown or run not awaiting clarification',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
+
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/jobs/{id}',
+  summary: 'Get the status and result of a job',
+  tags: ['Jobs'],
+  security: [{ [ApiKeyAuth.name]: [] }],
+  request: {
+    params: z.object({
+      id: z.string().openapi({ example: '0b8e2f1c-6a4d-4f7e-9c3b-2d5a1e8f7c6b' }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Job with its result once finished',
+      content: {
+        'application/json': {
+          schema: JobSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Unauthorized',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Job not found or expired',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+})
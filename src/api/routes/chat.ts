@@ -1,50 +1,44 @@
 // src/api/routes/chat.ts
 import { Hono } from 'hono'
-import { streamSSE } from 'hono/streaming'
-import { createAgentGraph } from '@/agents/supervisor'
-import { withSessionContext } from '@/core/telemetry'
+import type { UnofficialStatusCode } from 'hono/utils/http-status'
+import { stream, streamSSE } from 'hono/streaming'
+import { createRunSignal } from '@/core/cancellation'
+import { runBatch, validateBatchRequest, type BatchRequestBody } from '../batch'
+import {
+  isAwaitingClarification,
+  runChat,
+  sessionIdForRequest,
+  validateChatRequest,
+  type ChatRequestBody,
+} from '../runner'
+import { executeStreamRun, getRunRegistry, pipeRunEvents } from '../stream'
 
 const chat = new Hono()
-const graph = createAgentGraph()
-
-/**
- * Get or generate session ID using hybrid approach.
- * Uses conversationId if provided, otherwise generates a new UUID.
- */
-function resolveSessionId(conversationId?: string): string {
-  return conversationId || crypto.randomUUID()
-}
 
 chat.post('/', async (c) => {
-  const body = await c.req.json<{ query: string; conversationId?: string }>()
+  const body = await c.req.json<ChatRequestBody>()
 
-  if (!body.query) {
-    return c.json({ error: 'Query is required' }, 400)
+  const requestError = validateChatRequest(body)
+  if (requestError) {
+    return c.json({ error: requestError }, 400)
   }
 
-  const sessionId = resolveSessionId(body.conversationId)
+  if (body.resumeToken && !(await isAwaitingClarification(body.resumeToken))) {
+    return c.json({ error: 'Invalid or expired resume token' }, 404)
+  }
 
   try {
-    const result = await withSessionContext(sessionId, async () => {
-      return graph.invoke({
-        query: body.query,
-        sessionId,
-        conversationId: body.conversationId,
-        iterations: 0,
-        errors: [],
-      })
-    })
+    // Stops the graph if the client disconnects or the run deadline passes
+    const result = await runChat(body, createRunSignal(c.req.raw.signal))
 
-    return c.json({
-      answer: result.finalAnswer,
-      queryType: result.queryType,
-      qualityScore: result.qualityScore,
-      sources: result.retrievedChunks?.map((chunk) => ({
-        chunkId: chunk.chunkId,
-        content: chunk.content.substring(0, 200),
-        score: chunk.score,
-      })),
-    })
+    if (result.status === 'cancelled') {
+      // 499: client closed the request (only logged, nobody is listening)
+      return c.json(
+        result,
+        result.cancelReason === 'deadline_exceeded' ? 504 : (499 as UnofficialStatusCode)
+      )
+    }
+    return c.json(result)
   } catch (error) {
     return c.json(
       { error: error instanceof Error ? error.message : 'Unknown error' },
@@ -54,30 +48,41 @@ chat.post('/', async (c) => {
 })
 
 chat.post('/stream', async (c) => {
-  const body = await c.req.json<{ query: string; conversationId?: string }>()
+  const body = await c.req.json<ChatRequestBody>()
+
+  const requestError = validateChatRequest(body)
+  if (requestError) {
+    return c.json({ error: requestError }, 400)
+  }
+
+  if (body.resumeToken && !(await isAwaitingClarification(body.resumeToken))) {
+    return c.json({ error: 'Invalid or expired resume token' }, 404)
+  }
+
+  const sessionId = sessionIdForRequest(body)
+
+  // The run outlives this connection: clients that drop resume via /api/v1/runs/:id/events,
+  // and the run is cancelled only if nobody reconnects within the grace period
+  const log = getRunRegistry().create()
+  void executeStreamRun(log, body, sessionId)
+
+  c.header('X-Run-Id', log.runId)
+  return streamSSE(c, (stream) => pipeRunEvents(stream, log))
+})
+
+chat.post('/batch', async (c) => {
+  const body = await c.req.json<BatchRequestBody>()
 
-  if (!body.query) {
-    return c.json({ error: 'Query is required' }, 400)
+  const requestError = validateBatchRequest(body)
+  if (requestError) {
+    return c.json({ error: requestError }, 400)
   }
 
-  const sessionId = resolveSessionId(body.conversationId)
-
-  return streamSSE(c, async (stream) => {
-    await withSessionContext(sessionId, async () => {
-      const eventStream = await graph.stream({
-        query: body.query,
-        sessionId,
-        iterations: 0,
-        errors: [],
-      })
-
-      for await (const event of eventStream) {
-        await stream.writeSSE({
-          data: JSON.stringify(event),
-          event: 'agent_update',
-          id: Date.now().toString(),
-        })
-      }
+  c.header('Content-Type', 'application/x-ndjson')
+  // One JSON line per item as it finishes, then a summary line
+  return stream(c, async (output) => {
+    await runBatch(body, (line) => output.writeln(JSON.stringify(line)).then(() => undefined), {
+      signal: c.req.raw.signal,
     })
   })
 })
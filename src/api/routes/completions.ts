@@ -0,0 +1,91 @@
+// src/api/routes/completions.ts
+import { Hono } from 'hono'
+import type { UnofficialStatusCode } from 'hono/utils/http-status'
+import { streamSSE } from 'hono/streaming'
+import { createRunSignal } from '@/core/cancellation'
+import { trackTokenUsage } from '@/core/llm'
+import { resolveWorkflowPolicy } from '@/core/policy'
+import {
+  DEFAULT_COMPLETIONS_MODEL,
+  completionError,
+  createCompletion,
+  createUsageChunk,
+  toConversation,
+  toCompletionChunks,
+  toRagResult,
+  validateCompletionRequest,
+  type ChatCompletionRequest,
+} from '../openai'
+import { resolveSessionId, runChat } from '../runner'
+import { executeStreamRun, getRunRegistry } from '../stream'
+
+const completions = new Hono()
+
+/**
+ * OpenAI Chat Completions facade. The conversation comes from `messages` on
+ * every request, so nothing is loaded from or saved to the conversation store.
+ * A clarification is answered by the next request rather than resumed, so
+ * paused runs are not kept.
+ */
+completions.post('/', async (c) => {
+  const body = await c.req.json<ChatCompletionRequest>()
+
+  const requestError = validateCompletionRequest(body)
+  if (requestError) {
+    return c.json(completionError(requestError), 400)
+  }
+
+  const { query, context } = toConversation(body.messages)
+  const fields = { id: `chatcmpl-${crypto.randomUUID()}`, model: body.model || DEFAULT_COMPLETIONS_MODEL }
+  const options = { context, resumable: false }
+
+  if (body.stream) {
+    const sessionId = resolveSessionId()
+    const log = getRunRegistry().create()
+    const run = trackTokenUsage(() => executeStreamRun(log, { query }, sessionId, options))
+
+    c.header('X-Run-Id', log.runId)
+    return streamSSE(c, async (stream) => {
+      const disconnected = new AbortController()
+      stream.onAbort(() => disconnected.abort())
+
+      // Completions requests carry no policy options, so every run gets the configured iterations
+      const { maxIterations } = resolveWorkflowPolicy()
+      const chunks = toCompletionChunks(log.follow(0, disconnected.signal), fields, maxIterations)
+      for await (const chunk of chunks) {
+        const data = chunk instanceof Error ? completionError(chunk.message, 'server_error') : chunk
+        await stream.writeSSE({ data: JSON.stringify(data) })
+      }
+      if (disconnected.signal.aborted) {
+        return
+      }
+      if (body.stream_options?.include_usage) {
+        const { usage } = await run
+        await stream.writeSSE({ data: JSON.stringify(createUsageChunk(fields, usage)) })
+      }
+      await stream.writeSSE({ data: '[DONE]' })
+    })
+  }
+
+  try {
+    const { result, usage } = await trackTokenUsage(() =>
+      runChat({ query }, createRunSignal(c.req.raw.signal), options)
+    )
+
+    if (result.status === 'cancelled') {
+      return c.json(
+        completionError(`Run cancelled: ${result.cancelReason}`, 'server_error'),
+        result.cancelReason === 'deadline_exceeded' ? 504 : (499 as UnofficialStatusCode)
+      )
+    }
+    const { content, rag } = toRagResult(result)
+    return c.json(createCompletion(fields.id, fields.model, content, rag, usage))
+  } catch (error) {
+    return c.json(
+      completionError(error instanceof Error ? error.message : 'Unknown error', 'server_error'),
+      500
+    )
+  }
+})
+
+export default completions
@@ -0,0 +1,109 @@
+// src/api/routes/conversations.ts
+import { Hono } from 'hono'
+import {
+  deleteConversationCheckpoints,
+  getCheckpointer,
+  getConversationCheckpoint,
+  listConversationCheckpoints,
+} from '@/core/checkpoint'
+import { exportFileName, getConversationStore, renderConversationMarkdown } from '@/core/conversation'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+const conversations = new Hono()
+
+/**
+ * Parse a non-negative integer query parameter, falling back when absent or invalid.
+ */
+function parseCount(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10)
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed
+}
+
+conversations.get('/', async (c) => {
+  const limit = Math.min(parseCount(c.req.query('limit'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+  const offset = parseCount(c.req.query('offset'), 0)
+
+  const items = await getConversationStore().listConversations({ limit, offset })
+  return c.json({ conversations: items, limit, offset })
+})
+
+conversations.get('/:id', async (c) => {
+  const conversation = await getConversationStore().getConversation(c.req.param('id'))
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+  return c.json(conversation)
+})
+
+conversations.patch('/:id', async (c) => {
+  const body = await c.req.json<{ title?: unknown }>().catch(() => ({}) as { title?: unknown })
+  const title = typeof body.title === 'string' ? body.title.trim() : ''
+  if (!title) {
+    return c.json({ error: 'Title is required' }, 400)
+  }
+
+  const store = getConversationStore()
+  if (!(await store.renameConversation(c.req.param('id'), title))) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  const conversation = await store.getConversation(c.req.param('id'))
+  return c.json(conversation)
+})
+
+conversations.delete('/:id', async (c) => {
+  const id = c.req.param('id')
+  const deletedTurns = await getConversationStore().deleteConversation(id)
+  // Checkpoints are keyed by run thread, so they are removed separately. Runs
+  // paused on clarification or served over /v1/chat/completions leave
+  // checkpoints without any saved turn
+  const deletedCheckpoints = await deleteConversationCheckpoints(getCheckpointer(), id)
+  if (!deletedTurns && !deletedCheckpoints) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+  return c.body(null, 204)
+})
+
+conversations.get('/:id/export', async (c) => {
+  const format = c.req.query('format') ?? 'json'
+  if (format !== 'json' && format !== 'markdown') {
+    return c.json({ error: 'Unsupported export format' }, 400)
+  }
+
+  const conversation = await getConversationStore().getConversation(c.req.param('id'))
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404)
+  }
+
+  const extension = format === 'json' ? 'json' : 'md'
+  c.header('Content-Disposition', `attachment; filename="${exportFileName(conversation, extension)}"`)
+
+  if (format === 'markdown') {
+    c.header('Content-Type', 'text/markdown; charset=utf-8')
+    return c.body(renderConversationMarkdown(conversation))
+  }
+  return c.json(conversation)
+})
+
+conversations.get('/:id/checkpoints', async (c) => {
+  const checkpoints = await listConversationCheckpoints(getCheckpointer(), c.req.param('id'))
+  return c.json({ checkpoints })
+})
+
+conversations.get('/:id/checkpoints/:checkpointId', async (c) => {
+  const checkpoint = await getConversationCheckpoint(
+    getCheckpointer(),
+    c.req.param('id'),
+    c.req.param('checkpointId')
+  )
+
+  if (!checkpoint) {
+    return c.json({ error: 'Checkpoint not found' }, 404)
+  }
+
+  return c.json(checkpoint)
+})
+
+export default conversations
@@ -0,0 +1,49 @@
+// src/api/routes/jobs.ts
+import { Hono } from 'hono'
+import { getJobManager, toJobResponse, validateCallbackUrl } from '../jobs'
+import { isAwaitingClarification, validateChatRequest, type ChatRequestBody } from '../runner'
+
+interface JobRequestBody extends ChatRequestBody {
+  /** Receives the finished job as a signed POST */
+  callbackUrl?: string
+}
+
+const jobs = new Hono()
+
+jobs.post('/', async (c) => {
+  const { callbackUrl, ...body } = await c.req.json<JobRequestBody>()
+
+  const requestError = validateChatRequest(body)
+  if (requestError) {
+    return c.json({ error: requestError }, 400)
+  }
+
+  if (callbackUrl !== undefined) {
+    const callbackError = validateCallbackUrl(callbackUrl)
+    if (callbackError) {
+      return c.json({ error: callbackError }, 400)
+    }
+    if (!getJobManager().acceptsCallbacks) {
+      return c.json({ error: 'Webhook callbacks are not configured on this server' }, 400)
+    }
+  }
+
+  if (body.resumeToken && !(await isAwaitingClarification(body.resumeToken))) {
+    return c.json({ error: 'Invalid or expired resume token' }, 404)
+  }
+
+  const job = getJobManager().submit(body, callbackUrl)
+
+  c.header('Location', `/api/v1/jobs/${job.id}`)
+  return c.json(toJobResponse(job), 202)
+})
+
+jobs.get('/:id', (c) => {
+  const job = getJobManager().get(c.req.param('id'))
+  if (!job) {
+    return c.json({ error: 'Job not found' }, 404)
+  }
+  return c.json(toJobResponse(job))
+})
+
+export default jobs
@@ -0,0 +1,41 @@
+// src/api/routes/mcp.ts
+import { Hono } from 'hono'
+import { ErrorCode, SUPPORTED_PROTOCOL_VERSIONS, errorResponse, getMcpServer } from '@/mcp'
+
+const mcp = new Hono()
+
+/**
+ * MCP streamable HTTP transport, stateless: every POST carries one JSON-RPC
+ * message and requests are answered with a single JSON response.
+ */
+mcp.post('/', async (c) => {
+  const version = c.req.header('MCP-Protocol-Version')
+  if (version && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    return c.json(
+      errorResponse(null, ErrorCode.InvalidRequest, `Unsupported protocol version: ${version}`),
+      400
+    )
+  }
+
+  let message: unknown
+  try {
+    message = await c.req.json()
+  } catch {
+    return c.json(errorResponse(null, ErrorCode.ParseError, 'Parse error'), 400)
+  }
+
+  // Client disconnects cancel the request, like notifications/cancelled on stdio
+  const response = await getMcpServer().handle(message, c.req.raw.signal)
+  if (!response) {
+    return c.body(null, 202)
+  }
+  return c.json(response)
+})
+
+// No server-initiated stream or sessions to open or close
+mcp.on(['GET', 'DELETE'], '/', (c) => {
+  c.header('Allow', 'POST')
+  return c.json({ error: 'Method not allowed' }, 405)
+})
+
+export default mcp
@@ -0,0 +1,52 @@
+// src/api/routes/runs.ts
+import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import { getJobManager } from '../jobs'
+import { getRunRegistry, pipeRunEvents } from '../stream'
+
+const runs = new Hono()
+
+/**
+ * Replay a streamed run's events after `Last-Event-ID` (or `?lastEventId=`),
+ * then follow it live until it finishes. EventSource sends the header on reconnect.
+ */
+runs.get('/:id/events', (c) => {
+  const log = getRunRegistry().get(c.req.param('id'))
+  if (!log) {
+    return c.json({ error: 'Run not found' }, 404)
+  }
+
+  const lastEventId = c.req.header('Last-Event-ID') ?? c.req.query('lastEventId') ?? '0'
+  const afterSeq = Number(lastEventId)
+  if (!Number.isInteger(afterSeq) || afterSeq < 0) {
+    return c.json({ error: 'Last-Event-ID must be a non-negative integer' }, 400)
+  }
+
+  c.header('X-Run-Id', log.runId)
+  return streamSSE(c, (stream) => pipeRunEvents(stream, log, afterSeq))
+})
+
+/**
+ * Cancel a streamed run. The run stops at its next LLM or search call and
+ * ends its stream with a done event whose status is cancelled. Only
+ * /chat/stream runs are registered here: blocking chat and batch runs are
+ * cancelled by closing the request, and jobs run until their deadline.
+ */
+runs.post('/:id/cancel', (c) => {
+  const runId = c.req.param('id')
+  const log = getRunRegistry().get(runId)
+  if (!log) {
+    if (getJobManager().get(runId)) {
+      return c.json({ error: 'Jobs cannot be cancelled; only streamed runs can' }, 409)
+    }
+    return c.json({ error: 'Run not found' }, 404)
+  }
+
+  if (!log.cancel('cancelled')) {
+    return c.json({ error: 'Run has already finished or is being cancelled' }, 409)
+  }
+
+  return c.json({ runId: log.runId, status: 'cancelling' }, 202)
+})
+
+export default runs
@@ -0,0 +1,283 @@
+// src/api/runner.ts
+import { Command, isInterrupted } from '@langchain/langgraph'
+import { createAgentGraph } from '@/agents/supervisor'
+import { cancelReasonOf, type CancelReason } from '@/core/cancellation'
+import { createThreadId, getCheckpointer, sessionIdFromThreadId } from '@/core/checkpoint'
+import { config } from '@/core/config'
+import {
+  HISTORY_TURNS,
+  buildConversationContext,
+  getConversationStore,
+} from '@/core/conversation'
+import { validateFilters, type MetadataFilters } from '@/core/filters'
+import {
+  resolveWorkflowPolicy,
+  validatePolicyOptions,
+  type WorkflowPolicy,
+  type WorkflowPolicyOptions,
+} from '@/core/policy'
+import type {
+  AgentStateValues,
+  ComparisonTable,
+  ConversationContext,
+  DraftCritique,
+  QueryType,
+  RetrievedChunk,
+  SubQuestion,
+} from '@/core/state'
+import { createSessionSpan, SemanticConventions, withSessionContext } from '@/core/telemetry'
+
+export interface ChatRequestBody {
+  query: string
+  conversationId?: string
+  /** Token from a needs_clarification response; `query` is then the user's answer */
+  resumeToken?: string
+  /** Per-request workflow policy overrides */
+  options?: WorkflowPolicyOptions
+  /** Metadata filters for every search, merged with those extracted from the query */
+  filters?: MetadataFilters
+}
+
+export interface RunChatOptions {
+  /**
+   * History supplied by the caller instead of loaded from the conversation store.
+   * The caller owns the conversation, so the turn is not saved either.
+   */
+  context?: ConversationContext
+  /**
+   * Whether the caller can resume a run paused for clarification. When false,
+   * the paused run's checkpoint thread is deleted instead of left waiting.
+   */
+  resumable?: boolean
+}
+
+export interface ResponseSource {
+  chunkId: string
+  content: string
+  score: number
+  rerankScore?: number
+  /** Neighbouring chunks merged into this source's content */
+  expandedChunkIds?: string[]
+}
+
+export interface CompletedChatResult {
+  status: 'completed'
+  conversationId: string
+  answer?: string
+  queryType?: QueryType
+  qualityScore?: number
+  sources?: ResponseSource[]
+  subQuestions?: SubQuestion[]
+  /** Comparison table of a comparative answer, with the chunks each cell cites */
+  comparison?: ComparisonTable
+  draftHistory?: DraftCritique[]
+  policy?: WorkflowPolicy
+  /** Metadata filters the searches applied */
+  filters?: MetadataFilters
+}
+
+export interface ClarificationChatResult {
+  status: 'needs_clarification'
+  conversationId: string
+  answer?: string
+  queryType?: QueryType
+  clarification: {
+    question?: string
+    options: string[]
+  }
+  resumeToken: string
+  policy?: WorkflowPolicy
+}
+
+export interface CancelledChatResult {
+  status: 'cancelled'
+  conversationId: string
+  cancelReason: CancelReason
+}
+
+export type ChatResult = CompletedChatResult | ClarificationChatResult | CancelledChatResult
+
+/**
+ * Graph shared by every entry point, so clarification resumes work across them.
+ */
+export const graph = createAgentGraph({ checkpointer: getCheckpointer() })
+
+/**
+ * Check the parts of a chat request that don't need the graph.
+ * Returns an error message, or undefined if the request is valid.
+ */
+export function validateChatRequest(body: Partial<ChatRequestBody>): string | undefined {
+  if (!body.query) {
+    return 'Query is required'
+  }
+  return validatePolicyOptions(body.options) ?? validateFilters(body.filters, config.filters.schema)
+}
+
+/**
+ * Get or generate session ID using hybrid approach.
+ * Uses conversationId if provided, otherwise generates a new UUID.
+ */
+export function resolveSessionId(conversationId?: string): string {
+  return conversationId || crypto.randomUUID()
+}
+
+/**
+ * Session a chat request runs in. A resumed run stays in the conversation it
+ * was started in.
+ */
+export function sessionIdForRequest(body: ChatRequestBody): string {
+  return body.resumeToken
+    ? sessionIdFromThreadId(body.resumeToken)
+    : resolveSessionId(body.conversationId)
+}
+
+/**
+ * Load the most recent turns of a conversation as agent context.
+ */
+async function loadConversationContext(sessionId: string): Promise<ConversationContext> {
+  const turns = await getConversationStore().getTurns(sessionId, HISTORY_TURNS)
+  return buildConversationContext(sessionId, turns)
+}
+
+/**
+ * Initial graph state for a new run.
+ */
+export async function createRunInput(
+  body: ChatRequestBody,
+  sessionId: string,
+  context?: ConversationContext
+): Promise<Partial<AgentStateValues>> {
+  return {
+    query: body.query,
+    sessionId,
+    conversationId: body.conversationId,
+    context: context ?? (await loadConversationContext(sessionId)),
+    policyOptions: body.options,
+    filters: body.filters,
+    // Refined by the classifier once the query type is known
+    policy: resolveWorkflowPolicy(undefined, body.options),
+    iterations: 0,
+    errors: [],
+  }
+}
+
+/**
+ * Sources as returned to clients, with content trimmed to a preview.
+ */
+export function toResponseSources(chunks?: RetrievedChunk[]): ResponseSource[] | undefined {
+  return chunks?.map((chunk) => ({
+    chunkId: chunk.chunkId,
+    content: chunk.content.substring(0, 200),
+    score: chunk.score,
+    rerankScore: chunk.rerankScore,
+    expandedChunkIds: chunk.expandedChunkIds,
+  }))
+}
+
+/**
+ * Record a completed run as a conversation turn.
+ */
+export async function saveTurn(sessionId: string, state: AgentStateValues): Promise<void> {
+  await getConversationStore().appendTurn(sessionId, {
+    query: state.originalQuery ?? state.query,
+    standaloneQuery: state.originalQuery ? state.query : undefined,
+    answer: state.finalAnswer ?? '',
+    queryType: state.queryType,
+    qualityScore: state.qualityScore,
+    retrievalScore: state.retrievalScore,
+    sources: (state.retrievedChunks ?? []).map((chunk) => ({
+      chunkId: chunk.chunkId,
+      content: chunk.content,
+      score: chunk.score,
+    })),
+  })
+}
+
+/**
+ * Check that a resume token points at a run paused on a clarification interrupt.
+ */
+export async function isAwaitingClarification(threadId: string): Promise<boolean> {
+  const snapshot = await graph.getState({ configurable: { thread_id: threadId } })
+  return snapshot.tasks.some((task) => task.interrupts.length > 0)
+}
+
+/**
+ * Run a validated chat request to completion and save the turn.
+ * Cancellation through `signal` resolves with a cancelled result; other failures throw.
+ */
+export async function runChat(
+  body: ChatRequestBody,
+  signal: AbortSignal,
+  options: RunChatOptions = {}
+): Promise<ChatResult> {
+  const sessionId = sessionIdForRequest(body)
+  // Each run gets its own thread; the thread id doubles as the resume token
+  const threadId = body.resumeToken || createThreadId(sessionId)
+  const config = { configurable: { thread_id: threadId }, signal }
+
+  let result: AgentStateValues
+  try {
+    result = await withSessionContext(sessionId, () =>
+      createSessionSpan('chat_session', {
+        [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+        'input.value': body.query.substring(0, 500),
+      }, async (span) => {
+        try {
+          const state = body.resumeToken
+            ? await graph.invoke(new Command({ resume: body.query }), config)
+            : await graph.invoke(await createRunInput(body, sessionId, options.context), config)
+          span?.setAttributes({ 'workflow.policy': JSON.stringify(state.policy) })
+          return state
+        } catch (error) {
+          const cancelReason = cancelReasonOf(signal)
+          if (cancelReason) {
+            span?.setAttributes({ 'workflow.status': 'cancelled', 'workflow.cancel_reason': cancelReason })
+          }
+          throw error
+        }
+      })
+    )
+  } catch (error) {
+    const cancelReason = cancelReasonOf(signal)
+    if (cancelReason) {
+      return { status: 'cancelled', conversationId: sessionId, cancelReason }
+    }
+    throw error
+  }
+
+  if (isInterrupted(result)) {
+    if (options.resumable === false) {
+      await getCheckpointer().deleteThread(threadId)
+    }
+    return {
+      status: 'needs_clarification',
+      conversationId: sessionId,
+      answer: result.clarification?.question,
+      queryType: result.queryType,
+      clarification: {
+        question: result.clarification?.question,
+        options: result.clarification?.options ?? [],
+      },
+      resumeToken: threadId,
+      policy: result.policy,
+    }
+  }
+
+  if (!options.context) {
+    await saveTurn(sessionId, result)
+  }
+
+  return {
+    status: 'completed',
+    conversationId: sessionId,
+    answer: result.finalAnswer,
+    queryType: result.queryType,
+    qualityScore: result.qualityScore,
+    sources: toResponseSources(result.retrievedChunks),
+    subQuestions: result.subQuestions,
+    comparison: result.comparisonTable,
+    draftHistory: result.draftHistory,
+    policy: result.policy,
+    filters: result.filters,
+  }
+}
@@ -6,6 +6,11 @@ import { errorHandler } from './middleware/error'
 import { apiKeyAuth } from './middleware/auth'
 import health from './routes/health'
 import chat from './routes/chat'
+import conversations from './routes/conversations'
+import runs from './routes/runs'
+import jobs from './routes/jobs'
+import completions from './routes/completions'
+import mcp from './routes/mcp'
 import { generateOpenApiDocument } from './openapi'
 import yaml from 'yaml'
 
@@ -33,5 +38,16 @@ app.route('/health', health)
 // API routes require authentication
 app.use('/api/v1/*', apiKeyAuth)
 app.route('/api/v1/chat', chat)
+app.route('/api/v1/conversations', conversations)
+app.route('/api/v1/runs', runs)
+app.route('/api/v1/jobs', jobs)
+
+// OpenAI-compatible API, at the path OpenAI clients expect under their base URL
+app.use('/v1/*', apiKeyAuth)
+app.route('/v1/chat/completions', completions)
+
+// Model Context Protocol, streamable HTTP transport
+app.use('/mcp', apiKeyAuth)
+app.route('/mcp', mcp)
 
 export default app
@@ -0,0 +1,139 @@
+// src/api/stream/__tests__/run-log.test.ts
+import { describe, test, expect } from 'bun:test'
+import { cancelReasonOf } from '@/core/cancellation'
+import { RunEventLog, RunRegistry, StreamEventSchema, type StreamEvent } from '../index'
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+  const collected: StreamEvent[] = []
+  for await (const event of events) {
+    collected.push(event)
+  }
+  return collected
+}
+
+describe('RunEventLog', () => {
+  test('wraps events in schema-valid envelopes with monotonic sequence ids', () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 1000 })
+
+    log.send('run_started', { conversationId: 'conv-1', query: 'What is AI?' })
+    const event = log.send('node_started', { node: 'classifier' })
+
+    expect(StreamEventSchema.parse(event)).toMatchObject({
+      version: 1,
+      seq: 2,
+      runId: 'run-1',
+      type: 'node_started',
+    })
+  })
+
+  test('keeps only the most recent events', () => {
+    const log = new RunEventLog('run-1', { maxEvents: 2, disconnectGraceMs: 1000 })
+
+    for (const delta of ['a', 'b', 'c']) {
+      log.send('answer_delta', { iteration: 1, delta })
+    }
+
+    expect(log.eventsAfter(0).map((e) => e.seq)).toEqual([2, 3])
+  })
+
+  test('follow replays missed events then continues live until closed', async () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 1000 })
+    log.send('node_started', { node: 'classifier' })
+    log.send('node_completed', { node: 'classifier' })
+
+    const following = collect(log.follow(1))
+    await Bun.sleep(1)
+    log.send('node_started', { node: 'retriever' })
+    log.close()
+
+    expect((await following).map((e) => e.seq)).toEqual([2, 3])
+  })
+
+  test('follow stops when the signal aborts', async () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 1000 })
+    const controller = new AbortController()
+
+    const following = collect(log.follow(0, controller.signal))
+    log.send('node_started', { node: 'classifier' })
+    await Bun.sleep(1)
+    controller.abort()
+
+    expect(await following).toHaveLength(1)
+    expect(log.finished).toBe(false)
+  })
+
+  test('sends heartbeats until closed', async () => {
+    const log = new RunEventLog('run-1', { maxEvents: 100, disconnectGraceMs: 1000 })
+
+    log.startHeartbeat(5)
+    await Bun.sleep(30)
+    log.close()
+    const count = log.eventsAfter(0).length
+    await Bun.sleep(20)
+
+    expect(count).toBeGreaterThan(0)
+    expect(log.eventsAfter(0).every((e) => e.type === 'heartbeat')).toBe(true)
+    expect(log.eventsAfter(0)).toHaveLength(count)
+  })
+})
+
+describe('RunEventLog cancellation', () => {
+  test('cancel aborts the run signal with the reason', () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 1000 })
+
+    expect(log.cancel('cancelled')).toBe(true)
+    expect(cancelReasonOf(log.signal)).toBe('cancelled')
+    expect(log.cancel('cancelled')).toBe(false)
+  })
+
+  test('cancel is a no-op once the run has finished', () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 1000 })
+    log.close()
+
+    expect(log.cancel('cancelled')).toBe(false)
+    expect(log.signal.aborted).toBe(false)
+  })
+
+  test('cancels the run when its last follower leaves and nobody returns', async () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 10 })
+    const controller = new AbortController()
+
+    const following = collect(log.follow(0, controller.signal))
+    controller.abort()
+    await following
+    await Bun.sleep(30)
+
+    expect(cancelReasonOf(log.signal)).toBe('client_disconnected')
+  })
+
+  test('keeps the run going when a client reconnects within the grace period', async () => {
+    const log = new RunEventLog('run-1', { maxEvents: 10, disconnectGraceMs: 20 })
+    const first = new AbortController()
+
+    const following = collect(log.follow(0, first.signal))
+    first.abort()
+    await following
+    const resumed = collect(log.follow(0))
+    await Bun.sleep(40)
+
+    expect(log.signal.aborted).toBe(false)
+    log.close()
+    await resumed
+  })
+})
+
+describe('RunRegistry', () => {
+  test('drops finished runs after the TTL and keeps running ones', () => {
+    const registry = new RunRegistry({ maxEvents: 10, disconnectGraceMs: 1000, ttlMs: 1000 })
+    const finished = registry.create()
+    const running = registry.create()
+    finished.close()
+
+    registry.sweep(Date.now() + 500)
+    expect(registry.get(finished.runId)).toBe(finished)
+
+    registry.sweep(Date.now() + 2000)
+    expect(registry.get(finished.runId)).toBeUndefined()
+    expect(registry.get(running.runId)).toBe(running)
+  })
+})
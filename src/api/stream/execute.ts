@@ -0,0 +1,174 @@
+// src/api/stream/execute.ts
+import { Command } from '@langchain/langgraph'
+import type { AnswerStreamEvent } from '@/agents/supervisor'
+import { cancelReasonOf, createRunSignal } from '@/core/cancellation'
+import { createThreadId, getCheckpointer } from '@/core/checkpoint'
+import type { AgentStateValues } from '@/core/state'
+import { createSessionSpan, SemanticConventions, withSessionContext } from '@/core/telemetry'
+import {
+  createRunInput,
+  graph,
+  saveTurn,
+  toResponseSources,
+  type ChatRequestBody,
+  type RunChatOptions,
+} from '../runner'
+import type { StreamEventData, StreamNode } from './protocol'
+import type { RunEventLog } from './run-log'
+
+/**
+ * Report a finished node with a summary of its output, plus the sources
+ * when it changed the retrieved chunks. Raw state is never sent to clients.
+ */
+function sendNodeCompleted(
+  log: RunEventLog,
+  node: string,
+  update: Partial<AgentStateValues> | undefined,
+  startedAt?: number
+): void {
+  // Interrupt markers are reported through the done event instead
+  if (node === '__interrupt__') {
+    return
+  }
+
+  log.send('node_completed', {
+    node: node as StreamNode,
+    durationMs: startedAt === undefined ? undefined : Date.now() - startedAt,
+    queryType: update?.queryType,
+    retrievalScore: update?.retrievalScore,
+    chunkCount: update?.retrievedChunks?.length,
+  })
+
+  if (update?.retrievedChunks) {
+    log.send('sources', { sources: toResponseSources(update.retrievedChunks) ?? [] })
+  }
+}
+
+/**
+ * Stream one graph run into the log, ending with a done event, and return
+ * its final state.
+ */
+async function streamGraph(
+  log: RunEventLog,
+  body: ChatRequestBody,
+  sessionId: string,
+  signal: AbortSignal,
+  options: RunChatOptions
+): Promise<AgentStateValues> {
+  // Each run gets its own thread; the thread id doubles as the resume token
+  const threadId = body.resumeToken || createThreadId(sessionId)
+  const config = { configurable: { thread_id: threadId, streamTokens: true }, signal }
+  log.send('run_started', { conversationId: sessionId, query: body.query })
+
+  // A resume answers the clarification question the paused run is waiting on
+  const eventStream = await graph.stream(
+    body.resumeToken
+      ? new Command({ resume: body.query })
+      : await createRunInput(body, sessionId, options.context),
+    { ...config, streamMode: ['tasks', 'updates', 'custom'] }
+  )
+
+  const startedAt = new Map<string, number>()
+  for await (const [mode, chunk] of eventStream) {
+    if (mode === 'tasks') {
+      // Task results duplicate the updates stream; only starts are forwarded
+      if ('input' in chunk) {
+        startedAt.set(chunk.name, Date.now())
+        log.send('node_started', { node: chunk.name as StreamNode })
+      }
+    } else if (mode === 'custom') {
+      const { type, ...data } = chunk as AnswerStreamEvent
+      log.send(type, data as StreamEventData<typeof type>)
+    } else {
+      for (const [node, update] of Object.entries(chunk as Record<string, Partial<AgentStateValues>>)) {
+        sendNodeCompleted(log, node, update, startedAt.get(node))
+      }
+    }
+  }
+
+  const snapshot = await graph.getState(config)
+  const state = snapshot.values as AgentStateValues
+  if (snapshot.next.length > 0) {
+    if (options.resumable === false) {
+      await getCheckpointer().deleteThread(threadId)
+    }
+    log.send('done', {
+      status: 'needs_clarification',
+      conversationId: sessionId,
+      answer: state.clarification?.question,
+      queryType: state.queryType,
+      clarification: {
+        question: state.clarification?.question ?? '',
+        options: state.clarification?.options ?? [],
+      },
+      resumeToken: threadId,
+      policy: state.policy,
+    })
+    return state
+  }
+
+  if (!options.context) {
+    await saveTurn(sessionId, state)
+  }
+  log.send('done', {
+    status: 'completed',
+    conversationId: sessionId,
+    answer: state.finalAnswer,
+    queryType: state.queryType,
+    qualityScore: state.qualityScore,
+    sources: toResponseSources(state.retrievedChunks),
+    subQuestions: state.subQuestions,
+    comparison: state.comparisonTable,
+    draftHistory: state.draftHistory,
+    policy: state.policy,
+    filters: state.filters,
+  })
+  return state
+}
+
+/**
+ * Run the graph for a streamed request, writing protocol events to the run's log.
+ * Never throws: failures and cancellations are reported as done events.
+ */
+export async function executeStreamRun(
+  log: RunEventLog,
+  body: ChatRequestBody,
+  sessionId: string,
+  options: RunChatOptions = {}
+): Promise<void> {
+  // Stops the graph on POST /runs/:id/cancel, an abandoned stream or the run deadline
+  const signal = createRunSignal(log.signal)
+  log.startHeartbeat()
+
+  try {
+    await withSessionContext(sessionId, () =>
+      createSessionSpan('chat_session', {
+        [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'chain',
+        'input.value': body.query.substring(0, 500),
+      }, async (span) => {
+        try {
+          const state = await streamGraph(log, body, sessionId, signal, options)
+          span?.setAttributes({ 'workflow.policy': JSON.stringify(state.policy) })
+        } catch (error) {
+          const cancelReason = cancelReasonOf(signal)
+          if (cancelReason) {
+            span?.setAttributes({ 'workflow.status': 'cancelled', 'workflow.cancel_reason': cancelReason })
+          }
+          throw error
+        }
+      })
+    )
+  } catch (error) {
+    const cancelReason = cancelReasonOf(signal)
+    if (cancelReason) {
+      log.send('done', { status: 'cancelled', conversationId: sessionId, cancelReason })
+    } else {
+      log.send('error', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+      log.send('done', { status: 'failed', conversationId: sessionId })
+    }
+  } finally {
+    log.close()
+  }
+}
@@ -0,0 +1,29 @@
+// src/api/stream/index.ts
+import type { SSEStreamingApi } from 'hono/streaming'
+import type { RunEventLog } from './run-log'
+
+export * from './protocol'
+export { executeStreamRun } from './execute'
+export * from './run-log'
+
+/**
+ * Write a run's events to an SSE connection, starting after `afterSeq`.
+ * Returns when the run finishes or the client disconnects; the run itself
+ * carries on either way.
+ */
+export async function pipeRunEvents(
+  stream: SSEStreamingApi,
+  log: RunEventLog,
+  afterSeq = 0
+): Promise<void> {
+  const disconnected = new AbortController()
+  stream.onAbort(() => disconnected.abort())
+
+  for await (const event of log.follow(afterSeq, disconnected.signal)) {
+    await stream.writeSSE({
+      event: event.type,
+      id: String(event.seq),
+      data: JSON.stringify(event),
+    })
+  }
+}
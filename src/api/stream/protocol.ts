@@ -0,0 +1,269 @@
+// src/api/stream/protocol.ts
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi'
+import { z } from 'zod'
+import { SEARCH_METHODS } from '@/core/config'
+
+extendZodWithOpenApi(z)
+
+/**
+ * Bumped on any breaking change to the event payloads below.
+ */
+export const STREAM_PROTOCOL_VERSION = 1
+
+export const StreamNodeSchema = z
+  .enum([
+    'contextualizer',
+    'classifier',
+    'extractor',
+    'retriever',
+    'decomposer',
+    'comparative_retriever',
+    're_retriever',
+    'clarifier',
+    'await_clarification',
+    'generator',
+    'critic',
+  ])
+  .openapi({ example: 'retriever' })
+
+const StreamSourceSchema = z.object({
+  chunkId: z.string().openapi({ example: 'chunk-abc' }),
+  content: z.string().openapi({ example: 'LiteLLM is a proxy...' }),
+  score: z.number().openapi({ example: 0.95 }),
+  rerankScore: z.number().optional().openapi({ example: 0.8 }),
+  expandedChunkIds: z.array(z.string()).optional().openapi({ example: ['chunk-abd'] }),
+})
+
+export const ComparisonTableSchema = z
+  .object({
+    entities: z.array(z.string()).openapi({ example: ['Postgres', 'MySQL'] }),
+    rows: z.array(
+      z.object({
+        aspect: z.string().openapi({ example: 'Licensing' }),
+        cells: z.array(
+          z.object({
+            entity: z.string().openapi({ example: 'Postgres' }),
+            text: z.string().openapi({ example: 'PostgreSQL License' }),
+            citations: z.array(z.string()).openapi({
+              description: 'Chunk ids of the sources the cell cites',
+              example: ['chunk-abc'],
+            }),
+          })
+        ),
+      })
+    ),
+  })
+  .openapi({
+    description: 'Comparison table of an answer to a comparative query, one cell per entity and aspect',
+  })
+
+export const WorkflowPolicySchema = z
+  .object({
+    maxIterations: z.number().openapi({ example: 2 }),
+    qualityThreshold: z.number().openapi({ example: 0.7 }),
+    topK: z.number().openapi({ example: 5 }),
+    minRetrievalScore: z.number().openapi({ example: 0.5 }),
+    minEvidenceScore: z.number().openapi({ example: 0.5 }),
+    maxRetrievalPasses: z.number().openapi({ example: 1 }),
+    retrievalMode: z.enum(['single', 'agentic']).openapi({ example: 'single' }),
+    maxRetrievalSteps: z.number().openapi({ example: 4 }),
+    retrievalStrategy: z.array(z.enum(SEARCH_METHODS)).openapi({ example: ['hybrid'] }),
+    reranker: z.enum(['none', 'llm', 'bm25']).openapi({ example: 'none' }),
+    rerankCandidates: z.number().openapi({ example: 20 }),
+    queryTransforms: z
+      .array(z.enum(['keywords', 'hyde', 'multi_query']))
+      .openapi({ example: ['keywords', 'hyde'] }),
+    queryVariants: z.number().openapi({ example: 3 }),
+    selection: z.object({
+      enabled: z.boolean().openapi({ example: true }),
+      mmrLambda: z.number().openapi({ example: 0.7 }),
+      similarity: z.enum(['lexical', 'embedding']).openapi({ example: 'lexical' }),
+      embeddingModel: z.string().openapi({ example: 'text-embedding-3-small' }),
+      duplicateThreshold: z.number().openapi({ example: 0.9 }),
+      maxChunksPerDocument: z.number().openapi({ example: 3 }),
+      documentKey: z.string().openapi({ example: 'source' }),
+      contextTokenBudget: z.number().openapi({ example: 6000 }),
+    }).optional().openapi({ description: 'Present when diversity selection is on for the run' }),
+    expansion: z.object({
+      window: z.number().openapi({ example: 1 }),
+      documentKey: z.string().openapi({ example: 'document_id' }),
+      positionKey: z.string().openapi({ example: 'chunk_index' }),
+    }),
+    models: z.object({
+      classifier: z.string().openapi({ example: 'gpt-5-mini' }),
+      generator: z.string().openapi({ example: 'gpt-4.1' }),
+      critic: z.string().openapi({ example: 'gpt-5-mini' }),
+      utility: z.string().openapi({ example: 'gpt-5-mini' }),
+    }),
+  })
+  .openapi({
+    description: 'Effective policy of the run: configured defaults, query type adjustments and request options',
+  })
+
+const FilterRangeSchema = z
+  .object({
+    gte: z.string().optional().openapi({ example: '2024-01-01' }),
+    lte: z.string().optional().openapi({ example: '2024-06-30' }),
+  })
+  .openapi({ description: 'Inclusive YYYY-MM-DD bounds on a date field; at least one is set' })
+
+export const MetadataFiltersSchema = z
+  .record(z.string(), z.union([z.string(), z.number(), z.boolean(), FilterRangeSchema]))
+  .openapi({
+    description:
+      'Metadata constraints applied to every search, checked against the server-configured filter schema ' +
+      '(unknown fields or wrong value types are rejected with 400). Date fields take a YYYY-MM-DD date ' +
+      'or a gte/lte range. Merged with filters extracted from the query; these win on the same field',
+    example: { doc_type: 'security', published: { gte: '2024-01-01' } },
+  })
+
+export const SubQuestionSchema = z.object({
+  question: z.string().openapi({ example: 'Who wrote the LiteLLM docs?' }),
+  resolvedQuery: z.string().openapi({ example: 'Who wrote the LiteLLM docs?' }),
+  answer: z.string().openapi({ example: 'The BerriAI team.' }),
+  chunkIds: z.array(z.string()).openapi({ example: ['chunk-abc'] }),
+})
+
+export const CritiqueScoresSchema = z.object({
+  relevance: z.number().openapi({ example: 0.9 }),
+  accuracy: z.number().openapi({ example: 0.85 }),
+  completeness: z.number().openapi({ example: 0.6 }),
+  clarity: z.number().openapi({ example: 0.9 }),
+  sourceUsage: z.number().openapi({ example: 0.8 }),
+})
+
+export const DraftCritiqueSchema = z.object({
+  iteration: z.number().openapi({ example: 1 }),
+  draft: z.string().openapi({ example: 'LiteLLM is a proxy [1].' }),
+  qualityScore: z.number().openapi({ example: 0.6 }),
+  scores: CritiqueScoresSchema,
+  refinementReason: z.string().optional().openapi({
+    example: 'Answer is incomplete and lacks sufficient detail',
+  }),
+})
+
+/**
+ * Wrap an event payload in the envelope every stream event shares.
+ */
+function streamEvent<T extends string, D extends z.ZodType>(type: T, data: D) {
+  return z.object({
+    version: z.literal(STREAM_PROTOCOL_VERSION),
+    seq: z.number().int().openapi({
+      description: 'Position of the event within the run, starting at 1. Also sent as the SSE id',
+      example: 4,
+    }),
+    runId: z.string().openapi({ example: '0b7e2c4a-3f1d-4e8a-9c6b-5d2f1a0e7b93' }),
+    type: z.literal(type),
+    timestamp: z.string().openapi({ example: '2025-03-01T12:00:00.000Z' }),
+    data,
+  })
+}
+
+export const RunStartedEventSchema = streamEvent(
+  'run_started',
+  z.object({
+    conversationId: z.string().openapi({ example: 'conv-123' }),
+    query: z.string().openapi({ example: 'What is LiteLLM?' }),
+  })
+)
+
+export const NodeStartedEventSchema = streamEvent(
+  'node_started',
+  z.object({
+    node: StreamNodeSchema,
+  })
+)
+
+export const NodeCompletedEventSchema = streamEvent(
+  'node_completed',
+  z.object({
+    node: StreamNodeSchema,
+    durationMs: z.number().optional().openapi({ example: 412 }),
+    queryType: z.string().optional().openapi({ example: 'factual' }),
+    retrievalScore: z.number().optional().openapi({ example: 0.82 }),
+    chunkCount: z.number().optional().openapi({ example: 5 }),
+  })
+)
+
+export const SourcesEventSchema = streamEvent(
+  'sources',
+  z.object({
+    sources: z.array(StreamSourceSchema),
+  })
+)
+
+export const AnswerDeltaEventSchema = streamEvent(
+  'answer_delta',
+  z.object({
+    iteration: z.number().int().openapi({ example: 1 }),
+    delta: z.string().openapi({ example: 'LiteLLM ' }),
+  })
+)
+
+export const CritiqueEventSchema = streamEvent(
+  'critique',
+  z.object({
+    iteration: z.number().int().openapi({ example: 1 }),
+    qualityScore: z.number().openapi({ example: 0.6 }),
+    scores: CritiqueScoresSchema,
+    refinementReason: z.string().optional(),
+    discardDraft: z.boolean().openapi({
+      description: 'The streamed draft for this iteration will be replaced; clear it',
+      example: true,
+    }),
+  })
+)
+
+export const ErrorEventSchema = streamEvent(
+  'error',
+  z.object({
+    message: z.string().openapi({ example: 'Hybrid search failed: Service Unavailable' }),
+  })
+)
+
+export const CancelReasonSchema = z.enum(['cancelled', 'client_disconnected', 'deadline_exceeded'])
+
+export const DoneEventSchema = streamEvent(
+  'done',
+  z.object({
+    status: z.enum(['completed', 'needs_clarification', 'failed', 'cancelled']),
+    conversationId: z.string().openapi({ example: 'conv-123' }),
+    /** Set when status is cancelled */
+    cancelReason: CancelReasonSchema.optional(),
+    answer: z.string().optional(),
+    queryType: z.string().optional(),
+    qualityScore: z.number().optional(),
+    sources: z.array(StreamSourceSchema).optional(),
+    subQuestions: z.array(SubQuestionSchema).optional(),
+    comparison: ComparisonTableSchema.optional(),
+    draftHistory: z.array(DraftCritiqueSchema).optional(),
+    clarification: z
+      .object({
+        question: z.string(),
+        options: z.array(z.string()),
+      })
+      .optional(),
+    resumeToken: z.string().optional(),
+    policy: WorkflowPolicySchema.optional(),
+    filters: MetadataFiltersSchema.optional(),
+  })
+)
+
+export const HeartbeatEventSchema = streamEvent('heartbeat', z.object({}))
+
+export const StreamEventSchema = z.discriminatedUnion('type', [
+  RunStartedEventSchema,
+  NodeStartedEventSchema,
+  NodeCompletedEventSchema,
+  SourcesEventSchema,
+  AnswerDeltaEventSchema,
+  CritiqueEventSchema,
+  ErrorEventSchema,
+  DoneEventSchema,
+  HeartbeatEventSchema,
+])
+
+export type StreamEvent = z.infer<typeof StreamEventSchema>
+export type StreamEventType = StreamEvent['type']
+export type StreamEventData<T extends StreamEventType> = Extract<StreamEvent, { type: T }>['data']
+export type StreamNode = z.infer<typeof StreamNodeSchema>
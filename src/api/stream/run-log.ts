@@ -0,0 +1,207 @@
+// src/api/stream/run-log.ts
+import { RunCancelledError, type CancelReason } from '@/core/cancellation'
+import { config } from '@/core/config'
+import {
+  STREAM_PROTOCOL_VERSION,
+  type StreamEvent,
+  type StreamEventData,
+  type StreamEventType,
+} from './protocol'
+
+/**
+ * Interval between heartbeat events, keeping idle proxies from closing the stream.
+ */
+export const HEARTBEAT_INTERVAL_MS = 15_000
+
+interface RunEventLogOptions {
+  maxEvents: number
+  /** How long the run keeps going once its last follower disconnects */
+  disconnectGraceMs: number
+}
+
+/**
+ * Bounded, append-only log of the protocol events for one run.
+ * The run writes to the log; any number of SSE connections follow it,
+ * so a client that drops can reconnect and replay what it missed.
+ * Runs nobody reconnects to within the grace period are cancelled.
+ */
+export class RunEventLog {
+  private seq = 0
+  private events: StreamEvent[] = []
+  private waiters = new Set<() => void>()
+  private heartbeat?: ReturnType<typeof setInterval>
+  private followers = 0
+  private abandonTimer?: ReturnType<typeof setTimeout>
+  private controller = new AbortController()
+  /** Set once the run has sent its last event */
+  finishedAt?: number
+
+  constructor(
+    readonly runId: string,
+    private options: RunEventLogOptions
+  ) {}
+
+  get finished(): boolean {
+    return this.finishedAt !== undefined
+  }
+
+  /**
+   * Aborts when the run is cancelled; pass it to the graph.
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  /**
+   * Ask the run to stop. Returns false if it already finished or was cancelled.
+   */
+  cancel(reason: CancelReason): boolean {
+    if (this.finished || this.signal.aborted) {
+      return false
+    }
+    this.controller.abort(new RunCancelledError(reason))
+    return true
+  }
+
+  send<T extends StreamEventType>(type: T, data: StreamEventData<T>): StreamEvent {
+    const event = {
+      version: STREAM_PROTOCOL_VERSION,
+      seq: ++this.seq,
+      runId: this.runId,
+      type,
+      timestamp: new Date().toISOString(),
+      data,
+    } as StreamEvent
+
+    this.events.push(event)
+    // Oldest events fall out first; a client that far behind resumes from the oldest kept
+    if (this.events.length > this.options.maxEvents) {
+      this.events.shift()
+    }
+    this.notify()
+    return event
+  }
+
+  /**
+   * Buffered events with a sequence id above `afterSeq`, oldest first.
+   */
+  eventsAfter(afterSeq: number): StreamEvent[] {
+    return this.events.filter((event) => event.seq > afterSeq)
+  }
+
+  /**
+   * Replay events after `afterSeq`, then yield live events until the run
+   * finishes or the signal aborts.
+   */
+  async *follow(afterSeq = 0, signal?: AbortSignal): AsyncGenerator<StreamEvent> {
+    this.followers++
+    clearTimeout(this.abandonTimer)
+    try {
+      let cursor = afterSeq
+      while (!signal?.aborted) {
+        const pending = this.eventsAfter(cursor)
+        for (const event of pending) {
+          yield event
+          cursor = event.seq
+        }
+        if (pending.length === 0) {
+          if (this.finished) {
+            return
+          }
+          await this.nextChange(signal)
+        }
+      }
+    } finally {
+      this.followers--
+      if (this.followers === 0 && !this.finished) {
+        this.abandonTimer = setTimeout(
+          () => this.cancel('client_disconnected'),
+          this.options.disconnectGraceMs
+        )
+      }
+    }
+  }
+
+  startHeartbeat(intervalMs = HEARTBEAT_INTERVAL_MS): void {
+    this.heartbeat = setInterval(() => {
+      this.send('heartbeat', {})
+    }, intervalMs)
+  }
+
+  /**
+   * Mark the run finished: stop the heartbeat and release followers once
+   * they have read the remaining events.
+   */
+  close(): void {
+    clearInterval(this.heartbeat)
+    clearTimeout(this.abandonTimer)
+    this.finishedAt = Date.now()
+    this.notify()
+  }
+
+  private nextChange(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        this.waiters.delete(wake)
+        signal?.removeEventListener('abort', wake)
+        resolve()
+      }
+      this.waiters.add(wake)
+      signal?.addEventListener('abort', wake, { once: true })
+    })
+  }
+
+  private notify(): void {
+    for (const wake of [...this.waiters]) {
+      wake()
+    }
+  }
+}
+
+/**
+ * Streamed runs by id. Finished runs are dropped once their TTL has passed.
+ */
+export class RunRegistry {
+  private runs = new Map<string, RunEventLog>()
+
+  constructor(private options: RunEventLogOptions & { ttlMs: number }) {}
+
+  create(): RunEventLog {
+    this.sweep()
+    const log = new RunEventLog(crypto.randomUUID(), this.options)
+    this.runs.set(log.runId, log)
+    return log
+  }
+
+  get(runId: string): RunEventLog | undefined {
+    this.sweep()
+    return this.runs.get(runId)
+  }
+
+  /**
+   * Drop finished runs older than the TTL. Runs still in progress are kept.
+   */
+  sweep(now = Date.now()): void {
+    for (const [runId, log] of this.runs) {
+      if (log.finishedAt !== undefined && now - log.finishedAt > this.options.ttlMs) {
+        this.runs.delete(runId)
+      }
+    }
+  }
+}
+
+let _registry: RunRegistry | undefined
+
+/**
+ * Shared run registry, created on first use.
+ */
+export function getRunRegistry(): RunRegistry {
+  if (!_registry) {
+    _registry = new RunRegistry({
+      maxEvents: config.runs.maxEvents,
+      ttlMs: config.runs.ttlSeconds * 1000,
+      disconnectGraceMs: config.runs.disconnectGraceSeconds * 1000,
+    })
+  }
+  return _registry
+}
@@ -0,0 +1,31 @@
+// src/core/cancellation/__tests__/cancellation.test.ts
+import { describe, test, expect } from 'bun:test'
+import { cancelReasonOf, createRunSignal, RunCancelledError } from '../index'
+
+describe('createRunSignal', () => {
+  test('aborts with deadline_exceeded once the deadline passes', async () => {
+    const signal = createRunSignal(undefined, 5)
+
+    expect(cancelReasonOf(signal)).toBeUndefined()
+    await Bun.sleep(20)
+    expect(cancelReasonOf(signal)).toBe('deadline_exceeded')
+  })
+
+  test('follows the source signal and keeps its cancel reason', () => {
+    const controller = new AbortController()
+    const signal = createRunSignal(controller.signal, 60_000)
+
+    controller.abort(new RunCancelledError('cancelled'))
+
+    expect(cancelReasonOf(signal)).toBe('cancelled')
+  })
+
+  test('treats a plain request abort as the client disconnecting', () => {
+    const controller = new AbortController()
+    const signal = createRunSignal(controller.signal, 60_000)
+
+    controller.abort()
+
+    expect(cancelReasonOf(signal)).toBe('client_disconnected')
+  })
+})
@@ -0,0 +1,49 @@
+// src/core/cancellation/index.ts
+import { config } from '../config'
+
+/**
+ * Why a run stopped before finishing.
+ * - `cancelled`: cancelled through the API
+ * - `client_disconnected`: the client went away and did not come back
+ * - `deadline_exceeded`: the run took longer than the configured deadline
+ */
+export type CancelReason = 'cancelled' | 'client_disconnected' | 'deadline_exceeded'
+
+/**
+ * Abort reason used when a run is cancelled on purpose.
+ */
+export class RunCancelledError extends Error {
+  constructor(readonly reason: CancelReason) {
+    super(`Run ${reason.replace('_', ' ')}`)
+    this.name = 'RunCancelledError'
+  }
+}
+
+/**
+ * Signal for one run: aborts when `signal` does or when the run deadline passes.
+ */
+export function createRunSignal(
+  signal?: AbortSignal,
+  timeoutMs = config.runs.timeoutSeconds * 1000
+): AbortSignal {
+  const deadline = AbortSignal.timeout(timeoutMs)
+  return signal ? AbortSignal.any([signal, deadline]) : deadline
+}
+
+/**
+ * Why a run signal aborted, or undefined while it is still live.
+ * Aborts without a RunCancelledError reason come from the request itself,
+ * which only happens when the client disconnects.
+ */
+export function cancelReasonOf(signal?: AbortSignal): CancelReason | undefined {
+  if (!signal?.aborted) {
+    return undefined
+  }
+  if (signal.reason instanceof RunCancelledError) {
+    return signal.reason.reason
+  }
+  if (signal.reason instanceof DOMException && signal.reason.name === 'TimeoutError') {
+    return 'deadline_exceeded'
+  }
+  return 'client_disconnected'
+}
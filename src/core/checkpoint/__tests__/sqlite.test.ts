@@ -0,0 +1,129 @@
+// src/core/checkpoint/__tests__/sqlite.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { Annotation, Command, StateGraph, START, END, interrupt } from '@langchain/langgraph'
+import {
+  MemoryCheckpointer,
+  SqliteSaver,
+  createThreadId,
+  sessionIdFromThreadId,
+  listConversationCheckpoints,
+  getConversationCheckpoint,
+  deleteConversationCheckpoints,
+} from '../index'
+
+const CounterState = Annotation.Root({
+  count: Annotation<number>,
+  answer: Annotation<string | undefined>,
+})
+
+function createCounterGraph(checkpointer: SqliteSaver | MemoryCheckpointer) {
+  return new StateGraph(CounterState)
+    .addNode('increment', (state) => ({ count: state.count + 1 }))
+    .addNode('ask', () => ({ answer: interrupt<string, string>('continue?') }))
+    .addEdge(START, 'increment')
+    .addEdge('increment', 'ask')
+    .addEdge('ask', END)
+    .compile({ checkpointer })
+}
+
+describe('SqliteSaver', () => {
+  let saver: SqliteSaver
+
+  beforeEach(() => {
+    saver = new SqliteSaver(':memory:')
+  })
+
+  test('persists state so an interrupted run can be resumed', async () => {
+    const graph = createCounterGraph(saver)
+    const config = { configurable: { thread_id: 'thread-1' } }
+
+    await graph.invoke({ count: 0 }, config)
+    const paused = await graph.getState(config)
+    expect(paused.values.count).toBe(1)
+    expect(paused.tasks[0].interrupts).toHaveLength(1)
+
+    const result = await graph.invoke(new Command({ resume: 'yes' }), config)
+    expect(result.answer).toBe('yes')
+  })
+
+  test('lists checkpoints newest first with limit', async () => {
+    const graph = createCounterGraph(saver)
+    const config = { configurable: { thread_id: 'thread-1' } }
+    await graph.invoke({ count: 0 }, config)
+
+    const all = []
+    for await (const tuple of saver.list(config)) all.push(tuple)
+    expect(all.length).toBeGreaterThan(1)
+    expect(all[0].checkpoint.id > all[1].checkpoint.id).toBe(true)
+
+    const limited = []
+    for await (const tuple of saver.list(config, { limit: 1 })) limited.push(tuple)
+    expect(limited).toHaveLength(1)
+  })
+
+  test('deleteThread removes all checkpoints of a thread', async () => {
+    const graph = createCounterGraph(saver)
+    await graph.invoke({ count: 0 }, { configurable: { thread_id: 'thread-1' } })
+    await graph.invoke({ count: 0 }, { configurable: { thread_id: 'thread-2' } })
+
+    await saver.deleteThread('thread-1')
+
+    expect(await saver.getTuple({ configurable: { thread_id: 'thread-1' } })).toBeUndefined()
+    expect(await saver.getTuple({ configurable: { thread_id: 'thread-2' } })).toBeDefined()
+  })
+
+  test('listThreadIds finds only the session\'s own threads', async () => {
+    const graph = createCounterGraph(saver)
+    const own = createThreadId('conv')
+    await graph.invoke({ count: 0 }, { configurable: { thread_id: own } })
+    await graph.invoke({ count: 0 }, { configurable: { thread_id: createThreadId('conv:nested') } })
+    await graph.invoke({ count: 0 }, { configurable: { thread_id: createThreadId('conv-other') } })
+
+    expect(await saver.listThreadIds('conv')).toEqual([own])
+  })
+})
+
+describe('Conversation checkpoints', () => {
+  test('thread ids round-trip to their session id', () => {
+    const threadId = createThreadId('conv:with:colons')
+    expect(sessionIdFromThreadId(threadId)).toBe('conv:with:colons')
+  })
+
+  test.each([
+    ['memory', () => new MemoryCheckpointer(100)],
+    ['sqlite', () => new SqliteSaver(':memory:')],
+  ])('lists, fetches and deletes only the conversation\'s own checkpoints (%s)', async (_, create) => {
+    const saver = create()
+    const graph = createCounterGraph(saver)
+    await graph.invoke({ count: 0 }, { configurable: { thread_id: createThreadId('conv-a') } })
+    await graph.invoke({ count: 5 }, { configurable: { thread_id: createThreadId('conv-b') } })
+
+    const checkpoints = await listConversationCheckpoints(saver, 'conv-a')
+    expect(checkpoints.length).toBeGreaterThan(0)
+    expect(checkpoints.every((c) => sessionIdFromThreadId(c.threadId) === 'conv-a')).toBe(true)
+
+    const detail = await getConversationCheckpoint(saver, 'conv-a', checkpoints[0].checkpointId)
+    expect(detail?.values.count).toBe(1)
+
+    expect(await getConversationCheckpoint(saver, 'conv-b', checkpoints[0].checkpointId)).toBeUndefined()
+
+    await deleteConversationCheckpoints(saver, 'conv-a')
+    expect(await listConversationCheckpoints(saver, 'conv-a')).toEqual([])
+    expect((await listConversationCheckpoints(saver, 'conv-b')).length).toBeGreaterThan(0)
+  })
+})
+
+describe('MemoryCheckpointer', () => {
+  test('evicts the least recently written threads beyond its cap', async () => {
+    const saver = new MemoryCheckpointer(2)
+    const graph = createCounterGraph(saver)
+    const threadIds = [createThreadId('conv'), createThreadId('conv'), createThreadId('conv')]
+    for (const threadId of threadIds) {
+      await graph.invoke({ count: 0 }, { configurable: { thread_id: threadId } })
+    }
+
+    expect(await saver.listThreadIds('conv')).toEqual(threadIds.slice(1))
+    expect(await saver.getTuple({ configurable: { thread_id: threadIds[0] } })).toBeUndefined()
+    expect(await saver.getTuple({ configurable: { thread_id: threadIds[2] } })).toBeDefined()
+  })
+})
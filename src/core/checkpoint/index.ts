@@ -0,0 +1,138 @@
+// src/core/checkpoint/index.ts
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import type { BaseCheckpointSaver, CheckpointTuple } from '@langchain/langgraph'
+import { config } from '../config'
+import { MemoryCheckpointer } from './memory'
+import { SqliteSaver } from './sqlite'
+
+export { SqliteSaver } from './sqlite'
+export { MemoryCheckpointer } from './memory'
+export { createThreadId, sessionIdFromThreadId } from './thread'
+
+/**
+ * Checkpoint saver that can find the runs of a conversation by thread id
+ * without loading every checkpoint in the store.
+ */
+export interface ConversationCheckpointer extends BaseCheckpointSaver {
+  listThreadIds(sessionId: string): Promise<string[]>
+}
+
+/**
+ * Summary of one saved graph checkpoint within a conversation.
+ */
+export interface CheckpointSummary {
+  threadId: string
+  checkpointId: string
+  parentCheckpointId?: string
+  step: number
+  source: string
+  createdAt: string
+  currentAgent?: string
+}
+
+export interface CheckpointDetail extends CheckpointSummary {
+  values: Record<string, unknown>
+}
+
+let _checkpointer: ConversationCheckpointer | undefined
+
+/**
+ * Shared checkpointer for the configured backend, created on first use.
+ */
+export function getCheckpointer(): ConversationCheckpointer {
+  if (!_checkpointer) {
+    if (config.checkpoint.backend === 'sqlite') {
+      mkdirSync(dirname(config.checkpoint.sqlitePath), { recursive: true })
+      _checkpointer = new SqliteSaver(config.checkpoint.sqlitePath)
+    } else {
+      _checkpointer = new MemoryCheckpointer(config.checkpoint.memoryMaxThreads)
+    }
+  }
+  return _checkpointer
+}
+
+function toSummary(tuple: CheckpointTuple): CheckpointSummary {
+  const values = tuple.checkpoint.channel_values as Record<string, unknown>
+  return {
+    threadId: tuple.config.configurable?.thread_id as string,
+    checkpointId: tuple.checkpoint.id,
+    parentCheckpointId: tuple.parentConfig?.configurable?.checkpoint_id as string | undefined,
+    step: tuple.metadata?.step ?? -1,
+    source: tuple.metadata?.source ?? 'unknown',
+    createdAt: tuple.checkpoint.ts,
+    currentAgent: values.currentAgent as string | undefined,
+  }
+}
+
+async function collectConversationTuples(
+  checkpointer: ConversationCheckpointer,
+  sessionId: string
+): Promise<CheckpointTuple[]> {
+  const tuples: CheckpointTuple[] = []
+  for (const threadId of await checkpointer.listThreadIds(sessionId)) {
+    // Only top-level checkpoints; subgraph checkpoints live in their own namespaces
+    for await (const tuple of checkpointer.list({ configurable: { thread_id: threadId, checkpoint_ns: '' } })) {
+      tuples.push(tuple)
+    }
+  }
+  return tuples.sort((a, b) => b.checkpoint.ts.localeCompare(a.checkpoint.ts))
+}
+
+/**
+ * List every checkpoint saved for a conversation, newest first.
+ */
+export async function listConversationCheckpoints(
+  checkpointer: ConversationCheckpointer,
+  sessionId: string
+): Promise<CheckpointSummary[]> {
+  const tuples = await collectConversationTuples(checkpointer, sessionId)
+  return tuples.map(toSummary)
+}
+
+/**
+ * Fetch one checkpoint of a conversation with its full state values.
+ * Returns undefined if the checkpoint doesn't exist or belongs to another conversation.
+ */
+export async function getConversationCheckpoint(
+  checkpointer: ConversationCheckpointer,
+  sessionId: string,
+  checkpointId: string
+): Promise<CheckpointDetail | undefined> {
+  let tuple: CheckpointTuple | undefined
+  for (const threadId of await checkpointer.listThreadIds(sessionId)) {
+    tuple = await checkpointer.getTuple({
+      configurable: { thread_id: threadId, checkpoint_ns: '', checkpoint_id: checkpointId },
+    })
+    if (tuple) {
+      break
+    }
+  }
+  if (!tuple) {
+    return undefined
+  }
+
+  // Drop LangGraph's internal channels (branch markers, __start__, etc.)
+  const values = Object.fromEntries(
+    Object.entries(tuple.checkpoint.channel_values as Record<string, unknown>).filter(
+      ([key]) => !key.startsWith('__') && !key.startsWith('branch:')
+    )
+  )
+
+  return { ...toSummary(tuple), values }
+}
+
+/**
+ * Delete every checkpoint of a conversation, across all of its runs.
+ * Returns whether the conversation had any.
+ */
+export async function deleteConversationCheckpoints(
+  checkpointer: ConversationCheckpointer,
+  sessionId: string
+): Promise<boolean> {
+  const threadIds = await checkpointer.listThreadIds(sessionId)
+  for (const threadId of threadIds) {
+    await checkpointer.deleteThread(threadId)
+  }
+  return threadIds.length > 0
+}
@@ -0,0 +1,62 @@
+// src/core/checkpoint/memory.ts
+import { MemorySaver } from '@langchain/langgraph'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import type { Checkpoint, CheckpointMetadata, SerializerProtocol } from '@langchain/langgraph-checkpoint'
+import { sessionIdFromThreadId } from './thread'
+
+/**
+ * In-process checkpoint saver that indexes threads by conversation and keeps
+ * at most `maxThreads` of them, evicting the least recently written first.
+ */
+export class MemoryCheckpointer extends MemorySaver {
+  // Insertion order doubles as recency: a thread is moved to the end on every put
+  private threads = new Set<string>()
+  private sessions = new Map<string, Set<string>>()
+
+  constructor(
+    private maxThreads: number,
+    serde?: SerializerProtocol
+  ) {
+    super(serde)
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const saved = await super.put(config, checkpoint, metadata)
+    const threadId = config.configurable?.thread_id as string
+
+    this.threads.delete(threadId)
+    this.threads.add(threadId)
+    const sessionId = sessionIdFromThreadId(threadId)
+    this.sessions.set(sessionId, (this.sessions.get(sessionId) ?? new Set()).add(threadId))
+
+    for (const oldest of this.threads) {
+      if (this.threads.size <= this.maxThreads) {
+        break
+      }
+      await this.deleteThread(oldest)
+    }
+    return saved
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await super.deleteThread(threadId)
+    this.threads.delete(threadId)
+    const sessionId = sessionIdFromThreadId(threadId)
+    const threadIds = this.sessions.get(sessionId)
+    threadIds?.delete(threadId)
+    if (threadIds?.size === 0) {
+      this.sessions.delete(sessionId)
+    }
+  }
+
+  /**
+   * Thread ids of a conversation's runs.
+   */
+  async listThreadIds(sessionId: string): Promise<string[]> {
+    return [...(this.sessions.get(sessionId) ?? [])]
+  }
+}
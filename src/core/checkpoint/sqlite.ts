@@ -0,0 +1,310 @@
+// src/core/checkpoint/sqlite.ts
+import { Database } from 'bun:sqlite'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import {
+  BaseCheckpointSaver,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+  type SerializerProtocol,
+} from '@langchain/langgraph-checkpoint'
+import { sessionIdFromThreadId } from './thread'
+
+interface CheckpointRow {
+  thread_id: string
+  checkpoint_ns: string
+  checkpoint_id: string
+  parent_checkpoint_id: string | null
+  type: string
+  checkpoint: Uint8Array
+  metadata: Uint8Array
+}
+
+interface WriteRow {
+  task_id: string
+  channel: string
+  type: string
+  value: Uint8Array
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoints (
+  thread_id TEXT NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  parent_checkpoint_id TEXT,
+  type TEXT NOT NULL,
+  checkpoint BLOB NOT NULL,
+  metadata BLOB NOT NULL,
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id)
+);
+CREATE TABLE IF NOT EXISTS writes (
+  thread_id TEXT NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  idx INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  type TEXT NOT NULL,
+  value BLOB NOT NULL,
+  PRIMARY KEY (thread_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+`
+
+/**
+ * LangGraph checkpoint saver backed by Bun's built-in SQLite driver.
+ * Pass ':memory:' as the path for a throwaway database.
+ */
+export class SqliteSaver extends BaseCheckpointSaver {
+  private db: Database
+
+  constructor(path: string, serde?: SerializerProtocol) {
+    super(serde)
+    this.db = new Database(path, { create: true })
+    this.db.exec('PRAGMA journal_mode = WAL;')
+    this.db.exec(SCHEMA)
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id as string | undefined
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? ''
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined
+    if (!threadId) {
+      return undefined
+    }
+
+    const row = checkpointId
+      ? this.db
+          .query<CheckpointRow, [string, string, string]>(
+            'SELECT * FROM checkpoints WHERE thread_id = ? AND checkpoint_ns = ? AND checkpoint_id = ?'
+          )
+          .get(threadId, checkpointNs, checkpointId)
+      : this.db
+          .query<CheckpointRow, [string, string]>(
+            'SELECT * FROM checkpoints WHERE thread_id = ? AND checkpoint_ns = ? ORDER BY checkpoint_id DESC LIMIT 1'
+          )
+          .get(threadId, checkpointNs)
+
+    return row ? this.toTuple(row) : undefined
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    const { limit, before, filter } = options ?? {}
+    const clauses: string[] = []
+    const params: string[] = []
+
+    const threadId = config.configurable?.thread_id as string | undefined
+    const checkpointNs = config.configurable?.checkpoint_ns as string | undefined
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined
+    const beforeId = before?.configurable?.checkpoint_id as string | undefined
+
+    if (threadId) {
+      clauses.push('thread_id = ?')
+      params.push(threadId)
+    }
+    if (checkpointNs !== undefined) {
+      clauses.push('checkpoint_ns = ?')
+      params.push(checkpointNs)
+    }
+    if (checkpointId) {
+      clauses.push('checkpoint_id = ?')
+      params.push(checkpointId)
+    }
+    if (beforeId) {
+      clauses.push('checkpoint_id < ?')
+      params.push(beforeId)
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const rows = this.db
+      .query<CheckpointRow, string[]>(
+        `SELECT * FROM checkpoints ${where} ORDER BY thread_id, checkpoint_id DESC`
+      )
+      .all(...params)
+
+    let remaining = limit
+    for (const row of rows) {
+      const tuple = await this.toTuple(row)
+      // Metadata is stored serialized, so filters are matched after loading
+      if (
+        filter &&
+        !Object.entries(filter).every(
+          ([key, value]) => (tuple.metadata as Record<string, unknown>)?.[key] === value
+        )
+      ) {
+        continue
+      }
+      if (remaining !== undefined) {
+        if (remaining <= 0) break
+        remaining -= 1
+      }
+      yield tuple
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id as string | undefined
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? ''
+    if (!threadId) {
+      throw new Error('Failed to put checkpoint: config is missing configurable.thread_id')
+    }
+
+    const [type, serializedCheckpoint] = await this.serde.dumpsTyped(copyCheckpoint(checkpoint))
+    const [, serializedMetadata] = await this.serde.dumpsTyped(metadata)
+
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO checkpoints
+          (thread_id, checkpoint_ns, checkpoint_id, parent_checkpoint_id, type, checkpoint, metadata)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        threadId,
+        checkpointNs,
+        checkpoint.id,
+        (config.configurable?.checkpoint_id as string | undefined) ?? null,
+        type,
+        serializedCheckpoint,
+        serializedMetadata
+      )
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    }
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id as string | undefined
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? ''
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined
+    if (!threadId || !checkpointId) {
+      throw new Error(
+        'Failed to put writes: config is missing configurable.thread_id or configurable.checkpoint_id'
+      )
+    }
+
+    const serialized = await Promise.all(
+      writes.map(async ([channel, value], idx) => {
+        const [type, data] = await this.serde.dumpsTyped(value)
+        return { channel, idx: WRITES_IDX_MAP[channel] ?? idx, type, data }
+      })
+    )
+
+    // Special writes (negative idx) replace earlier ones; regular writes are never overwritten
+    const upsert = this.db.query(
+      `INSERT OR REPLACE INTO writes
+        (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    const insert = this.db.query(
+      `INSERT OR IGNORE INTO writes
+        (thread_id, checkpoint_ns, checkpoint_id, task_id, idx, channel, type, value)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    this.db.transaction(() => {
+      for (const write of serialized) {
+        const statement = write.idx < 0 ? upsert : insert
+        statement.run(
+          threadId,
+          checkpointNs,
+          checkpointId,
+          taskId,
+          write.idx,
+          write.channel,
+          write.type,
+          write.data
+        )
+      }
+    })()
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.query('DELETE FROM checkpoints WHERE thread_id = ?').run(threadId)
+      this.db.query('DELETE FROM writes WHERE thread_id = ?').run(threadId)
+    })()
+  }
+
+  /**
+   * Thread ids of a conversation's runs. Thread ids start with the session
+   * id and a colon, so a range over the primary key finds them without
+   * loading any checkpoint.
+   */
+  async listThreadIds(sessionId: string): Promise<string[]> {
+    const rows = this.db
+      .query<{ thread_id: string }, [string, string]>(
+        'SELECT DISTINCT thread_id FROM checkpoints WHERE thread_id >= ? AND thread_id < ?'
+      )
+      .all(`${sessionId}:`, `${sessionId};`)
+    // A session id containing colons shares its prefix with longer ones
+    return rows
+      .map((row) => row.thread_id)
+      .filter((threadId) => sessionIdFromThreadId(threadId) === sessionId)
+  }
+
+  /**
+   * Close the underlying database handle.
+   */
+  close(): void {
+    this.db.close()
+  }
+
+  private async toTuple(row: CheckpointRow): Promise<CheckpointTuple> {
+    const writeRows = this.db
+      .query<WriteRow, [string, string, string]>(
+        `SELECT task_id, channel, type, value FROM writes
+          WHERE thread_id = ? AND checkpoint_ns = ? AND checkpoint_id = ?
+          ORDER BY task_id, idx`
+      )
+      .all(row.thread_id, row.checkpoint_ns, row.checkpoint_id)
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writeRows.map(async (w) => [
+        w.task_id,
+        w.channel,
+        await this.serde.loadsTyped(w.type, w.value),
+      ] as CheckpointPendingWrite)
+    )
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.checkpoint_id,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, row.checkpoint),
+      metadata: await this.serde.loadsTyped('json', row.metadata),
+      pendingWrites,
+    }
+
+    if (row.parent_checkpoint_id) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.thread_id,
+          checkpoint_ns: row.checkpoint_ns,
+          checkpoint_id: row.parent_checkpoint_id,
+        },
+      }
+    }
+
+    return tuple
+  }
+}
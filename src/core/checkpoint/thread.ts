@@ -0,0 +1,17 @@
+// src/core/checkpoint/thread.ts
+/**
+ * Create a thread id for a new run in a conversation.
+ * Runs get their own thread so state never leaks between turns; the
+ * session id prefix lets us find every run of a conversation later.
+ */
+export function createThreadId(sessionId: string): string {
+  return `${sessionId}:${crypto.randomUUID()}`
+}
+
+/**
+ * Recover the session id from a thread id created by createThreadId.
+ */
+export function sessionIdFromThreadId(threadId: string): string {
+  const separator = threadId.lastIndexOf(':')
+  return separator === -1 ? threadId : threadId.slice(0, separator)
+}
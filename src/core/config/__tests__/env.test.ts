@@ -198,4 +198,280 @@ describe('Config Object', () => {
 
     expect(() => config.server).toThrow('Invalid PORT')
   })
+
+  test('config defaults to the in-memory checkpoint backend', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    delete process.env.CHECKPOINT_BACKEND
+
+    const { config } = await import('../env')
+
+    expect(config.checkpoint.backend).toBe('memory')
+    expect(config.checkpoint.memoryMaxThreads).toBe(1000)
+  })
+
+  test('config throws on unknown CHECKPOINT_BACKEND', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.CHECKPOINT_BACKEND = 'redis'
+
+    const { config } = await import('../env')
+
+    expect(() => config.checkpoint).toThrow('Invalid CHECKPOINT_BACKEND')
+    delete process.env.CHECKPOINT_BACKEND
+  })
+
+  test('config uses default re-retrieval thresholds', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+
+    const { config } = await import('../env')
+
+    expect(config.retrieval).toEqual({
+      minScore: 0.5,
+      minEvidenceScore: 0.5,
+      maxPasses: 1,
+      mode: 'single',
+      strategy: 'auto',
+      agentMaxSteps: 4,
+      reranker: 'none',
+      rerankCandidates: 20,
+      queryTransforms: [],
+      queryVariants: 3,
+    })
+  })
+
+  test('config parses RETRIEVAL_STRATEGY as a list of search methods', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.RETRIEVAL_STRATEGY = 'hybrid, semantic,hybrid'
+
+    const { config } = await import('../env')
+
+    expect(config.retrieval.strategy).toEqual(['hybrid', 'semantic'])
+    delete process.env.RETRIEVAL_STRATEGY
+  })
+
+  test('config throws on unknown RETRIEVAL_STRATEGY method', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.RETRIEVAL_STRATEGY = 'hybrid,grep'
+
+    const { config } = await import('../env')
+
+    expect(() => config.retrieval).toThrow('Invalid RETRIEVAL_STRATEGY')
+    delete process.env.RETRIEVAL_STRATEGY
+  })
+
+  test('config throws on unknown RETRIEVAL_MODE', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.RETRIEVAL_MODE = 'psychic'
+
+    const { config } = await import('../env')
+
+    expect(() => config.retrieval).toThrow('Invalid RETRIEVAL_MODE')
+    delete process.env.RETRIEVAL_MODE
+  })
+
+  test('config parses RETRIEVAL_QUERY_TRANSFORMS and rejects unknown ones', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.RETRIEVAL_QUERY_TRANSFORMS = 'keywords, hyde'
+
+    const { config } = await import('../env')
+    expect(config.retrieval.queryTransforms).toEqual(['keywords', 'hyde'])
+
+    delete require.cache[modulePath]
+    process.env.RETRIEVAL_QUERY_TRANSFORMS = 'keywords,stemming'
+    const { config: invalid } = await import('../env')
+    expect(() => invalid.retrieval).toThrow('Invalid RETRIEVAL_QUERY_TRANSFORMS')
+    delete process.env.RETRIEVAL_QUERY_TRANSFORMS
+  })
+
+  test('config parses FILTER_SCHEMA and rejects malformed fields', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.FILTER_SCHEMA =
+      '{"year": {"type": "number"}, "doc_type": {"type": "string", "values": ["guide"]}, "published": {"type": "date"}}'
+
+    const { config } = await import('../env')
+    expect(config.filters.schema).toEqual({
+      year: { type: 'number' },
+      doc_type: { type: 'string', values: ['guide'] },
+      published: { type: 'date' },
+    })
+
+    delete require.cache[modulePath]
+    process.env.FILTER_SCHEMA = '{"year": {"type": "timestamp"}}'
+    const { config: invalid } = await import('../env')
+    expect(() => invalid.filters).toThrow('Invalid FILTER_SCHEMA')
+    delete process.env.FILTER_SCHEMA
+  })
+
+  test('config throws on unknown RETRIEVAL_RERANKER', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.RETRIEVAL_RERANKER = 'cohere'
+
+    const { config } = await import('../env')
+
+    expect(() => config.retrieval).toThrow('Invalid RETRIEVAL_RERANKER')
+    delete process.env.RETRIEVAL_RERANKER
+  })
+
+  test('config throws on out-of-range RETRIEVAL_MIN_SCORE', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.RETRIEVAL_MIN_SCORE = '1.5'
+
+    const { config } = await import('../env')
+
+    expect(() => config.retrieval).toThrow('Invalid RETRIEVAL_MIN_SCORE')
+    delete process.env.RETRIEVAL_MIN_SCORE
+  })
+
+  test('config throws when a workflow default exceeds its limit', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.WORKFLOW_TOP_K = '12'
+    process.env.WORKFLOW_TOP_K_LIMIT = '10'
+
+    const { config } = await import('../env')
+
+    expect(() => config.workflow).toThrow('Invalid WORKFLOW_TOP_K: must not exceed WORKFLOW_TOP_K_LIMIT (10)')
+    delete process.env.WORKFLOW_TOP_K
+    delete process.env.WORKFLOW_TOP_K_LIMIT
+  })
+
+  test('config leaves chunk selection off by default', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+
+    const { config } = await import('../env')
+
+    expect(config.selection).toEqual({
+      enabled: false,
+      mmrLambda: 0.7,
+      similarity: 'lexical',
+      embeddingModel: 'text-embedding-3-small',
+      duplicateThreshold: 0.9,
+      maxChunksPerDocument: 3,
+      documentKey: 'source',
+      contextTokenBudget: 6000,
+    })
+  })
+
+  test('config leaves neighbour expansion off by default', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+
+    const { config } = await import('../env')
+
+    expect(config.expansion).toEqual({
+      window: 0,
+      documentKey: 'document_id',
+      positionKey: 'chunk_index',
+    })
+  })
+
+  test('config throws on unknown SELECTION_SIMILARITY', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+    process.env.SELECTION_SIMILARITY = 'levenshtein'
+
+    const { config } = await import('../env')
+
+    expect(() => config.selection).toThrow('Invalid SELECTION_SIMILARITY')
+    delete process.env.SELECTION_SIMILARITY
+  })
+
+  test('config uses default run replay settings', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+
+    const { config } = await import('../env')
+
+    expect(config.runs).toEqual({
+      maxEvents: 1000,
+      ttlSeconds: 600,
+      timeoutSeconds: 120,
+      disconnectGraceSeconds: 30,
+    })
+  })
+
+  test('config uses default job, batch and webhook settings', async () => {
+    // Clear module cache
+    const modulePath = require.resolve('../env')
+    delete require.cache[modulePath]
+
+    process.env.LLM_API_KEY = 'test-api-key'
+    process.env.LLM_BASE_URL = 'https://api.example.com'
+
+    const { config } = await import('../env')
+
+    expect(config.jobs).toEqual({ concurrency: 2, ttlSeconds: 3600 })
+    expect(config.batch).toEqual({ maxItems: 100, concurrency: 4 })
+    expect(config.webhook).toMatchObject({ maxAttempts: 5, retryBaseMs: 1000, timeoutMs: 10000 })
+  })
 })
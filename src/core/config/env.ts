@@ -41,6 +41,259 @@ function validatePort(value: number, varName: string): number {
   return value
 }
 
+/**
+ * Validates that a score threshold lies between 0 and 1.
+ */
+function validateScore(value: number, varName: string): number {
+  if (Number.isNaN(value) || value < 0 || value > 1) {
+    throw new Error(`Invalid ${varName}: must be a number between 0 and 1, got ${value}`)
+  }
+  return value
+}
+
+/**
+ * Validates that a count is an integer of at least `min`.
+ */
+function validateCount(value: number, varName: string, min = 0): number {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Invalid ${varName}: must be an integer of at least ${min}, got ${value}`)
+  }
+  return value
+}
+
+/**
+ * Validates that a configured default does not exceed the limit on per-request overrides.
+ */
+function validateWithinLimit(value: number, varName: string, limit: number, limitName: string): number {
+  if (value > limit) {
+    throw new Error(`Invalid ${varName}: must not exceed ${limitName} (${limit}), got ${value}`)
+  }
+  return value
+}
+
+const STORAGE_BACKENDS = ['memory', 'sqlite'] as const
+
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number]
+
+/**
+ * Validates that a storage backend name is supported.
+ */
+function validateStorageBackend(value: string, varName: string): StorageBackend {
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new Error(
+      `Invalid ${varName}: must be one of ${STORAGE_BACKENDS.join(', ')}, got ${value}`
+    )
+  }
+  return value as StorageBackend
+}
+
+const RETRIEVAL_MODES = ['single', 'agentic'] as const
+
+/**
+ * single: one hybrid search per retrieval. agentic: an LLM runs searches
+ * with its own query rewrites until it has enough evidence.
+ */
+export type RetrievalMode = (typeof RETRIEVAL_MODES)[number]
+
+/**
+ * Validates that a retrieval mode name is supported.
+ */
+function validateRetrievalMode(value: string, varName: string): RetrievalMode {
+  if (!RETRIEVAL_MODES.includes(value as RetrievalMode)) {
+    throw new Error(
+      `Invalid ${varName}: must be one of ${RETRIEVAL_MODES.join(', ')}, got ${value}`
+    )
+  }
+  return value as RetrievalMode
+}
+
+export const SEARCH_METHODS = [
+  'hybrid',
+  'hybrid_rrf',
+  'semantic',
+  'text',
+  'rag_fast',
+  'rag_balanced',
+  'rag_thorough',
+] as const
+
+/**
+ * Backend call behind one search: hybrid search with weighted-sum or
+ * reciprocal rank fusion, semantic or full-text search alone, or the RAG
+ * pipeline's query endpoint with its fast, balanced or thorough strategy.
+ */
+export type SearchMethod = (typeof SEARCH_METHODS)[number]
+
+/**
+ * Validates a retrieval strategy: `auto` to pick search methods by query
+ * type, or a comma-separated list of search methods to always run.
+ */
+function validateRetrievalStrategy(value: string, varName: string): SearchMethod[] | 'auto' {
+  if (value === 'auto') {
+    return value
+  }
+  const methods = value.split(',').map((method) => method.trim())
+  if (!methods.every((method) => SEARCH_METHODS.includes(method as SearchMethod))) {
+    throw new Error(
+      `Invalid ${varName}: must be auto or a comma-separated list of ${SEARCH_METHODS.join(', ')}, got ${value}`
+    )
+  }
+  return [...new Set(methods)] as SearchMethod[]
+}
+
+const QUERY_TRANSFORMS = ['keywords', 'hyde', 'multi_query'] as const
+
+/**
+ * Rewrites of the query searched alongside it: extracted keywords for
+ * full-text search, a hypothetical answer (HyDE) for vector search, and
+ * alternative phrasings run through the whole retrieval strategy.
+ */
+export type QueryTransformName = (typeof QUERY_TRANSFORMS)[number]
+
+/**
+ * Validates a comma-separated list of query transforms; empty for none.
+ */
+function validateQueryTransforms(value: string, varName: string): QueryTransformName[] {
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+  if (!names.every((name) => QUERY_TRANSFORMS.includes(name as QueryTransformName))) {
+    throw new Error(
+      `Invalid ${varName}: must be a comma-separated list of ${QUERY_TRANSFORMS.join(', ')}, got ${value}`
+    )
+  }
+  return [...new Set(names)] as QueryTransformName[]
+}
+
+const RERANKERS = ['none', 'llm', 'bm25'] as const
+
+/**
+ * none: keep the search order. llm: a model judges each candidate's
+ * relevance. bm25: local lexical scoring, no model call.
+ */
+export type RerankerName = (typeof RERANKERS)[number]
+
+/**
+ * Validates that a reranker name is supported.
+ */
+function validateReranker(value: string, varName: string): RerankerName {
+  if (!RERANKERS.includes(value as RerankerName)) {
+    throw new Error(`Invalid ${varName}: must be one of ${RERANKERS.join(', ')}, got ${value}`)
+  }
+  return value as RerankerName
+}
+
+const SIMILARITY_MEASURES = ['lexical', 'embedding'] as const
+
+/**
+ * How chunk similarity is measured for diversity selection: term overlap,
+ * or cosine similarity of embeddings from the embedding model.
+ */
+export type SimilarityMeasure = (typeof SIMILARITY_MEASURES)[number]
+
+/**
+ * Validates that a similarity measure name is supported.
+ */
+function validateSimilarityMeasure(value: string, varName: string): SimilarityMeasure {
+  if (!SIMILARITY_MEASURES.includes(value as SimilarityMeasure)) {
+    throw new Error(
+      `Invalid ${varName}: must be one of ${SIMILARITY_MEASURES.join(', ')}, got ${value}`
+    )
+  }
+  return value as SimilarityMeasure
+}
+
+/**
+ * Settings for choosing which retrieved chunks reach the generator.
+ */
+export interface SelectionConfig {
+  /** Whether retrievals run selection when the request doesn't say */
+  enabled: boolean
+  /** MMR trade-off: 1 ranks by relevance alone, 0 by novelty alone */
+  mmrLambda: number
+  similarity: SimilarityMeasure
+  embeddingModel: string
+  /** Chunks at least this similar to a higher-ranked one are dropped as near-duplicates */
+  duplicateThreshold: number
+  /** Chunks kept per source document, 0 for no cap */
+  maxChunksPerDocument: number
+  /** Metadata field naming a chunk's source document */
+  documentKey: string
+  /** Estimated tokens of retrieved text sent to the generator */
+  contextTokenBudget: number
+}
+
+/**
+ * Settings for widening retrieved chunks with their neighbours in the source document.
+ */
+export interface ExpansionConfig {
+  /** Adjacent chunks fetched on each side of a hit, 0 to turn expansion off */
+  window: number
+  /** Metadata field naming a chunk's document */
+  documentKey: string
+  /** Metadata field holding a chunk's position within its document */
+  positionKey: string
+}
+
+const FILTER_FIELD_TYPES = ['string', 'number', 'boolean', 'date'] as const
+
+export type FilterFieldType = (typeof FILTER_FIELD_TYPES)[number]
+
+/**
+ * A metadata field searches can be filtered on.
+ */
+export interface FilterField {
+  /** date fields hold ISO 8601 dates (YYYY-MM-DD) and also take gte/lte ranges */
+  type: FilterFieldType
+  /** Allowed values of a string field; any string when unset */
+  values?: string[]
+  /** What the field holds, shown to the model that extracts filters from queries */
+  description?: string
+}
+
+/**
+ * Metadata fields that filters may use, by name.
+ */
+export type FilterSchema = Record<string, FilterField>
+
+/**
+ * Validates a JSON filter schema such as
+ * {"year": {"type": "number"}, "doc_type": {"type": "string", "values": ["guide", "policy"]},
+ * "published": {"type": "date"}}.
+ */
+function validateFilterSchema(value: string, varName: string): FilterSchema {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    throw new Error(`Invalid ${varName}: must be a JSON object, got ${value}`)
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid ${varName}: must be a JSON object, got ${value}`)
+  }
+
+  for (const [name, field] of Object.entries(parsed as Record<string, Partial<FilterField>>)) {
+    if (!FILTER_FIELD_TYPES.includes(field?.type as FilterFieldType)) {
+      throw new Error(
+        `Invalid ${varName}: ${name}.type must be one of ${FILTER_FIELD_TYPES.join(', ')}`
+      )
+    }
+    if (
+      field.values !== undefined &&
+      (field.type !== 'string' ||
+        !Array.isArray(field.values) ||
+        !field.values.every((v) => typeof v === 'string'))
+    ) {
+      throw new Error(`Invalid ${varName}: ${name}.values must be an array of strings on a string field`)
+    }
+    if (field.description !== undefined && typeof field.description !== 'string') {
+      throw new Error(`Invalid ${varName}: ${name}.description must be a string`)
+    }
+  }
+  return parsed as FilterSchema
+}
+
 interface Config {
   llm: {
     baseUrl: string
@@ -57,6 +310,92 @@ interface Config {
     phoenixEndpoint: string | undefined
     phoenixApiKey: string | undefined
   }
+  checkpoint: {
+    backend: StorageBackend
+    sqlitePath: string
+    /** Runs whose checkpoints the memory backend keeps, oldest evicted first */
+    memoryMaxThreads: number
+  }
+  conversation: {
+    backend: StorageBackend
+    sqlitePath: string
+  }
+  retrieval: {
+    /** Retrieval scores below this send the graph back for more evidence */
+    minScore: number
+    /** Critic completeness/sourceUsage scores below this also trigger re-retrieval */
+    minEvidenceScore: number
+    /** Re-retrieval passes allowed per run, on top of the initial retrieval */
+    maxPasses: number
+    mode: RetrievalMode
+    /** Search methods run per retrieval, or auto to choose them by query type */
+    strategy: SearchMethod[] | 'auto'
+    /** LLM steps the agentic retriever may take, each issuing one or more searches */
+    agentMaxSteps: number
+    reranker: RerankerName
+    /** Candidates fetched per search for the reranker to choose the top chunks from */
+    rerankCandidates: number
+    queryTransforms: QueryTransformName[]
+    /** Alternative phrasings the multi_query transform generates */
+    queryVariants: number
+  }
+  selection: SelectionConfig
+  expansion: ExpansionConfig
+  filters: {
+    /** Fields searches may be filtered on; filters are extracted from queries when any are set */
+    schema: FilterSchema
+  }
+  workflow: {
+    /** Generate/critique rounds per run */
+    maxIterations: number
+    /** Critic quality score that ends the refinement loop */
+    qualityThreshold: number
+    topK: number
+    models: {
+      classifier: string
+      generator: string
+      critic: string
+      /** Query rewriting, clarification and decomposition */
+      utility: string
+    }
+    /** Upper bounds for per-request overrides */
+    limits: {
+      maxIterations: number
+      topK: number
+      retrievalPasses: number
+    }
+  }
+  runs: {
+    /** Events buffered per streamed run for replay on reconnect */
+    maxEvents: number
+    /** How long a finished run's events stay available for replay */
+    ttlSeconds: number
+    /** Deadline for a whole run, after which it is cancelled */
+    timeoutSeconds: number
+    /** How long a streamed run keeps going with no client attached */
+    disconnectGraceSeconds: number
+  }
+  jobs: {
+    /** Jobs running at once; the rest wait in the queue */
+    concurrency: number
+    /** How long a finished job's result stays available */
+    ttlSeconds: number
+  }
+  batch: {
+    /** Queries accepted in one batch request */
+    maxItems: number
+    /** Queries of a batch run at once */
+    concurrency: number
+  }
+  webhook: {
+    /** HMAC key for signing callbacks; callbacks are refused without one */
+    secret: string | undefined
+    maxAttempts: number
+    /** Delay before the first retry, doubled on each further attempt */
+    retryBaseMs: number
+    /** How long one attempt waits for the receiver to respond */
+    timeoutMs: number
+  }
 }
 
 /**
@@ -70,6 +409,18 @@ function createConfig(): Config {
   validateEnv()
 
   const portValue = Number(getEnv('PORT', '3000'))
+  const limits = {
+    maxIterations: validateCount(
+      Number(getEnv('WORKFLOW_MAX_ITERATIONS_LIMIT', '5')),
+      'WORKFLOW_MAX_ITERATIONS_LIMIT',
+      1
+    ),
+    topK: validateCount(Number(getEnv('WORKFLOW_TOP_K_LIMIT', '20')), 'WORKFLOW_TOP_K_LIMIT', 1),
+    retrievalPasses: validateCount(
+      Number(getEnv('WORKFLOW_RETRIEVAL_PASSES_LIMIT', '3')),
+      'WORKFLOW_RETRIEVAL_PASSES_LIMIT'
+    ),
+  }
 
   return {
     llm: {
@@ -87,6 +438,144 @@ function createConfig(): Config {
       phoenixEndpoint: getEnv('PHOENIX_COLLECTOR_ENDPOINT'),
       phoenixApiKey: getEnv('PHOENIX_API_KEY'),
     },
+    checkpoint: {
+      backend: validateStorageBackend(getEnv('CHECKPOINT_BACKEND', 'memory'), 'CHECKPOINT_BACKEND'),
+      sqlitePath: getEnv('CHECKPOINT_SQLITE_PATH', 'data/checkpoints.sqlite'),
+      memoryMaxThreads: validateCount(
+        Number(getEnv('CHECKPOINT_MEMORY_MAX_THREADS', '1000')),
+        'CHECKPOINT_MEMORY_MAX_THREADS',
+        1
+      ),
+    },
+    conversation: {
+      backend: validateStorageBackend(
+        getEnv('CONVERSATION_BACKEND', 'memory'),
+        'CONVERSATION_BACKEND'
+      ),
+      sqlitePath: getEnv('CONVERSATION_SQLITE_PATH', 'data/conversations.sqlite'),
+    },
+    retrieval: {
+      minScore: validateScore(Number(getEnv('RETRIEVAL_MIN_SCORE', '0.5')), 'RETRIEVAL_MIN_SCORE'),
+      minEvidenceScore: validateScore(
+        Number(getEnv('RETRIEVAL_MIN_EVIDENCE_SCORE', '0.5')),
+        'RETRIEVAL_MIN_EVIDENCE_SCORE'
+      ),
+      maxPasses: validateWithinLimit(
+        validateCount(Number(getEnv('RETRIEVAL_MAX_PASSES', '1')), 'RETRIEVAL_MAX_PASSES'),
+        'RETRIEVAL_MAX_PASSES',
+        limits.retrievalPasses,
+        'WORKFLOW_RETRIEVAL_PASSES_LIMIT'
+      ),
+      mode: validateRetrievalMode(getEnv('RETRIEVAL_MODE', 'single'), 'RETRIEVAL_MODE'),
+      strategy: validateRetrievalStrategy(getEnv('RETRIEVAL_STRATEGY', 'auto'), 'RETRIEVAL_STRATEGY'),
+      agentMaxSteps: validateCount(
+        Number(getEnv('RETRIEVAL_AGENT_MAX_STEPS', '4')),
+        'RETRIEVAL_AGENT_MAX_STEPS',
+        1
+      ),
+      reranker: validateReranker(getEnv('RETRIEVAL_RERANKER', 'none'), 'RETRIEVAL_RERANKER'),
+      rerankCandidates: validateCount(
+        Number(getEnv('RETRIEVAL_RERANK_CANDIDATES', '20')),
+        'RETRIEVAL_RERANK_CANDIDATES',
+        1
+      ),
+      queryTransforms: validateQueryTransforms(
+        getEnv('RETRIEVAL_QUERY_TRANSFORMS', ''),
+        'RETRIEVAL_QUERY_TRANSFORMS'
+      ),
+      queryVariants: validateCount(
+        Number(getEnv('RETRIEVAL_QUERY_VARIANTS', '3')),
+        'RETRIEVAL_QUERY_VARIANTS',
+        1
+      ),
+    },
+    selection: {
+      enabled: getEnv('SELECTION_ENABLED', 'false') === 'true',
+      mmrLambda: validateScore(Number(getEnv('SELECTION_MMR_LAMBDA', '0.7')), 'SELECTION_MMR_LAMBDA'),
+      similarity: validateSimilarityMeasure(
+        getEnv('SELECTION_SIMILARITY', 'lexical'),
+        'SELECTION_SIMILARITY'
+      ),
+      embeddingModel: getEnv('SELECTION_EMBEDDING_MODEL', 'text-embedding-3-small'),
+      duplicateThreshold: validateScore(
+        Number(getEnv('SELECTION_DUPLICATE_THRESHOLD', '0.9')),
+        'SELECTION_DUPLICATE_THRESHOLD'
+      ),
+      maxChunksPerDocument: validateCount(
+        Number(getEnv('SELECTION_MAX_CHUNKS_PER_DOCUMENT', '3')),
+        'SELECTION_MAX_CHUNKS_PER_DOCUMENT'
+      ),
+      documentKey: getEnv('SELECTION_DOCUMENT_KEY', 'source'),
+      contextTokenBudget: validateCount(
+        Number(getEnv('SELECTION_CONTEXT_TOKEN_BUDGET', '6000')),
+        'SELECTION_CONTEXT_TOKEN_BUDGET',
+        1
+      ),
+    },
+    expansion: {
+      window: validateCount(Number(getEnv('EXPANSION_WINDOW', '0')), 'EXPANSION_WINDOW'),
+      documentKey: getEnv('EXPANSION_DOCUMENT_KEY', 'document_id'),
+      positionKey: getEnv('EXPANSION_POSITION_KEY', 'chunk_index'),
+    },
+    filters: {
+      schema: validateFilterSchema(getEnv('FILTER_SCHEMA', '{}'), 'FILTER_SCHEMA'),
+    },
+    workflow: {
+      maxIterations: validateWithinLimit(
+        validateCount(Number(getEnv('WORKFLOW_MAX_ITERATIONS', '2')), 'WORKFLOW_MAX_ITERATIONS', 1),
+        'WORKFLOW_MAX_ITERATIONS',
+        limits.maxIterations,
+        'WORKFLOW_MAX_ITERATIONS_LIMIT'
+      ),
+      qualityThreshold: validateScore(
+        Number(getEnv('WORKFLOW_QUALITY_THRESHOLD', '0.7')),
+        'WORKFLOW_QUALITY_THRESHOLD'
+      ),
+      topK: validateWithinLimit(
+        validateCount(Number(getEnv('WORKFLOW_TOP_K', '5')), 'WORKFLOW_TOP_K', 1),
+        'WORKFLOW_TOP_K',
+        limits.topK,
+        'WORKFLOW_TOP_K_LIMIT'
+      ),
+      models: {
+        classifier: getEnv('CLASSIFIER_MODEL', 'gpt-5-mini'),
+        generator: getEnv('GENERATOR_MODEL', 'gpt-4.1'),
+        critic: getEnv('CRITIC_MODEL', 'gpt-5-mini'),
+        utility: getEnv('UTILITY_MODEL', 'gpt-5-mini'),
+      },
+      limits,
+    },
+    runs: {
+      maxEvents: validateCount(Number(getEnv('RUN_EVENT_LOG_SIZE', '1000')), 'RUN_EVENT_LOG_SIZE', 1),
+      ttlSeconds: validateCount(Number(getEnv('RUN_TTL_SECONDS', '600')), 'RUN_TTL_SECONDS'),
+      timeoutSeconds: validateCount(
+        Number(getEnv('RUN_TIMEOUT_SECONDS', '120')),
+        'RUN_TIMEOUT_SECONDS',
+        1
+      ),
+      disconnectGraceSeconds: validateCount(
+        Number(getEnv('RUN_DISCONNECT_GRACE_SECONDS', '30')),
+        'RUN_DISCONNECT_GRACE_SECONDS'
+      ),
+    },
+    jobs: {
+      concurrency: validateCount(Number(getEnv('JOB_CONCURRENCY', '2')), 'JOB_CONCURRENCY', 1),
+      ttlSeconds: validateCount(Number(getEnv('JOB_TTL_SECONDS', '3600')), 'JOB_TTL_SECONDS'),
+    },
+    batch: {
+      maxItems: validateCount(Number(getEnv('BATCH_MAX_ITEMS', '100')), 'BATCH_MAX_ITEMS', 1),
+      concurrency: validateCount(Number(getEnv('BATCH_CONCURRENCY', '4')), 'BATCH_CONCURRENCY', 1),
+    },
+    webhook: {
+      secret: getEnv('WEBHOOK_SECRET'),
+      maxAttempts: validateCount(
+        Number(getEnv('WEBHOOK_MAX_ATTEMPTS', '5')),
+        'WEBHOOK_MAX_ATTEMPTS',
+        1
+      ),
+      retryBaseMs: validateCount(Number(getEnv('WEBHOOK_RETRY_BASE_MS', '1000')), 'WEBHOOK_RETRY_BASE_MS'),
+      timeoutMs: validateCount(Number(getEnv('WEBHOOK_TIMEOUT_MS', '10000')), 'WEBHOOK_TIMEOUT_MS', 1),
+    },
   }
 }
 
@@ -0,0 +1,132 @@
+// src/core/conversation/__tests__/store.test.ts
+import { describe, test, expect } from 'bun:test'
+import {
+  InMemoryConversationStore,
+  SqliteConversationStore,
+  buildConversationContext,
+  formatConversationContext,
+  renderConversationMarkdown,
+  type ConversationStore,
+  type NewConversationTurn,
+} from '../index'
+
+function turn(query: string, answer: string): NewConversationTurn {
+  return {
+    query,
+    answer,
+    queryType: 'factual',
+    qualityScore: 0.9,
+    sources: [{ chunkId: 'c1', content: 'content', score: 0.8 }],
+  }
+}
+
+const backends: Array<[string, () => ConversationStore]> = [
+  ['InMemoryConversationStore', () => new InMemoryConversationStore()],
+  ['SqliteConversationStore', () => new SqliteConversationStore(':memory:')],
+]
+
+describe.each(backends)('%s', (_name, createStore) => {
+  test('appendTurn assigns id and timestamp', async () => {
+    const store = createStore()
+    const saved = await store.appendTurn('conv-1', turn('What is X?', 'X is a tool.'))
+    expect(saved.id).toBeDefined()
+    expect(saved.createdAt).toBeDefined()
+    expect(saved.sources).toHaveLength(1)
+  })
+
+  test('getTurns returns turns in order and honours limit', async () => {
+    const store = createStore()
+    await store.appendTurn('conv-1', turn('q1', 'a1'))
+    await store.appendTurn('conv-1', turn('q2', 'a2'))
+    await store.appendTurn('conv-1', turn('q3', 'a3'))
+    await store.appendTurn('conv-2', turn('other', 'other'))
+
+    expect((await store.getTurns('conv-1')).map((t) => t.query)).toEqual(['q1', 'q2', 'q3'])
+    expect((await store.getTurns('conv-1', 2)).map((t) => t.query)).toEqual(['q2', 'q3'])
+    expect(await store.getTurns('missing')).toEqual([])
+  })
+
+  test('listConversations orders by last update and paginates', async () => {
+    const store = createStore()
+    await store.appendTurn('conv-1', turn('q1', 'a1'))
+    await Bun.sleep(2)
+    await store.appendTurn('conv-2', turn('q2', 'a2'))
+    await Bun.sleep(2)
+    await store.appendTurn('conv-1', turn('q3', 'a3'))
+
+    const all = await store.listConversations()
+    expect(all.map((c) => c.id)).toEqual(['conv-1', 'conv-2'])
+    expect(all[0]).toMatchObject({ title: 'q1', turnCount: 2 })
+
+    const page = await store.listConversations({ limit: 1, offset: 1 })
+    expect(page.map((c) => c.id)).toEqual(['conv-2'])
+  })
+
+  test('getConversation returns turns, or undefined when missing', async () => {
+    const store = createStore()
+    await store.appendTurn('conv-1', turn('q1', 'a1'))
+
+    const conversation = await store.getConversation('conv-1')
+    expect(conversation?.turnCount).toBe(1)
+    expect(conversation?.turns[0].answer).toBe('a1')
+    expect(await store.getConversation('missing')).toBeUndefined()
+  })
+
+  test('renameConversation overrides the default title', async () => {
+    const store = createStore()
+    await store.appendTurn('conv-1', turn('q1', 'a1'))
+
+    expect(await store.renameConversation('conv-1', 'Renamed')).toBe(true)
+    expect((await store.getConversation('conv-1'))?.title).toBe('Renamed')
+    expect(await store.renameConversation('missing', 'Renamed')).toBe(false)
+  })
+
+  test('deleteConversation removes the conversation and its turns', async () => {
+    const store = createStore()
+    await store.appendTurn('conv-1', turn('q1', 'a1'))
+
+    expect(await store.deleteConversation('conv-1')).toBe(true)
+    expect(await store.getConversation('conv-1')).toBeUndefined()
+    expect(await store.getTurns('conv-1')).toEqual([])
+    expect(await store.deleteConversation('conv-1')).toBe(false)
+  })
+})
+
+describe('renderConversationMarkdown', () => {
+  test('renders turns with scores and sources', async () => {
+    const store = new InMemoryConversationStore()
+    await store.appendTurn('conv-1', turn('What is X?', 'X is a tool.'))
+    const conversation = await store.getConversation('conv-1')
+
+    const markdown = renderConversationMarkdown(conversation!)
+    expect(markdown).toStartWith('# What is X?\n')
+    expect(markdown).toContain('**User:** What is X?')
+    expect(markdown).toContain('**Assistant:** X is a tool.')
+    expect(markdown).toContain('quality: 0.90')
+    expect(markdown).toContain('1. `c1` (0.80) content')
+  })
+})
+
+describe('Conversation context', () => {
+  test('buildConversationContext prefers standalone queries', async () => {
+    const store = new InMemoryConversationStore()
+    await store.appendTurn('conv-1', {
+      ...turn('what about its pricing?', 'It is free.'),
+      standaloneQuery: 'What is the pricing of LiteLLM?',
+    })
+
+    const context = buildConversationContext('conv-1', await store.getTurns('conv-1'))
+    expect(context.sessionId).toBe('conv-1')
+    expect(context.previousQueries).toEqual(['What is the pricing of LiteLLM?'])
+    expect(context.previousResponses).toEqual(['It is free.'])
+  })
+
+  test('formatConversationContext renders a transcript', () => {
+    const transcript = formatConversationContext({
+      previousQueries: ['What is LiteLLM?'],
+      previousResponses: ['A proxy.'],
+    })
+    expect(transcript).toBe('User: What is LiteLLM?\nAssistant: A proxy.')
+    expect(formatConversationContext({ previousQueries: [] })).toBeUndefined()
+  })
+})
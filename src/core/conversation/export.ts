@@ -0,0 +1,51 @@
+// src/core/conversation/export.ts
+import type { Conversation } from './types'
+
+/**
+ * Download file name for a conversation export. Ids are chosen by clients, so
+ * anything outside a safe set is replaced to keep the Content-Disposition
+ * header well-formed.
+ */
+export function exportFileName(conversation: Conversation, extension: string): string {
+  return `conversation-${conversation.id.replace(/[^A-Za-z0-9._-]/g, '_')}.${extension}`
+}
+
+/**
+ * Render a conversation as a Markdown transcript with sources and scores per turn.
+ */
+export function renderConversationMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title || conversation.id}`,
+    '',
+    `- Conversation: \`${conversation.id}\``,
+    `- Created: ${conversation.createdAt}`,
+    `- Updated: ${conversation.updatedAt}`,
+  ]
+
+  conversation.turns.forEach((turn, i) => {
+    lines.push('', `## Turn ${i + 1}`, '', `**User:** ${turn.query}`)
+    if (turn.standaloneQuery) {
+      lines.push('', `_Interpreted as:_ ${turn.standaloneQuery}`)
+    }
+    lines.push('', `**Assistant:** ${turn.answer}`)
+
+    const scores = [
+      turn.queryType && `query type: ${turn.queryType}`,
+      turn.qualityScore !== undefined && `quality: ${turn.qualityScore.toFixed(2)}`,
+      turn.retrievalScore !== undefined && `retrieval: ${turn.retrievalScore.toFixed(2)}`,
+    ].filter(Boolean)
+    if (scores.length > 0) {
+      lines.push('', `_${scores.join(' · ')}_`)
+    }
+
+    if (turn.sources.length > 0) {
+      lines.push('', '**Sources:**', '')
+      turn.sources.forEach((source, j) => {
+        const excerpt = source.content.replace(/\s+/g, ' ').substring(0, 200)
+        lines.push(`${j + 1}. \`${source.chunkId}\` (${source.score.toFixed(2)}) ${excerpt}`)
+      })
+    }
+  })
+
+  return `${lines.join('\n')}\n`
+}
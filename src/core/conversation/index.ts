@@ -0,0 +1,64 @@
+// src/core/conversation/index.ts
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { config } from '../config'
+import type { ConversationContext } from '../state'
+import { InMemoryConversationStore } from './memory'
+import { SqliteConversationStore } from './sqlite'
+import type { ConversationStore, ConversationTurn } from './types'
+
+export * from './types'
+export { InMemoryConversationStore } from './memory'
+export { SqliteConversationStore } from './sqlite'
+export { exportFileName, renderConversationMarkdown } from './export'
+
+/**
+ * Number of most recent turns loaded into the agent state as conversation context.
+ */
+export const HISTORY_TURNS = 5
+
+let _store: ConversationStore | undefined
+
+/**
+ * Shared conversation store for the configured backend, created on first use.
+ */
+export function getConversationStore(): ConversationStore {
+  if (!_store) {
+    if (config.conversation.backend === 'sqlite') {
+      mkdirSync(dirname(config.conversation.sqlitePath), { recursive: true })
+      _store = new SqliteConversationStore(config.conversation.sqlitePath)
+    } else {
+      _store = new InMemoryConversationStore()
+    }
+  }
+  return _store
+}
+
+/**
+ * Build the agent-state conversation context from stored turns.
+ */
+export function buildConversationContext(
+  sessionId: string,
+  turns: ConversationTurn[]
+): ConversationContext {
+  return {
+    sessionId,
+    previousQueries: turns.map((turn) => turn.standaloneQuery ?? turn.query),
+    previousResponses: turns.map((turn) => turn.answer),
+  }
+}
+
+/**
+ * Render conversation context as a transcript for LLM prompts.
+ * Returns undefined when there is no history.
+ */
+export function formatConversationContext(context?: ConversationContext): string | undefined {
+  const queries = context?.previousQueries ?? []
+  if (queries.length === 0) {
+    return undefined
+  }
+  const responses = context?.previousResponses ?? []
+  return queries
+    .map((query, i) => `User: ${query}\nAssistant: ${responses[i] ?? ''}`)
+    .join('\n\n')
+}
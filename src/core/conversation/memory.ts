@@ -0,0 +1,85 @@
+// src/core/conversation/memory.ts
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  ConversationTurn,
+  ListConversationsOptions,
+  NewConversationTurn,
+} from './types'
+
+interface StoredConversation {
+  title?: string
+  createdAt: string
+  updatedAt: string
+  turns: ConversationTurn[]
+}
+
+/**
+ * Process-local conversation store. Used in tests and when no persistent backend is configured.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, StoredConversation>()
+
+  async appendTurn(conversationId: string, turn: NewConversationTurn): Promise<ConversationTurn> {
+    const saved: ConversationTurn = {
+      ...turn,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    }
+    const conversation = this.conversations.get(conversationId) ?? {
+      createdAt: saved.createdAt,
+      updatedAt: saved.createdAt,
+      turns: [],
+    }
+    conversation.turns.push(saved)
+    conversation.updatedAt = saved.createdAt
+    this.conversations.set(conversationId, conversation)
+    return saved
+  }
+
+  async getTurns(conversationId: string, limit?: number): Promise<ConversationTurn[]> {
+    const turns = this.conversations.get(conversationId)?.turns ?? []
+    return limit === undefined ? [...turns] : turns.slice(-limit)
+  }
+
+  async listConversations(options: ListConversationsOptions = {}): Promise<ConversationSummary[]> {
+    const offset = options.offset ?? 0
+    return [...this.conversations.entries()]
+      .map(([id, conversation]) => this.toSummary(id, conversation))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || a.id.localeCompare(b.id))
+      .slice(offset, options.limit === undefined ? undefined : offset + options.limit)
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) {
+      return undefined
+    }
+    return { ...this.toSummary(conversationId, conversation), turns: [...conversation.turns] }
+  }
+
+  async renameConversation(conversationId: string, title: string): Promise<boolean> {
+    const conversation = this.conversations.get(conversationId)
+    if (!conversation) {
+      return false
+    }
+    conversation.title = title
+    conversation.updatedAt = new Date().toISOString()
+    return true
+  }
+
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    return this.conversations.delete(conversationId)
+  }
+
+  private toSummary(id: string, conversation: StoredConversation): ConversationSummary {
+    return {
+      id,
+      title: conversation.title ?? conversation.turns[0]?.query ?? '',
+      turnCount: conversation.turns.length,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    }
+  }
+}
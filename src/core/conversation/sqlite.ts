@@ -0,0 +1,148 @@
+// src/core/conversation/sqlite.ts
+import { Database } from 'bun:sqlite'
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  ConversationTurn,
+  ListConversationsOptions,
+  NewConversationTurn,
+} from './types'
+
+interface SummaryRow {
+  id: string
+  title: string | null
+  first_query: string | null
+  turn_count: number
+  created_at: string
+  updated_at: string
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  title TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS turns (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS turns_conversation ON turns (conversation_id, position);
+`
+
+const SUMMARY_SELECT = `
+SELECT
+  c.id,
+  c.title,
+  (SELECT json_extract(data, '$.query') FROM turns
+    WHERE conversation_id = c.id ORDER BY position LIMIT 1) AS first_query,
+  (SELECT COUNT(*) FROM turns WHERE conversation_id = c.id) AS turn_count,
+  c.created_at,
+  c.updated_at
+FROM conversations c
+`
+
+/**
+ * Conversation store backed by Bun's built-in SQLite driver.
+ * Turns are stored as JSON so new turn fields don't need a migration.
+ */
+export class SqliteConversationStore implements ConversationStore {
+  private db: Database
+
+  constructor(path: string) {
+    this.db = new Database(path, { create: true })
+    this.db.exec('PRAGMA journal_mode = WAL;')
+    this.db.exec('PRAGMA foreign_keys = ON;')
+    this.db.exec(SCHEMA)
+  }
+
+  async appendTurn(conversationId: string, turn: NewConversationTurn): Promise<ConversationTurn> {
+    const saved: ConversationTurn = {
+      ...turn,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    }
+
+    this.db.transaction(() => {
+      this.db
+        .query(
+          `INSERT INTO conversations (id, created_at, updated_at) VALUES (?1, ?2, ?2)
+            ON CONFLICT(id) DO UPDATE SET updated_at = ?2`
+        )
+        .run(conversationId, saved.createdAt)
+      this.db
+        .query(
+          `INSERT INTO turns (id, conversation_id, position, data, created_at)
+            VALUES (?, ?, (SELECT COUNT(*) FROM turns WHERE conversation_id = ?), ?, ?)`
+        )
+        .run(saved.id, conversationId, conversationId, JSON.stringify(saved), saved.createdAt)
+    })()
+
+    return saved
+  }
+
+  async getTurns(conversationId: string, limit?: number): Promise<ConversationTurn[]> {
+    const rows = this.db
+      .query<{ data: string }, [string, number]>(
+        `SELECT data FROM turns WHERE conversation_id = ?
+          ORDER BY position DESC LIMIT ?`
+      )
+      .all(conversationId, limit ?? -1)
+
+    return rows.reverse().map((row) => JSON.parse(row.data) as ConversationTurn)
+  }
+
+  async listConversations(options: ListConversationsOptions = {}): Promise<ConversationSummary[]> {
+    const rows = this.db
+      .query<SummaryRow, [number, number]>(
+        `${SUMMARY_SELECT} ORDER BY c.updated_at DESC, c.id LIMIT ? OFFSET ?`
+      )
+      .all(options.limit ?? -1, options.offset ?? 0)
+
+    return rows.map(toSummary)
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | undefined> {
+    const row = this.db
+      .query<SummaryRow, [string]>(`${SUMMARY_SELECT} WHERE c.id = ?`)
+      .get(conversationId)
+    if (!row) {
+      return undefined
+    }
+    return { ...toSummary(row), turns: await this.getTurns(conversationId) }
+  }
+
+  async renameConversation(conversationId: string, title: string): Promise<boolean> {
+    const result = this.db
+      .query('UPDATE conversations SET title = ?, updated_at = ? WHERE id = ?')
+      .run(title, new Date().toISOString(), conversationId)
+    return result.changes > 0
+  }
+
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    const result = this.db.query('DELETE FROM conversations WHERE id = ?').run(conversationId)
+    return result.changes > 0
+  }
+
+  /**
+   * Close the underlying database handle.
+   */
+  close(): void {
+    this.db.close()
+  }
+}
+
+function toSummary(row: SummaryRow): ConversationSummary {
+  return {
+    id: row.id,
+    title: row.title ?? row.first_query ?? '',
+    turnCount: row.turn_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
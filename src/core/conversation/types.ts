@@ -0,0 +1,65 @@
+// src/core/conversation/types.ts
+import type { QueryType } from '../state'
+
+export interface TurnSource {
+  chunkId: string
+  content: string
+  score: number
+}
+
+export interface ConversationTurn {
+  id: string
+  query: string
+  /** Standalone rewrite of a follow-up query, when it differed from `query` */
+  standaloneQuery?: string
+  answer: string
+  queryType?: QueryType
+  qualityScore?: number
+  retrievalScore?: number
+  sources: TurnSource[]
+  createdAt: string
+}
+
+export type NewConversationTurn = Omit<ConversationTurn, 'id' | 'createdAt'>
+
+export interface ConversationSummary {
+  id: string
+  /** User-set title, or the first query when none was set */
+  title: string
+  turnCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Conversation extends ConversationSummary {
+  turns: ConversationTurn[]
+}
+
+export interface ListConversationsOptions {
+  limit?: number
+  offset?: number
+}
+
+export interface ConversationStore {
+  /**
+   * Append a turn, creating the conversation if it doesn't exist yet.
+   */
+  appendTurn(conversationId: string, turn: NewConversationTurn): Promise<ConversationTurn>
+  /**
+   * Turns of a conversation in chronological order. With `limit`, only the most recent ones.
+   */
+  getTurns(conversationId: string, limit?: number): Promise<ConversationTurn[]>
+  /**
+   * Conversations ordered by most recently updated first.
+   */
+  listConversations(options?: ListConversationsOptions): Promise<ConversationSummary[]>
+  getConversation(conversationId: string): Promise<Conversation | undefined>
+  /**
+   * Returns false if the conversation doesn't exist.
+   */
+  renameConversation(conversationId: string, title: string): Promise<boolean>
+  /**
+   * Returns false if the conversation doesn't exist.
+   */
+  deleteConversation(conversationId: string): Promise<boolean>
+}
@@ -0,0 +1,82 @@
+// src/core/filters/__tests__/filters.test.ts
+import { describe, test, expect } from 'bun:test'
+import type { FilterSchema } from '../../config'
+import { matchesFilters, mergeFilters, sanitizeFilters, validateFilters } from '../index'
+
+const schema: FilterSchema = {
+  year: { type: 'number' },
+  doc_type: { type: 'string', values: ['security', 'guide'] },
+  tag: { type: 'string' },
+  published: { type: 'date' },
+}
+
+describe('validateFilters', () => {
+  test('accepts missing filters and fields of the schema', () => {
+    expect(validateFilters(undefined, schema)).toBeUndefined()
+    expect(validateFilters({ year: 2024, doc_type: 'guide' }, schema)).toBeUndefined()
+  })
+
+  test('rejects unknown fields, wrong types and values outside the allowed set', () => {
+    expect(validateFilters(['year'], schema)).toBe('filters must be an object')
+    expect(validateFilters({ team: 'platform' }, schema)).toBe(
+      'Unknown filter field: team (expected one of: year, doc_type, tag, published)'
+    )
+    expect(validateFilters({ year: '2024' }, schema)).toBe('filters.year must be a number')
+    expect(validateFilters({ doc_type: 'report' }, schema)).toBe(
+      'filters.doc_type must be one of: security, guide'
+    )
+  })
+
+  test('accepts dates and gte/lte ranges on date fields only', () => {
+    expect(validateFilters({ published: '2024-03-01' }, schema)).toBeUndefined()
+    expect(validateFilters({ published: { gte: '2024-01-01', lte: '2024-06-30' } }, schema)).toBeUndefined()
+    expect(validateFilters({ published: { lte: '2024-06-30' } }, schema)).toBeUndefined()
+
+    const error = 'filters.published must be a YYYY-MM-DD date or a {"gte", "lte"} range of them'
+    expect(validateFilters({ published: 'March 2024' }, schema)).toBe(error)
+    expect(validateFilters({ published: {} }, schema)).toBe(error)
+    expect(validateFilters({ published: { gt: '2024-01-01' } }, schema)).toBe(error)
+    expect(validateFilters({ published: { gte: '2024-06-30', lte: '2024-01-01' } }, schema)).toBe(error)
+    expect(validateFilters({ year: { gte: 2020 } }, schema)).toBe('filters.year must be a number')
+  })
+})
+
+describe('sanitizeFilters', () => {
+  test('coerces numeric strings and drops fields that do not fit', () => {
+    expect(
+      sanitizeFilters({ year: '2024', doc_type: 'report', tag: '', team: 'platform' }, schema)
+    ).toEqual({ year: 2024 })
+    expect(sanitizeFilters({ year: 'last year' }, schema)).toEqual({})
+    expect(sanitizeFilters('year=2024', schema)).toEqual({})
+  })
+
+  test('drops open range bounds and invalid dates', () => {
+    expect(sanitizeFilters({ published: { gte: '2024-01-01', lte: null } }, schema)).toEqual({
+      published: { gte: '2024-01-01' },
+    })
+    expect(sanitizeFilters({ published: { gte: 'last spring' } }, schema)).toEqual({})
+  })
+})
+
+describe('mergeFilters', () => {
+  test('lets explicit filters win and is undefined when empty', () => {
+    expect(mergeFilters({ year: 2023, tag: 'auth' }, { year: 2024 })).toEqual({ year: 2024, tag: 'auth' })
+    expect(mergeFilters({}, undefined)).toBeUndefined()
+  })
+})
+
+describe('matchesFilters', () => {
+  test('matches equal values and list members', () => {
+    expect(matchesFilters({ year: 2024, tag: ['auth', 'sso'] }, { year: 2024, tag: 'sso' })).toBe(true)
+    expect(matchesFilters({ year: 2023 }, { year: 2024 })).toBe(false)
+    expect(matchesFilters(undefined, { year: 2024 })).toBe(false)
+  })
+
+  test('matches dates within a range, by the day of a timestamp', () => {
+    const range = { published: { gte: '2024-01-01', lte: '2024-06-30' } }
+    expect(matchesFilters({ published: '2024-06-30T18:00:00Z' }, range)).toBe(true)
+    expect(matchesFilters({ published: '2024-07-01' }, range)).toBe(false)
+    expect(matchesFilters({ published: '2023-12-31' }, { published: { lte: '2023-12-31' } })).toBe(true)
+    expect(matchesFilters({}, range)).toBe(false)
+  })
+})
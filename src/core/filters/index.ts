@@ -0,0 +1,149 @@
+// src/core/filters/index.ts
+import type { FilterField, FilterSchema } from '../config'
+
+/**
+ * Inclusive bounds on a date field, as YYYY-MM-DD dates; at least one is set.
+ */
+export interface FilterRange {
+  gte?: string
+  lte?: string
+}
+
+/**
+ * RAG API metadata filters: each field must equal its value, or contain it
+ * when the chunk's metadata holds a list. Date fields may take a range
+ * instead, which the chunk's date must fall within.
+ */
+export type MetadataFilters = Record<string, string | number | boolean | FilterRange>
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function isDateRange(value: unknown): value is FilterRange {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false
+  }
+  const { gte, lte, ...rest } = value as Record<string, unknown>
+  if (Object.keys(rest).length > 0 || (gte === undefined && lte === undefined)) {
+    return false
+  }
+  if ((gte !== undefined && !isDate(gte)) || (lte !== undefined && !isDate(lte))) {
+    return false
+  }
+  return gte === undefined || lte === undefined || String(gte) <= String(lte)
+}
+
+function checkValue(name: string, field: FilterField, value: unknown): string | undefined {
+  if (field.type === 'date') {
+    return isDate(value) || isDateRange(value)
+      ? undefined
+      : `filters.${name} must be a YYYY-MM-DD date or a {"gte", "lte"} range of them`
+  }
+  if (typeof value !== field.type) {
+    return `filters.${name} must be a ${field.type}`
+  }
+  if (field.values && !field.values.includes(value as string)) {
+    return `filters.${name} must be one of: ${field.values.join(', ')}`
+  }
+  return undefined
+}
+
+/**
+ * Check client-supplied filters against the filter schema.
+ * Returns an error message, or undefined when the filters are acceptable.
+ */
+export function validateFilters(filters: unknown, schema: FilterSchema): string | undefined {
+  if (filters === undefined) {
+    return undefined
+  }
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    return 'filters must be an object'
+  }
+
+  for (const [name, value] of Object.entries(filters)) {
+    const field = schema[name]
+    if (!field) {
+      const known = Object.keys(schema)
+      return `Unknown filter field: ${name}${known.length > 0 ? ` (expected one of: ${known.join(', ')})` : ''}`
+    }
+    const error = checkValue(name, field, value)
+    if (error) {
+      return error
+    }
+  }
+  return undefined
+}
+
+/**
+ * Coerce a value a model wrote into the field's type where the intent is
+ * clear: numeric strings for number fields, and open range bounds left null.
+ */
+function coerceValue(field: FilterField, raw: unknown): unknown {
+  if (field.type === 'number' && typeof raw === 'string') {
+    return Number(raw)
+  }
+  if (field.type === 'date' && typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    return Object.fromEntries(Object.entries(raw).filter(([, bound]) => bound !== null && bound !== ''))
+  }
+  return raw
+}
+
+/**
+ * Keep the filters that fit the schema, coercing what a model wrote loosely,
+ * and drop the rest. For filters a model produced, where a bad field should
+ * cost that filter rather than the request.
+ */
+export function sanitizeFilters(filters: unknown, schema: FilterSchema): MetadataFilters {
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    return {}
+  }
+
+  const sanitized: MetadataFilters = {}
+  for (const [name, raw] of Object.entries(filters)) {
+    const field = schema[name]
+    if (!field || raw === null || raw === undefined || raw === '') {
+      continue
+    }
+    const value = coerceValue(field, raw)
+    if (!checkValue(name, field, value) && !Number.isNaN(value)) {
+      sanitized[name] = value as MetadataFilters[string]
+    }
+  }
+  return sanitized
+}
+
+/**
+ * Combine filters extracted from the query with the client's explicit ones,
+ * which win on the same field. Undefined when there are none.
+ */
+export function mergeFilters(
+  extracted: MetadataFilters | undefined,
+  explicit: MetadataFilters | undefined
+): MetadataFilters | undefined {
+  const merged = { ...extracted, ...explicit }
+  return Object.keys(merged).length > 0 ? merged : undefined
+}
+
+/**
+ * Whether a chunk's metadata satisfies every filter. Ranges compare the date
+ * part of the chunk's value, so timestamps fall on their day.
+ */
+export function matchesFilters(
+  metadata: Record<string, unknown> | undefined,
+  filters: MetadataFilters
+): boolean {
+  return Object.entries(filters).every(([name, value]) => {
+    const actual = metadata?.[name]
+    if (typeof value === 'object') {
+      if (typeof actual !== 'string') {
+        return false
+      }
+      const date = actual.slice(0, 10)
+      return (value.gte === undefined || date >= value.gte) && (value.lte === undefined || date <= value.lte)
+    }
+    return Array.isArray(actual) ? actual.includes(value) : actual === value
+  })
+}
@@ -0,0 +1,38 @@
+// src/core/llm/__tests__/usage.test.ts
+import { describe, test, expect } from 'bun:test'
+import { recordTokenUsage, trackTokenUsage } from '../usage'
+
+describe('Token usage tracking', () => {
+  test('sums usage recorded anywhere in the async call chain', async () => {
+    const { result, usage } = await trackTokenUsage(async () => {
+      recordTokenUsage({ inputTokens: 10, outputTokens: 5, totalTokens: 15 })
+      await Promise.all([
+        (async () => recordTokenUsage({ inputTokens: 1, outputTokens: 2, totalTokens: 3 }))(),
+        (async () => recordTokenUsage({ inputTokens: undefined, outputTokens: undefined, totalTokens: 4 }))(),
+      ])
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(usage).toEqual({ inputTokens: 11, outputTokens: 7, totalTokens: 22 })
+  })
+
+  test('keeps concurrent tracked runs separate', async () => {
+    const [a, b] = await Promise.all([
+      trackTokenUsage(async () => {
+        await Bun.sleep(1)
+        recordTokenUsage({ inputTokens: 1, outputTokens: 1, totalTokens: 2 })
+      }),
+      trackTokenUsage(async () => {
+        recordTokenUsage({ inputTokens: 5, outputTokens: 5, totalTokens: 10 })
+      }),
+    ])
+
+    expect(a.usage.totalTokens).toBe(2)
+    expect(b.usage.totalTokens).toBe(10)
+  })
+
+  test('ignores usage recorded outside a tracked run', () => {
+    expect(() => recordTokenUsage({ inputTokens: 1, outputTokens: 1, totalTokens: 2 })).not.toThrow()
+  })
+})
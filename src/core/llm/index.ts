@@ -1,2 +1,3 @@
 // src/core/llm/index.ts
 export * from './provider'
+export * from './usage'
@@ -35,3 +35,10 @@ export function getLLM(modelId: string) {
   }
   return _providers.get(modelId)!(modelId)
 }
+
+export function getEmbeddingModel(modelId: string) {
+  if (!_providers.has(modelId)) {
+    _providers.set(modelId, createLLMProvider(modelId))
+  }
+  return _providers.get(modelId)!.embeddingModel(modelId)
+}
@@ -0,0 +1,49 @@
+// src/core/llm/usage.ts
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { LanguageModelUsage } from 'ai'
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+const usageContext = new AsyncLocalStorage<TokenUsage>()
+
+export function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
+}
+
+/**
+ * Add `usage` to `total` in place.
+ */
+export function addTokenUsage(total: TokenUsage, usage: Partial<TokenUsage>): TokenUsage {
+  total.inputTokens += usage.inputTokens ?? 0
+  total.outputTokens += usage.outputTokens ?? 0
+  total.totalTokens += usage.totalTokens ?? 0
+  return total
+}
+
+/**
+ * Run `fn`, summing the token usage of every LLM call made within it.
+ * Like withSessionContext, the tracking follows the async call chain.
+ */
+export async function trackTokenUsage<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; usage: TokenUsage }> {
+  const usage = emptyTokenUsage()
+  const result = await usageContext.run(usage, fn)
+  return { result, usage }
+}
+
+/**
+ * Count an LLM call towards the enclosing trackTokenUsage, if any.
+ */
+export function recordTokenUsage(
+  usage?: Pick<LanguageModelUsage, 'inputTokens' | 'outputTokens' | 'totalTokens'>
+): void {
+  const total = usageContext.getStore()
+  if (total && usage) {
+    addTokenUsage(total, usage)
+  }
+}
@@ -0,0 +1,106 @@
+// src/core/policy/__tests__/policy.test.ts
+import { describe, test, expect } from 'bun:test'
+import { config } from '@/core/config'
+import { resolveWorkflowPolicy, validatePolicyOptions } from '../index'
+
+describe('resolveWorkflowPolicy', () => {
+  test('uses the configured defaults', () => {
+    const policy = resolveWorkflowPolicy()
+    expect(policy).toMatchObject({
+      maxIterations: 2,
+      qualityThreshold: 0.7,
+      topK: 5,
+      maxRetrievalPasses: 1,
+      retrievalMode: 'single',
+      maxRetrievalSteps: 4,
+      retrievalStrategy: ['hybrid'],
+    })
+    expect(policy.models.generator).toBe('gpt-4.1')
+  })
+
+  test('applies query type defaults', () => {
+    expect(resolveWorkflowPolicy('analytical').topK).toBe(8)
+    expect(resolveWorkflowPolicy('factual').topK).toBe(5)
+  })
+
+  test('holds query type defaults to the configured topK limit', () => {
+    const previous = config.workflow.limits.topK
+    config.workflow.limits.topK = 6
+    try {
+      expect(resolveWorkflowPolicy('analytical').topK).toBe(6)
+      expect(resolveWorkflowPolicy('factual').topK).toBe(5)
+    } finally {
+      config.workflow.limits.topK = previous
+    }
+  })
+
+  test('request options take precedence over query type defaults', () => {
+    const policy = resolveWorkflowPolicy('analytical', { topK: 3, qualityThreshold: 0.9 })
+    expect(policy.topK).toBe(3)
+    expect(policy.qualityThreshold).toBe(0.9)
+  })
+
+  test('picks the retrieval strategy by query type', () => {
+    expect(resolveWorkflowPolicy('factual').retrievalStrategy).toEqual(['hybrid'])
+    expect(resolveWorkflowPolicy('analytical').retrievalStrategy).toEqual(['hybrid', 'rag_thorough'])
+    expect(resolveWorkflowPolicy('comparative').retrievalStrategy).toEqual(['hybrid_rrf'])
+    expect(resolveWorkflowPolicy('vague').retrievalStrategy).toEqual(['semantic'])
+  })
+
+  test('a configured retrieval strategy overrides the query type, request options override both', () => {
+    const original = config.retrieval.strategy
+    config.retrieval.strategy = ['semantic', 'rag_fast']
+    try {
+      expect(resolveWorkflowPolicy('analytical').retrievalStrategy).toEqual(['semantic', 'rag_fast'])
+      expect(
+        resolveWorkflowPolicy('analytical', { retrievalStrategy: ['hybrid_rrf'] }).retrievalStrategy
+      ).toEqual(['hybrid_rrf'])
+    } finally {
+      config.retrieval.strategy = original
+    }
+  })
+
+  test('leaves diversity selection off unless configured or requested', () => {
+    expect(resolveWorkflowPolicy().selection).toBeUndefined()
+    expect(resolveWorkflowPolicy(undefined, { diverseSelection: true }).selection).toMatchObject({
+      enabled: true,
+      maxChunksPerDocument: 3,
+    })
+
+    config.selection.enabled = true
+    try {
+      expect(resolveWorkflowPolicy().selection?.enabled).toBe(true)
+      expect(resolveWorkflowPolicy(undefined, { diverseSelection: false }).selection).toBeUndefined()
+    } finally {
+      config.selection.enabled = false
+    }
+  })
+})
+
+describe('validatePolicyOptions', () => {
+  test('accepts missing and in-range options', () => {
+    expect(validatePolicyOptions(undefined)).toBeUndefined()
+    expect(validatePolicyOptions({ maxIterations: 3, topK: 10, qualityThreshold: 0.8 })).toBeUndefined()
+  })
+
+  test('rejects values outside the configured limits', () => {
+    expect(validatePolicyOptions({ topK: 500 })).toBe('options.topK must be between 1 and 20')
+    expect(validatePolicyOptions({ maxIterations: 0 })).toBe('options.maxIterations must be between 1 and 5')
+  })
+
+  test('rejects unknown keys and wrong types', () => {
+    expect(validatePolicyOptions({ temperature: 1 })).toBe('Unknown option: temperature')
+    expect(validatePolicyOptions({ topK: 2.5 })).toBe('options.topK must be an integer')
+    expect(validatePolicyOptions({ diverseSelection: 'yes' })).toBe('options.diverseSelection must be a boolean')
+    expect(validatePolicyOptions('fast')).toBe('options must be an object')
+  })
+
+  test('checks retrievalStrategy against the known search methods', () => {
+    expect(validatePolicyOptions({ retrievalStrategy: ['semantic', 'rag_balanced'] })).toBeUndefined()
+    expect(validatePolicyOptions({ retrievalStrategy: [] })).toStartWith(
+      'options.retrievalStrategy must be a non-empty array of: hybrid, hybrid_rrf'
+    )
+    expect(validatePolicyOptions({ retrievalStrategy: ['grep'] })).toStartWith('options.retrievalStrategy')
+    expect(validatePolicyOptions({ retrievalStrategy: 'hybrid' })).toStartWith('options.retrievalStrategy')
+  })
+})
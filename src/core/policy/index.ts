@@ -0,0 +1,126 @@
+// src/core/policy/index.ts
+import { config, SEARCH_METHODS, type SearchMethod } from '../config'
+import type { QueryType } from '../state'
+import type { WorkflowPolicy, WorkflowPolicyOptions } from './types'
+
+export * from './types'
+
+type PolicyDefaults = Partial<Omit<WorkflowPolicy, 'models' | 'selection' | 'expansion'>>
+
+/**
+ * Per-query-type adjustments on top of the configured defaults.
+ */
+const QUERY_TYPE_DEFAULTS: Partial<Record<QueryType, PolicyDefaults>> = {
+  // Explanations draw on more passages than single facts, and the pipeline's
+  // thorough strategy finds related passages keyword matching misses
+  analytical: { topK: 8, retrievalStrategy: ['hybrid', 'rag_thorough'] },
+  // topK applies per compared entity and per hop, so keep each search narrower.
+  // Rank fusion keeps one entity's scores from drowning out the other's
+  comparative: { topK: 4, retrievalStrategy: ['hybrid_rrf'] },
+  multi_hop: { topK: 3 },
+  // Loosely worded queries have few keywords worth matching
+  vague: { retrievalStrategy: ['semantic'] },
+}
+
+function queryTypeDefaults(queryType: QueryType): PolicyDefaults | undefined {
+  const defaults = QUERY_TYPE_DEFAULTS[queryType]
+  if (defaults?.topK === undefined) {
+    return defaults
+  }
+  return { ...defaults, topK: Math.min(defaults.topK, config.workflow.limits.topK) }
+}
+
+type NumericOption = Exclude<keyof WorkflowPolicyOptions, 'retrievalStrategy' | 'diverseSelection'>
+
+/**
+ * Allowed range of each overridable setting.
+ */
+function optionBounds(): Record<NumericOption, { min: number; max: number; integer: boolean }> {
+  const limits = config.workflow.limits
+  return {
+    maxIterations: { min: 1, max: limits.maxIterations, integer: true },
+    qualityThreshold: { min: 0, max: 1, integer: false },
+    topK: { min: 1, max: limits.topK, integer: true },
+    maxRetrievalPasses: { min: 0, max: limits.retrievalPasses, integer: true },
+  }
+}
+
+/**
+ * Check per-request policy options against the configured limits.
+ * Returns an error message, or undefined when the options are acceptable.
+ */
+export function validatePolicyOptions(options: unknown): string | undefined {
+  if (options === undefined) {
+    return undefined
+  }
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return 'options must be an object'
+  }
+
+  const bounds = optionBounds()
+  for (const [key, value] of Object.entries(options)) {
+    if (key === 'retrievalStrategy') {
+      if (
+        !Array.isArray(value) ||
+        value.length === 0 ||
+        !value.every((method) => SEARCH_METHODS.includes(method as SearchMethod))
+      ) {
+        return `options.retrievalStrategy must be a non-empty array of: ${SEARCH_METHODS.join(', ')}`
+      }
+      continue
+    }
+    if (key === 'diverseSelection') {
+      if (typeof value !== 'boolean') {
+        return 'options.diverseSelection must be a boolean'
+      }
+      continue
+    }
+    const bound = bounds[key as NumericOption]
+    if (!bound) {
+      return `Unknown option: ${key}`
+    }
+    if (typeof value !== 'number' || (bound.integer && !Number.isInteger(value))) {
+      return `options.${key} must be ${bound.integer ? 'an integer' : 'a number'}`
+    }
+    if (value < bound.min || value > bound.max) {
+      return `options.${key} must be between ${bound.min} and ${bound.max}`
+    }
+  }
+  return undefined
+}
+
+/**
+ * Effective policy for a run: configured defaults, then query type
+ * adjustments, then the client's validated per-request options. A retrieval
+ * strategy pinned in config takes precedence over the query type's. Query
+ * type topKs are held to the configured limit like a client's would be.
+ */
+export function resolveWorkflowPolicy(
+  queryType?: QueryType,
+  options: WorkflowPolicyOptions = {}
+): WorkflowPolicy {
+  const workflow = config.workflow
+  const strategy = config.retrieval.strategy
+  const { diverseSelection = config.selection.enabled, ...overrides } = options
+  return {
+    maxIterations: workflow.maxIterations,
+    qualityThreshold: workflow.qualityThreshold,
+    topK: workflow.topK,
+    minRetrievalScore: config.retrieval.minScore,
+    minEvidenceScore: config.retrieval.minEvidenceScore,
+    maxRetrievalPasses: config.retrieval.maxPasses,
+    retrievalMode: config.retrieval.mode,
+    maxRetrievalSteps: config.retrieval.agentMaxSteps,
+    retrievalStrategy: ['hybrid'],
+    reranker: config.retrieval.reranker,
+    rerankCandidates: config.retrieval.rerankCandidates,
+    queryTransforms: [...config.retrieval.queryTransforms],
+    queryVariants: config.retrieval.queryVariants,
+    ...(queryType && queryTypeDefaults(queryType)),
+    ...(strategy !== 'auto' && { retrievalStrategy: strategy }),
+    ...overrides,
+    ...(diverseSelection && { selection: { ...config.selection, enabled: true } }),
+    expansion: { ...config.expansion },
+    models: { ...workflow.models },
+  }
+}
@@ -0,0 +1,59 @@
+// src/core/policy/types.ts
+import type {
+  ExpansionConfig,
+  QueryTransformName,
+  RerankerName,
+  RetrievalMode,
+  SearchMethod,
+  SelectionConfig,
+} from '../config'
+
+export type ModelRole = 'classifier' | 'generator' | 'critic' | 'utility'
+
+/**
+ * Knobs that shape one run of the agent graph.
+ */
+export interface WorkflowPolicy {
+  /** Generate/critique rounds before the best effort answer is returned */
+  maxIterations: number
+  /** Critic quality score that ends the refinement loop */
+  qualityThreshold: number
+  /** Chunks fetched per search (per entity for comparisons, per hop for multi-hop) */
+  topK: number
+  /** Retrieval scores below this send the graph back for more evidence */
+  minRetrievalScore: number
+  /** Critic completeness/sourceUsage scores below this also trigger re-retrieval */
+  minEvidenceScore: number
+  /** Re-retrieval passes allowed on top of the initial retrieval */
+  maxRetrievalPasses: number
+  retrievalMode: RetrievalMode
+  /** Search methods each retrieval runs; several are fused by reciprocal rank */
+  retrievalStrategy: SearchMethod[]
+  /** LLM steps allowed in agentic retrieval */
+  maxRetrievalSteps: number
+  reranker: RerankerName
+  /** Candidates fetched per search when reranking, of which topK are kept */
+  rerankCandidates: number
+  /** Rewrites of the query searched alongside it in single-mode retrieval */
+  queryTransforms: QueryTransformName[]
+  /** Alternative phrasings the multi_query transform generates */
+  queryVariants: number
+  /** Diversity selection and context packing of the retrieved chunks, when turned on */
+  selection?: SelectionConfig
+  /** Widening of retrieved chunks with their neighbours */
+  expansion: ExpansionConfig
+  models: Record<ModelRole, string>
+}
+
+/**
+ * Policy settings a client may override per request, within the configured limits.
+ */
+export type WorkflowPolicyOptions = Partial<
+  Pick<
+    WorkflowPolicy,
+    'maxIterations' | 'qualityThreshold' | 'topK' | 'maxRetrievalPasses' | 'retrievalStrategy'
+  >
+> & {
+  /** Turns diversity selection on or off whatever the configured default */
+  diverseSelection?: boolean
+}
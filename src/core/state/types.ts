@@ -1,23 +1,120 @@
 // src/core/state/types.ts
 import { Annotation } from '@langchain/langgraph'
+import type { SearchMethod } from '../config'
+import type { MetadataFilters } from '../filters'
+import type { WorkflowPolicy, WorkflowPolicyOptions } from '../policy/types'
 
 export type QueryType = 'factual' | 'analytical' | 'comparative' | 'vague' | 'multi_hop'
 
-export type AgentName = 'supervisor' | 'classifier' | 'retriever' | 'generator' | 'critic'
+export type AgentName =
+  | 'supervisor'
+  | 'classifier'
+  | 'retriever'
+  | 'generator'
+  | 'critic'
+  | 'decomposer'
+  | 'clarifier'
+  | 'contextualizer'
+  | 'extractor'
 
 export interface RetrievedChunk {
   chunkId: string
   content: string
+  /** Score from the search backend, used for the retrieval score thresholds */
   score: number
+  /** Relevance from the reranker, 0-1, when one ran; the chunks are then in this order */
+  rerankScore?: number
+  /** Adjacent chunks merged into the content, in document order */
+  expandedChunkIds?: string[]
+  /** Compared entity the chunk was retrieved for, in comparative retrieval */
+  entity?: string
   metadata?: Record<string, unknown>
 }
 
+/**
+ * A search the agentic retriever chose to run.
+ */
+export interface RetrievalToolCall {
+  tool: string
+  query: string
+  topK: number
+  resultCount: number
+  durationMs: number
+  error?: string
+}
+
+/**
+ * Rewrites of the query that were searched alongside it.
+ */
+export interface TransformedQueries {
+  /** Extracted keywords, sent to full-text search */
+  keywords?: string
+  /** Hypothetical answer passage (HyDE), sent to vector search */
+  hypotheticalAnswer?: string
+  /** Alternative phrasings, each run through the retrieval strategy */
+  variants?: string[]
+}
+
+export interface ComparisonCell {
+  entity: string
+  /** Cell text with the citation markers taken out */
+  text: string
+  /** Chunks the cell cites */
+  citations: string[]
+}
+
+export interface ComparisonRow {
+  aspect: string
+  /** One cell per compared entity, in column order */
+  cells: ComparisonCell[]
+}
+
+/**
+ * The comparison table of a comparative answer, in machine-readable form.
+ */
+export interface ComparisonTable {
+  entities: string[]
+  rows: ComparisonRow[]
+}
+
 export interface ConversationContext {
   previousQueries?: string[]
   previousResponses?: string[]
   sessionId?: string
 }
 
+export interface SubQuestion {
+  question: string
+  resolvedQuery: string
+  answer: string
+  chunkIds: string[]
+}
+
+export interface Clarification {
+  question: string
+  options: string[]
+  answer?: string
+}
+
+export interface CritiqueScores {
+  relevance: number
+  accuracy: number
+  completeness: number
+  clarity: number
+  sourceUsage: number
+}
+
+/**
+ * One generator draft and the critic's verdict on it.
+ */
+export interface DraftCritique {
+  iteration: number
+  draft: string
+  qualityScore: number
+  scores: CritiqueScores
+  refinementReason?: string
+}
+
 export interface AgentError {
   agent: AgentName
   message: string
@@ -26,18 +123,46 @@ export interface AgentError {
 
 export interface AgentStateValues {
   query: string
+  /** The query as the user typed it, set when `query` was rewritten to stand alone */
+  originalQuery?: string
   sessionId: string
   conversationId?: string
   context?: ConversationContext
+  /** Per-request overrides, already validated against the configured limits */
+  policyOptions?: WorkflowPolicyOptions
+  /** Effective policy, re-resolved once the query type is known */
+  policy?: WorkflowPolicy
   queryType?: QueryType
   classificationConfidence?: number
+  /**
+   * Metadata filters every search applies: the request's explicit filters,
+   * merged during classification with those extracted from the query
+   */
+  filters?: MetadataFilters
+  subQuestions?: SubQuestion[]
+  /** Entities a comparative query compares, each retrieved for separately */
+  comparedEntities?: string[]
+  /** Table parsed from the latest comparative answer */
+  comparisonTable?: ComparisonTable
+  clarification?: Clarification
   retrievedChunks?: RetrievedChunk[]
   retrievalScore?: number
+  /** Re-retrieval passes run so far, not counting the initial retrieval */
+  retrievalPasses?: number
+  /** Searches made by the agentic retriever, in call order */
+  retrievalToolCalls?: RetrievalToolCall[]
+  /** Search methods of the latest retrieval pass; unset when the agentic retriever found chunks itself */
+  retrievalStrategy?: SearchMethod[]
+  /** Query transforms of the initial retrieval; unset when none ran */
+  transformedQueries?: TransformedQueries
   draftAnswer?: string
   finalAnswer?: string
   qualityScore?: number
   needsRefinement?: boolean
   refinementReason?: string
+  critiqueScores?: CritiqueScores
+  /** Every draft/critique pair of the run, oldest first */
+  draftHistory?: DraftCritique[]
   currentAgent?: AgentName
   iterations: number
   errors: AgentError[]
@@ -45,18 +170,32 @@ export interface AgentStateValues {
 
 export const AgentStateAnnotation = Annotation.Root({
   query: Annotation<string>,
+  originalQuery: Annotation<string | undefined>,
   sessionId: Annotation<string>,
   conversationId: Annotation<string | undefined>,
   context: Annotation<ConversationContext | undefined>,
+  policyOptions: Annotation<WorkflowPolicyOptions | undefined>,
+  policy: Annotation<WorkflowPolicy | undefined>,
   queryType: Annotation<QueryType | undefined>,
   classificationConfidence: Annotation<number | undefined>,
+  filters: Annotation<MetadataFilters | undefined>,
+  subQuestions: Annotation<SubQuestion[] | undefined>,
+  comparedEntities: Annotation<string[] | undefined>,
+  comparisonTable: Annotation<ComparisonTable | undefined>,
+  clarification: Annotation<Clarification | undefined>,
   retrievedChunks: Annotation<RetrievedChunk[] | undefined>,
   retrievalScore: Annotation<number | undefined>,
+  retrievalPasses: Annotation<number | undefined>,
+  retrievalToolCalls: Annotation<RetrievalToolCall[] | undefined>,
+  retrievalStrategy: Annotation<SearchMethod[] | undefined>,
+  transformedQueries: Annotation<TransformedQueries | undefined>,
   draftAnswer: Annotation<string | undefined>,
   finalAnswer: Annotation<string | undefined>,
   qualityScore: Annotation<number | undefined>,
   needsRefinement: Annotation<boolean | undefined>,
   refinementReason: Annotation<string | undefined>,
+  critiqueScores: Annotation<CritiqueScores | undefined>,
+  draftHistory: Annotation<DraftCritique[] | undefined>,
   currentAgent: Annotation<AgentName | undefined>,
   iterations: Annotation<number>,
   errors: Annotation<AgentError[]>,
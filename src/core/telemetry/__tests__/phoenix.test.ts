@@ -72,6 +72,15 @@ describe('Phoenix Telemetry', () => {
       // Phoenix should remain disabled since no endpoint was configured
       expect(isPhoenixEnabled()).toBe(false)
     })
+
+    test('reports its status through the given log function', () => {
+      delete process.env.PHOENIX_ENDPOINT
+      const messages: string[] = []
+
+      initPhoenix((message) => messages.push(message))
+
+      expect(messages).toEqual(['[Phoenix] Endpoint not configured, tracing disabled'])
+    })
   })
 
   describe('withSessionContext', () => {
@@ -10,13 +10,14 @@ let phoenixEnabled = false
 /**
  * Initialize Phoenix OpenTelemetry tracing.
  * Gracefully degrades if endpoint is not configured or registration fails.
+ * Status messages go to `log`, stdout unless the caller needs it kept clean.
  */
-export function initPhoenix(): void {
+export function initPhoenix(log: (message: string) => void = console.log): void {
   const endpoint = config.telemetry.phoenixEndpoint
   const apiKey = config.telemetry.phoenixApiKey
 
   if (!endpoint) {
-    console.log('[Phoenix] Endpoint not configured, tracing disabled')
+    log('[Phoenix] Endpoint not configured, tracing disabled')
     return
   }
 
@@ -27,7 +28,7 @@ export function initPhoenix(): void {
       apiKey: apiKey,
     })
     phoenixEnabled = true
-    console.log(`[Phoenix] Tracing enabled, endpoint: ${endpoint}`)
+    log(`[Phoenix] Tracing enabled, endpoint: ${endpoint}`)
   } catch (error) {
     console.warn(
       '[Phoenix] Failed to register:',
@@ -124,14 +125,36 @@ export interface SpanAttributes {
   'llm.token_count.completion'?: number
   'input.value'?: string
   'output.value'?: string
-  'openinference.span.kind'?: 'agent' | 'chain' | 'llm' | 'tool' | 'retriever'
+  'openinference.span.kind'?: 'agent' | 'chain' | 'llm' | 'tool' | 'retriever' | 'reranker'
 
   // Custom domain-specific attributes
   'query.type'?: string
   'retrieval.score'?: number
+  'retrieval.pass'?: number
+  /** Search methods of a retrieval, joined with + */
+  'retrieval.strategy'?: string
+  /** JSON of the metadata filters a retrieval applied */
+  'retrieval.filters'?: string
+  /** Entities of a comparative query, joined with | */
+  'comparison.entities'?: string
+  /** Query transforms applied before a retrieval, joined with + */
+  'query.transforms'?: string
+  'selection.candidate_count'?: number
+  /** Candidates dropped as near-duplicates of a higher-ranked chunk */
+  'selection.duplicate_count'?: number
+  /** Chunks dropped to fit the generator's context budget */
+  'selection.packed_out_count'?: number
+  /** Adjacent chunks merged into retrieved hits */
+  'expansion.neighbour_count'?: number
   'quality.score'?: number
+  'generation.is_refinement'?: boolean
   'iteration.count'?: number
-  'workflow.status'?: 'in_progress' | 'completed' | 'failed'
+  'workflow.status'?: 'in_progress' | 'completed' | 'failed' | 'cancelled'
+  /** CancelReason of a run that stopped early */
+  'workflow.cancel_reason'?: string
+  'workflow.route'?: string
+  /** JSON of the effective WorkflowPolicy */
+  'workflow.policy'?: string
   'tool.name'?: string
   'tool.result_count'?: number
 
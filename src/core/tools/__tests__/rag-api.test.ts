@@ -1,6 +1,6 @@
 // src/core/tools/__tests__/rag-api.test.ts
 import { describe, test, expect, mock, beforeEach } from 'bun:test'
-import { hybridSearch, semanticTextSearch, ragQuery } from '../rag-api'
+import { hybridSearch, semanticTextSearch, textSearch, ragQuery } from '../rag-api'
 
 // Mock fetch globally
 global.fetch = mock(() =>
@@ -25,6 +25,11 @@ describe('RAG API Tools', () => {
     expect(result).toBeDefined()
   })
 
+  test('textSearch calls correct endpoint', async () => {
+    const result = await textSearch({ query: 'test query', topK: 5 })
+    expect(result).toBeDefined()
+  })
+
   test('ragQuery calls correct endpoint with strategy', async () => {
     const result = await ragQuery({ query: 'test query', strategy: 'balanced' })
     expect(result).toBeDefined()
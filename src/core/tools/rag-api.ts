@@ -34,6 +34,12 @@ export interface SemanticSearchResponse {
   query_time_ms: number
 }
 
+export interface TextSearchResponse {
+  results: SearchResult[]
+  total: number
+  query_time_ms: number
+}
+
 export interface RAGQueryResponse {
   results: SearchResult[]
   total: number
@@ -45,6 +51,7 @@ interface SearchOptions {
   query: string
   topK?: number
   filters?: Record<string, unknown>
+  signal?: AbortSignal
 }
 
 interface HybridSearchOptions extends SearchOptions {
@@ -58,6 +65,7 @@ interface RAGQueryOptions {
   strategy?: 'auto' | 'fast' | 'balanced' | 'thorough'
   context?: Record<string, unknown>
   topK?: number
+  signal?: AbortSignal
 }
 
 export async function hybridSearch(options: HybridSearchOptions): Promise<HybridSearchResponse> {
@@ -72,6 +80,7 @@ export async function hybridSearch(options: HybridSearchOptions): Promise<Hybrid
       fusion_method: options.fusionMethod ?? 'weighted_sum',
       filters: options.filters ?? {},
     }),
+    signal: options.signal,
   })
 
   if (!response.ok) {
@@ -90,6 +99,7 @@ export async function semanticTextSearch(options: SearchOptions): Promise<Semant
       top_k: options.topK ?? 5,
       filters: options.filters ?? {},
     }),
+    signal: options.signal,
   })
 
   if (!response.ok) {
@@ -99,6 +109,25 @@ export async function semanticTextSearch(options: SearchOptions): Promise<Semant
   return response.json() as Promise<SemanticSearchResponse>
 }
 
+export async function textSearch(options: SearchOptions): Promise<TextSearchResponse> {
+  const response = await fetch(`${RAG_API}/api/v1/search/text`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify({
+      query: options.query,
+      top_k: options.topK ?? 5,
+      filters: options.filters ?? {},
+    }),
+    signal: options.signal,
+  })
+
+  if (!response.ok) {
+    throw new Error(`Text search failed: ${response.statusText}`)
+  }
+
+  return response.json() as Promise<TextSearchResponse>
+}
+
 export async function ragQuery(options: RAGQueryOptions): Promise<RAGQueryResponse> {
   const response = await fetch(`${RAG_API}/api/v1/rag/query`, {
     method: 'POST',
@@ -109,6 +138,7 @@ export async function ragQuery(options: RAGQueryOptions): Promise<RAGQueryRespon
       context: options.context,
       top_k: options.topK ?? 5,
     }),
+    signal: options.signal,
   })
 
   if (!response.ok) {
@@ -0,0 +1,16 @@
+// src/mcp-stdio.ts
+import { validateEnv } from './core/config'
+import { initPhoenix } from './core/telemetry'
+import { getMcpServer, serveStdio } from './mcp'
+
+// Enable AI SDK OpenTelemetry instrumentation
+// Must be set before any AI SDK calls
+process.env.AI_SDK_OTEL_ENABLED = 'true'
+
+validateEnv()
+// stdout carries protocol messages only, so status output goes to stderr
+initPhoenix(console.error)
+
+// A local process started by the MCP client: there is no request to carry an
+// API key, so access is governed by whoever can launch it
+await serveStdio(getMcpServer())
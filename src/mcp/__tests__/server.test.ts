@@ -0,0 +1,92 @@
+// src/mcp/__tests__/server.test.ts
+import { describe, test, expect } from 'bun:test'
+import { z } from 'zod'
+import { ErrorCode } from '../protocol'
+import { McpServer } from '../server'
+import type { McpTool } from '../tools'
+
+const echo: McpTool = {
+  name: 'echo',
+  title: 'Echo',
+  description: 'Echo the input back',
+  inputSchema: z.object({ text: z.string() }),
+  execute: async (args) => ({ content: [{ type: 'text', text: String(args.text) }] }),
+}
+
+const failing: McpTool = {
+  name: 'failing',
+  title: 'Failing',
+  description: 'Always throws',
+  inputSchema: z.object({}),
+  execute: async () => {
+    throw new Error('Search failed')
+  },
+}
+
+function request(id: number, method: string, params?: Record<string, unknown>) {
+  return { jsonrpc: '2.0', id, method, params }
+}
+
+describe('McpServer', () => {
+  const server = new McpServer([echo, failing])
+
+  test('negotiates the protocol version on initialize', async () => {
+    const supported = await server.handle(request(1, 'initialize', { protocolVersion: '2025-03-26' }))
+    const unknown = await server.handle(request(2, 'initialize', { protocolVersion: '1999-01-01' }))
+
+    expect(supported).toMatchObject({
+      id: 1,
+      result: { protocolVersion: '2025-03-26', capabilities: { tools: {}, resources: {} } },
+    })
+    expect(unknown).toMatchObject({ result: { protocolVersion: '2025-06-18' } })
+  })
+
+  test('lists tools with JSON Schema inputs', async () => {
+    const response = await server.handle(request(1, 'tools/list'))
+
+    expect(response).toMatchObject({
+      result: {
+        tools: [
+          { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+          { name: 'failing' },
+        ],
+      },
+    })
+  })
+
+  test('calls a tool with validated arguments', async () => {
+    const response = await server.handle(request(1, 'tools/call', { name: 'echo', arguments: { text: 'hi' } }))
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'hi' }] } })
+  })
+
+  test('reports tool failures as error results', async () => {
+    const response = await server.handle(request(1, 'tools/call', { name: 'failing' }))
+
+    expect(response).toMatchObject({
+      result: { content: [{ type: 'text', text: 'Search failed' }], isError: true },
+    })
+  })
+
+  test('rejects unknown tools and invalid arguments as protocol errors', async () => {
+    const unknown = await server.handle(request(1, 'tools/call', { name: 'missing' }))
+    const invalid = await server.handle(request(2, 'tools/call', { name: 'echo', arguments: { text: 1 } }))
+
+    expect(unknown).toMatchObject({ error: { code: ErrorCode.InvalidParams, message: 'Unknown tool: missing' } })
+    expect(invalid).toMatchObject({ error: { code: ErrorCode.InvalidParams } })
+  })
+
+  test('answers unknown methods and malformed messages with errors', async () => {
+    expect(await server.handle(request(1, 'prompts/list'))).toMatchObject({
+      error: { code: ErrorCode.MethodNotFound },
+    })
+    expect(await server.handle({ id: 3, method: 'ping' })).toMatchObject({
+      id: 3,
+      error: { code: ErrorCode.InvalidRequest },
+    })
+  })
+
+  test('does not respond to notifications', async () => {
+    expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined()
+  })
+})
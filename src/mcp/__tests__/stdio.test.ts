@@ -0,0 +1,70 @@
+// src/mcp/__tests__/stdio.test.ts
+import { describe, test, expect } from 'bun:test'
+import { z } from 'zod'
+import { McpServer } from '../server'
+import { serveStdio } from '../stdio'
+import type { McpTool } from '../tools'
+
+/**
+ * Tool that runs until its signal aborts, recording the cancellation.
+ */
+function blockingTool(cancelled: string[]): McpTool {
+  return {
+    name: 'block',
+    title: 'Block',
+    description: 'Wait until cancelled',
+    inputSchema: z.object({}),
+    execute: (_args, signal) =>
+      new Promise((resolve) => {
+        signal.addEventListener('abort', () => {
+          cancelled.push('block')
+          resolve({ content: [{ type: 'text', text: 'cancelled' }] })
+        })
+      }),
+  }
+}
+
+async function* lines(...messages: Array<unknown>) {
+  for (const message of messages) {
+    yield `${typeof message === 'string' ? message : JSON.stringify(message)}\n`
+    await Bun.sleep(1)
+  }
+}
+
+describe('serveStdio', () => {
+  test('answers one JSON line per request', async () => {
+    const output: string[] = []
+    await serveStdio(
+      new McpServer([]),
+      lines(
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        'not json'
+      ),
+      (line) => output.push(line)
+    )
+    await Bun.sleep(1)
+
+    expect(output.map((line) => JSON.parse(line))).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+    ])
+  })
+
+  test('cancels a request on notifications/cancelled without responding', async () => {
+    const cancelled: string[] = []
+    const output: string[] = []
+    await serveStdio(
+      new McpServer([blockingTool(cancelled)]),
+      lines(
+        { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'block' } },
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7 } }
+      ),
+      (line) => output.push(line)
+    )
+    await Bun.sleep(1)
+
+    expect(cancelled).toEqual(['block'])
+    expect(output).toEqual([])
+  })
+})
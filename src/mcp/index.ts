@@ -0,0 +1,19 @@
+// src/mcp/index.ts
+import { McpServer } from './server'
+
+export * from './protocol'
+export { McpServer } from './server'
+export { serveStdio } from './stdio'
+export { mcpTools, type McpTool, type ToolResult } from './tools'
+
+let _server: McpServer | undefined
+
+/**
+ * Shared MCP server, created on first use.
+ */
+export function getMcpServer(): McpServer {
+  if (!_server) {
+    _server = new McpServer()
+  }
+  return _server
+}
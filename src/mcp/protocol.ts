@@ -0,0 +1,89 @@
+// src/mcp/protocol.ts
+
+/**
+ * MCP revisions this server speaks, newest first. A client asking for an
+ * unknown revision is answered with the newest one.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0]
+
+export const SERVER_INFO = {
+  name: 'agentic-data-pipeline-agents',
+  version: '1.0.0',
+}
+
+/**
+ * JSON-RPC error codes, plus the MCP-specific resource error.
+ */
+export const ErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ResourceNotFound: -32002,
+} as const
+
+export type RequestId = string | number
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  id: RequestId
+  method: string
+  params?: Record<string, unknown>
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: Record<string, unknown>
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: RequestId; result: unknown }
+  | {
+      jsonrpc: '2.0'
+      id: RequestId | null
+      error: { code: number; message: string; data?: unknown }
+    }
+
+/**
+ * Error a method handler throws to answer with a JSON-RPC error.
+ */
+export class McpError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'McpError'
+  }
+}
+
+export function isRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'id' in message && message.id !== undefined && message.id !== null
+}
+
+/**
+ * Check the JSON-RPC envelope of an incoming message. Responses from the
+ * client are not expected since this server never sends requests.
+ */
+export function parseMessage(value: unknown): JsonRpcMessage | undefined {
+  const message = value as Partial<JsonRpcRequest> | null
+  if (
+    typeof message !== 'object' ||
+    message === null ||
+    message.jsonrpc !== '2.0' ||
+    typeof message.method !== 'string'
+  ) {
+    return undefined
+  }
+  return message as JsonRpcMessage
+}
+
+export function errorResponse(id: RequestId | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } }
+}
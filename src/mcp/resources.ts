@@ -0,0 +1,64 @@
+// src/mcp/resources.ts
+import { getConversationStore, renderConversationMarkdown } from '@/core/conversation'
+import { ErrorCode, McpError } from './protocol'
+
+const CONVERSATION_SCHEME = 'conversation://'
+
+/**
+ * Conversations listed per resources/list page.
+ */
+export const RESOURCE_PAGE_SIZE = 50
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${CONVERSATION_SCHEME}{id}`,
+    name: 'conversation',
+    title: 'Conversation',
+    description: 'A conversation transcript as Markdown, with the sources behind each answer',
+    mimeType: 'text/markdown',
+  },
+]
+
+export function conversationUri(conversationId: string): string {
+  return `${CONVERSATION_SCHEME}${encodeURIComponent(conversationId)}`
+}
+
+/**
+ * One page of conversations, most recently updated first. The cursor is the offset of the next page.
+ */
+export async function listConversationResources(cursor?: string) {
+  const offset = cursor ? Number.parseInt(cursor, 10) : 0
+  if (Number.isNaN(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`)
+  }
+
+  const conversations = await getConversationStore().listConversations({
+    limit: RESOURCE_PAGE_SIZE,
+    offset,
+  })
+  return {
+    resources: conversations.map((conversation) => ({
+      uri: conversationUri(conversation.id),
+      name: conversation.id,
+      title: conversation.title,
+      mimeType: 'text/markdown',
+    })),
+    nextCursor:
+      conversations.length === RESOURCE_PAGE_SIZE ? String(offset + RESOURCE_PAGE_SIZE) : undefined,
+  }
+}
+
+export async function readConversationResource(uri: string) {
+  if (!uri.startsWith(CONVERSATION_SCHEME)) {
+    throw new McpError(ErrorCode.ResourceNotFound, `Resource not found: ${uri}`)
+  }
+
+  const conversationId = decodeURIComponent(uri.slice(CONVERSATION_SCHEME.length))
+  const conversation = await getConversationStore().getConversation(conversationId)
+  if (!conversation) {
+    throw new McpError(ErrorCode.ResourceNotFound, `Resource not found: ${uri}`)
+  }
+  return {
+    contents: [{ uri, mimeType: 'text/markdown', text: renderConversationMarkdown(conversation) }],
+  }
+}
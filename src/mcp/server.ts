@@ -0,0 +1,121 @@
+// src/mcp/server.ts
+import { z } from 'zod'
+import { createRunSignal } from '@/core/cancellation'
+import { createSpan, SemanticConventions } from '@/core/telemetry'
+import {
+  ErrorCode,
+  LATEST_PROTOCOL_VERSION,
+  McpError,
+  SERVER_INFO,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  errorResponse,
+  isRequest,
+  parseMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './protocol'
+import { listConversationResources, readConversationResource, resourceTemplates } from './resources'
+import { describeTool, mcpTools, toolError, type McpTool, type ToolResult } from './tools'
+
+/**
+ * Transport-independent MCP server: tools over the agent system and
+ * conversations as resources. Transports feed it one message at a time.
+ */
+export class McpServer {
+  constructor(private tools: McpTool[] = mcpTools) {}
+
+  /**
+   * Handle one incoming message. Returns the response to a request, or
+   * undefined for notifications, which need none.
+   */
+  async handle(value: unknown, signal?: AbortSignal): Promise<JsonRpcResponse | undefined> {
+    const message = parseMessage(value)
+    if (!message) {
+      const id = (value as { id?: unknown } | null)?.id
+      return errorResponse(
+        typeof id === 'string' || typeof id === 'number' ? id : null,
+        ErrorCode.InvalidRequest,
+        'Invalid JSON-RPC request'
+      )
+    }
+    if (!isRequest(message)) {
+      return undefined
+    }
+
+    try {
+      return { jsonrpc: '2.0', id: message.id, result: await this.dispatch(message, signal) }
+    } catch (error) {
+      if (error instanceof McpError) {
+        return errorResponse(message.id, error.code, error.message)
+      }
+      return errorResponse(
+        message.id,
+        ErrorCode.InternalError,
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+    }
+  }
+
+  private async dispatch(request: JsonRpcRequest, signal?: AbortSignal): Promise<unknown> {
+    const params = request.params ?? {}
+
+    switch (request.method) {
+      case 'initialize': {
+        const requested = params.protocolVersion as string
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : LATEST_PROTOCOL_VERSION,
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: SERVER_INFO,
+        }
+      }
+      case 'ping':
+        return {}
+      case 'tools/list':
+        return { tools: this.tools.map(describeTool) }
+      case 'tools/call':
+        return this.callTool(params, signal)
+      case 'resources/list':
+        return listConversationResources(params.cursor as string | undefined)
+      case 'resources/templates/list':
+        return { resourceTemplates }
+      case 'resources/read':
+        if (typeof params.uri !== 'string') {
+          throw new McpError(ErrorCode.InvalidParams, 'uri is required')
+        }
+        return readConversationResource(params.uri)
+      default:
+        throw new McpError(ErrorCode.MethodNotFound, `Method not found: ${request.method}`)
+    }
+  }
+
+  private async callTool(params: Record<string, unknown>, signal?: AbortSignal): Promise<ToolResult> {
+    const tool = this.tools.find((candidate) => candidate.name === params.name)
+    if (!tool) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${params.name}`)
+    }
+    const parsed = tool.inputSchema.safeParse(params.arguments ?? {})
+    if (!parsed.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for ${tool.name}: ${z.prettifyError(parsed.error)}`
+      )
+    }
+
+    return createSpan('mcp_tool_call', {
+      [SemanticConventions.OPENINFERENCE_SPAN_KIND]: 'tool',
+      'tool.name': tool.name,
+      'input.value': JSON.stringify(parsed.data).substring(0, 500),
+    }, async (span) => {
+      try {
+        // Same run deadline as the HTTP API, on top of client cancellation
+        const result = await tool.execute(parsed.data, createRunSignal(signal))
+        span?.setAttributes({ 'output.value': result.content[0]?.text.substring(0, 500) })
+        return result
+      } catch (error) {
+        return toolError(error instanceof Error ? error.message : 'Unknown error')
+      }
+    })
+  }
+}
@@ -0,0 +1,68 @@
+// src/mcp/stdio.ts
+import { ErrorCode, errorResponse, isRequest, parseMessage, type RequestId } from './protocol'
+import type { McpServer } from './server'
+
+/**
+ * Serve MCP over newline-delimited JSON-RPC, one message per line. Requests run
+ * concurrently so a notifications/cancelled can stop one that is in flight.
+ * Resolves when the input ends; requests still running are then cancelled.
+ */
+export async function serveStdio(
+  server: McpServer,
+  input: AsyncIterable<Uint8Array | string> = process.stdin,
+  write: (line: string) => void = (line) => process.stdout.write(line)
+): Promise<void> {
+  const inFlight = new Map<RequestId, AbortController>()
+  const send = (message: unknown) => write(`${JSON.stringify(message)}\n`)
+
+  const receive = (line: string) => {
+    let value: unknown
+    try {
+      value = JSON.parse(line)
+    } catch {
+      send(errorResponse(null, ErrorCode.ParseError, 'Parse error'))
+      return
+    }
+
+    const message = parseMessage(value)
+    if (message?.method === 'notifications/cancelled') {
+      inFlight.get(message.params?.requestId as RequestId)?.abort()
+      return
+    }
+
+    const controller = new AbortController()
+    const id = message && isRequest(message) ? message.id : undefined
+    if (id !== undefined) {
+      inFlight.set(id, controller)
+    }
+    void server.handle(value, controller.signal).then((response) => {
+      if (id !== undefined) {
+        inFlight.delete(id)
+      }
+      // Cancelled requests get no response
+      if (response && !controller.signal.aborted) {
+        send(response)
+      }
+    })
+  }
+
+  const decoder = new TextDecoder()
+  let buffered = ''
+  for await (const chunk of input) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+    const lines = buffered.split('\n')
+    buffered = lines.pop() ?? ''
+    for (const line of lines) {
+      if (line.trim()) {
+        receive(line)
+      }
+    }
+  }
+  if (buffered.trim()) {
+    receive(buffered)
+  }
+
+  for (const controller of inFlight.values()) {
+    controller.abort()
+  }
+}
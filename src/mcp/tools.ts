@@ -0,0 +1,151 @@
+// src/mcp/tools.ts
+import { z } from 'zod'
+import { classifyQuery } from '@/agents/classifier'
+import { retrieverTools } from '@/agents/retriever'
+import { config, SEARCH_METHODS } from '@/core/config'
+import type { HybridSearchResponse } from '@/core/tools'
+import { isAwaitingClarification, runChat, validateChatRequest } from '@/api/runner'
+
+/**
+ * Result of a tool call as MCP clients receive it. Failures the model should
+ * see (bad options, search errors) are results with isError, not protocol errors.
+ */
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>
+  structuredContent?: Record<string, unknown>
+  isError?: boolean
+}
+
+export interface McpTool<S extends z.ZodObject = z.ZodObject> {
+  name: string
+  title: string
+  description: string
+  inputSchema: S
+  execute(args: z.infer<S>, signal: AbortSignal): Promise<ToolResult>
+}
+
+/**
+ * Type a tool's execute arguments from its input schema. The server parses
+ * every call's arguments with that schema before execute runs.
+ */
+function defineTool<S extends z.ZodObject>(tool: McpTool<S>): McpTool {
+  return tool
+}
+
+function jsonResult(value: Record<string, unknown>): ToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value) }], structuredContent: value }
+}
+
+export function toolError(message: string): ToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true }
+}
+
+const askKnowledgeBase = defineTool({
+  name: 'ask_knowledge_base',
+  title: 'Ask the knowledge base',
+  description:
+    'Answer a question from the document knowledge base with cited sources. Runs the full ' +
+    'agent workflow: classification, retrieval, generation and critique. Ambiguous questions ' +
+    'come back with a clarifying question; answer it by calling again with the resumeToken.',
+  inputSchema: z.object({
+    query: z.string().describe('The question, or the answer to a clarifying question'),
+    conversationId: z.string().optional().describe('Continue an earlier conversation'),
+    resumeToken: z.string().optional().describe('Token from a needs_clarification result'),
+    options: z
+      .object({
+        maxIterations: z.number().int().optional(),
+        qualityThreshold: z.number().optional(),
+        topK: z.number().int().optional(),
+        maxRetrievalPasses: z.number().int().optional(),
+        retrievalStrategy: z.array(z.enum(SEARCH_METHODS)).optional(),
+        diverseSelection: z.boolean().optional(),
+      })
+      .optional()
+      .describe('Workflow policy overrides'),
+    filters: z
+      .record(
+        z.string(),
+        z.union([
+          z.string(),
+          z.number(),
+          z.boolean(),
+          z.object({ gte: z.string().optional(), lte: z.string().optional() }),
+        ])
+      )
+      .optional()
+      .describe('Metadata filters for every search, e.g. {"year": 2024} or {"published": {"gte": "2024-01-01"}}'),
+  }),
+  async execute(args, signal) {
+    const requestError = validateChatRequest(args)
+    if (requestError) {
+      return toolError(requestError)
+    }
+    if (args.resumeToken && !(await isAwaitingClarification(args.resumeToken))) {
+      return toolError('Invalid or expired resume token')
+    }
+
+    const result = await runChat(args, signal)
+    if (result.status === 'cancelled') {
+      return toolError(`Run cancelled: ${result.cancelReason}`)
+    }
+    const text =
+      result.status === 'needs_clarification'
+        ? (result.clarification.question ?? '')
+        : (result.answer ?? '')
+    return { content: [{ type: 'text', text }], structuredContent: { ...result } }
+  },
+})
+
+const searchDocuments = defineTool({
+  name: 'search_documents',
+  title: 'Search documents',
+  description:
+    'Search the document knowledge base and return matching chunks with scores, ' +
+    'without generating an answer.',
+  inputSchema: z.object({
+    query: z.string().describe('The search query'),
+    topK: z.number().int().min(1).optional().describe('Number of results'),
+    mode: z
+      .enum(['hybrid', 'semantic'])
+      .optional()
+      .describe('hybrid (vector + text, default) or semantic similarity only'),
+  }),
+  async execute({ query, topK, mode }, signal) {
+    const search = mode === 'semantic' ? retrieverTools.semantic_search : retrieverTools.hybrid_search
+    // Both searches resolve to the same response shape
+    const response = (await search.execute?.(
+      { query, topK: Math.min(topK ?? 5, config.workflow.limits.topK) },
+      { toolCallId: crypto.randomUUID(), messages: [], abortSignal: signal }
+    )) as HybridSearchResponse
+    return jsonResult({ results: response.results, total: response.total })
+  },
+})
+
+const classifyQueryTool = defineTool({
+  name: 'classify_query',
+  title: 'Classify a query',
+  description:
+    'Classify a question as factual, analytical, comparative, vague or multi_hop, ' +
+    'with a confidence score and reasoning.',
+  inputSchema: z.object({
+    query: z.string().min(1).describe('The question to classify'),
+  }),
+  async execute({ query }, signal) {
+    const classification = await classifyQuery(query, config.workflow.models.classifier, signal)
+    return jsonResult({ ...classification })
+  },
+})
+
+export const mcpTools: McpTool[] = [askKnowledgeBase, searchDocuments, classifyQueryTool]
+
+/**
+ * Tool as listed by tools/list, with its input schema as JSON Schema.
+ */
+export function describeTool(tool: McpTool) {
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema: z.toJSONSchema(tool.inputSchema),
+  }
+}
@@ -16,6 +16,55 @@ export const llmFixtures = {
       confidence: 0.6,
       reasoning: 'Unclear intent, needs clarification',
     },
+    comparative: {
+      queryType: 'comparative' as const,
+      confidence: 0.9,
+      reasoning: 'Query compares two items',
+    },
+    multiHop: {
+      queryType: 'multi_hop' as const,
+      confidence: 0.85,
+      reasoning: 'Answer depends on an intermediate fact',
+    },
+  },
+  decomposer: {
+    success: {
+      subQueries: ['Who wrote the ML guide?', 'What else has that author published?'],
+      reasoning: 'Need the author before finding other publications',
+    },
+    rewrite: 'What else has Jane Doe published?',
+    subAnswer: 'Jane Doe wrote the ML guide.',
+  },
+  contextualizer: {
+    rewrite: 'What is the pricing of machine learning platforms?',
+  },
+  reformulator: {
+    rewrite: 'machine learning algorithms training data examples',
+  },
+  comparison: {
+    entities: { entities: ['supervised learning', 'unsupervised learning'] },
+    answer: `| Aspect | supervised learning | unsupervised learning |
+| --- | --- | --- |
+| Training data | Labeled examples [1] | Unlabeled data [2] |
+| Typical task | Classification [1, 3] | Clustering [2][4] |
+
+Supervised learning needs labels [1], while unsupervised learning finds structure on its own [2].`,
+  },
+  filterExtractor: {
+    success: { filters: { year: 2024, doc_type: 'security' } },
+  },
+  queryTransforms: {
+    hypotheticalAnswer:
+      'Machine learning is a branch of artificial intelligence in which models learn patterns from training data.',
+    multiQuery: {
+      queries: ['definition of machine learning', 'how do computers learn from data'],
+    },
+  },
+  clarifier: {
+    success: {
+      question: 'Which aspect of machine learning are you interested in?',
+      options: ['Supervised learning', 'Neural networks', 'Model deployment'],
+    },
   },
   generator: {
     success: 'Machine learning is a subset of artificial intelligence that uses algorithms to learn from data [1][2]. It enables systems to improve their performance on tasks through experience.',
@@ -0,0 +1,119 @@
+// tests/integration/api/batch.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+import type { BatchItemLine, BatchLine, BatchSummaryLine } from '@/api/batch'
+
+async function submitBatch(body: Record<string, unknown>) {
+  const { default: app } = await import('@/api/server')
+  return app.request('/api/v1/chat/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+async function readLines(res: Response): Promise<BatchLine[]> {
+  const text = await res.text()
+  return text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as BatchLine)
+}
+
+function itemLines(lines: BatchLine[]): BatchItemLine[] {
+  return lines.filter((line): line is BatchItemLine => line.type === 'item')
+}
+
+function summaryLine(lines: BatchLine[]): BatchSummaryLine {
+  const summary = lines.at(-1)
+  if (summary?.type !== 'summary') throw new Error('Batch did not end with a summary line')
+  return summary
+}
+
+describe('API - Batch', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  test('streams one NDJSON line per item followed by a summary', async () => {
+    mockLLM()
+    mockRAG()
+
+    const res = await submitBatch({
+      items: [
+        { id: 'q1', query: 'What is AI?' },
+        { id: 'q2', query: 'What is machine learning?' },
+      ],
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('application/x-ndjson')
+
+    const lines = await readLines(res)
+    expect(lines).toHaveLength(3)
+
+    const items = itemLines(lines.slice(0, 2))
+    expect(items.map((line) => line.id).sort()).toEqual(['q1', 'q2'])
+    for (const line of items) {
+      expect(line).toMatchObject({ type: 'item', status: 'completed' })
+      expect(line.result).toMatchObject({ answer: expect.any(String) })
+      expect(line.usage.totalTokens).toBeGreaterThan(0)
+    }
+
+    const summary = summaryLine(lines)
+    expect(summary).toMatchObject({ type: 'summary', total: 2, counts: { completed: 2, failed: 0 } })
+    expect(summary.usage.totalTokens).toBe(items[0].usage.totalTokens + items[1].usage.totalTokens)
+    expect(summary.itemDurationMs.max).toBeGreaterThanOrEqual(0)
+  })
+
+  test('reports a failed item without failing the batch', async () => {
+    mockLLM()
+    mockRAG()
+
+    const res = await submitBatch({
+      items: [
+        { id: 'good', query: 'What is AI?' },
+        { id: 'bad', query: '' },
+      ],
+    })
+
+    expect(res.status).toBe(200)
+    const lines = await readLines(res)
+    const items = itemLines(lines)
+    const bad = items.find((line) => line.id === 'bad')
+    expect(bad).toMatchObject({ status: 'failed', error: 'Query is required' })
+    expect(items.find((line) => line.id === 'good')?.status).toBe('completed')
+    expect(summaryLine(lines)).toMatchObject({ counts: { completed: 1, failed: 1 } })
+  })
+
+  test('applies shared options to every item', async () => {
+    mockLLM()
+    mockRAG()
+
+    const res = await submitBatch({
+      items: [{ id: 'q1', query: 'What is AI?' }],
+      options: { topK: 2 },
+    })
+
+    const [item] = itemLines(await readLines(res))
+    expect(item.result).toMatchObject({ status: 'completed', policy: { topK: 2 } })
+  })
+
+  test('returns 400 for an empty item list', async () => {
+    const res = await submitBatch({ items: [] })
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'items must be a non-empty array' })
+  })
+
+  test('returns 400 for duplicate item ids', async () => {
+    const res = await submitBatch({
+      items: [
+        { id: 'q1', query: 'What is AI?' },
+        { id: 'q1', query: 'What is ML?' },
+      ],
+    })
+
+    expect(res.status).toBe(400)
+  })
+})
@@ -0,0 +1,143 @@
+// tests/integration/api/cancellation.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { getCallCounts, getRAGRequests, mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+
+/**
+ * Read an SSE response to the end and parse each event's JSON envelope.
+ */
+async function readEvents(res: Response): Promise<Array<{ type: string; data: Record<string, unknown> }>> {
+  const text = await res.text()
+  return text
+    .split('\n\n')
+    .filter((block) => block.includes('data:'))
+    .map((block) => JSON.parse(block.match(/^data: (.+)$/m)?.[1] ?? 'null'))
+}
+
+describe('API - Run Cancellation', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  describe('POST /api/v1/runs/:id/cancel', () => {
+    test('stops a streamed run and ends it with a cancelled done event', async () => {
+      mockLLM({ latencyMs: 50 })
+      mockRAG()
+
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is AI?' }),
+      })
+      const runId = res.headers.get('X-Run-Id')
+
+      const cancel = await app.request(`/api/v1/runs/${runId}/cancel`, { method: 'POST' })
+      expect(cancel.status).toBe(202)
+      expect(await cancel.json()).toEqual({ runId, status: 'cancelling' })
+
+      const events = await readEvents(res)
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'done',
+        data: { status: 'cancelled', cancelReason: 'cancelled' },
+      })
+      expect(events.some((e) => e.type === 'error')).toBe(false)
+      expect(events.some((e) => e.type === 'answer_delta')).toBe(false)
+
+      // No further LLM calls once the in-flight classification was aborted
+      const { llmCallCount } = getCallCounts()
+      await Bun.sleep(100)
+      expect(getCallCounts().llmCallCount).toBe(llmCallCount)
+    })
+
+    test('returns 409 for a run that already finished', async () => {
+      mockLLM()
+      mockRAG()
+
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is AI?' }),
+      })
+      const runId = res.headers.get('X-Run-Id')
+      await res.text()
+
+      const cancel = await app.request(`/api/v1/runs/${runId}/cancel`, { method: 'POST' })
+
+      expect(cancel.status).toBe(409)
+    })
+
+    test('returns 404 for an unknown run', async () => {
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/runs/unknown/cancel', { method: 'POST' })
+
+      expect(res.status).toBe(404)
+    })
+
+    test('returns 409 for a job, which cannot be cancelled', async () => {
+      mockLLM()
+      mockRAG()
+
+      const { default: app } = await import('@/api/server')
+
+      const submit = await app.request('/api/v1/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is AI?' }),
+      })
+      const { id } = (await submit.json()) as { id: string }
+
+      const res = await app.request(`/api/v1/runs/${id}/cancel`, { method: 'POST' })
+
+      expect(res.status).toBe(409)
+      expect(await res.json()).toEqual({ error: 'Jobs cannot be cancelled; only streamed runs can' })
+    })
+  })
+
+  describe('POST /api/v1/chat', () => {
+    test('stops the run when the client aborts the request', async () => {
+      mockLLM({ latencyMs: 50 })
+      mockRAG()
+
+      const { default: app } = await import('@/api/server')
+
+      const controller = new AbortController()
+      const pending = app.request('/api/v1/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is AI?' }),
+        signal: controller.signal,
+      })
+      await Bun.sleep(10)
+      controller.abort()
+
+      const res = await pending
+      expect(res.status).toBe(499)
+      expect(await res.json()).toMatchObject({
+        status: 'cancelled',
+        cancelReason: 'client_disconnected',
+      })
+      expect(getCallCounts().llmCallCount).toBe(1)
+    })
+
+    test('passes the run signal to RAG API requests', async () => {
+      mockLLM()
+      mockRAG()
+
+      const { default: app } = await import('@/api/server')
+
+      await app.request('/api/v1/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is AI?' }),
+      })
+
+      const requests = getRAGRequests()
+      expect(requests.length).toBeGreaterThan(0)
+      expect(requests.every((r) => r.signal instanceof AbortSignal)).toBe(true)
+    })
+  })
+})
@@ -93,5 +93,39 @@ describe('API - Chat Endpoint', () => {
       const body = (await res.json()) as { answer: string }
       expect(body.answer).toContain('[1]')
     })
+
+    test('echoes the effective policy with request options applied', async () => {
+      mockLLM()
+      mockRAG()
+
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is machine learning?', options: { topK: 7 } }),
+      })
+
+      expect(res.status).toBe(200)
+
+      const body = (await res.json()) as { policy: { topK: number; maxIterations: number } }
+      expect(body.policy.topK).toBe(7)
+      expect(body.policy.maxIterations).toBe(2)
+    })
+
+    test('returns 400 for options outside the configured limits', async () => {
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'What is machine learning?', options: { topK: 500 } }),
+      })
+
+      expect(res.status).toBe(400)
+
+      const body = (await res.json()) as { error: string }
+      expect(body.error).toContain('options.topK')
+    })
   })
 })
@@ -0,0 +1,76 @@
+// tests/integration/api/checkpoints.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+
+interface CheckpointListBody {
+  checkpoints: Array<{ checkpointId: string; threadId: string; step: number }>
+}
+
+describe('API - Conversation Checkpoints', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  test('lists checkpoints of a finished run', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    const conversationId = `conv-${crypto.randomUUID()}`
+
+    await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'What is machine learning?', conversationId }),
+    })
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}/checkpoints`)
+    expect(res.status).toBe(200)
+
+    const body = (await res.json()) as CheckpointListBody
+    expect(body.checkpoints.length).toBeGreaterThan(0)
+    expect(body.checkpoints[0].threadId.startsWith(`${conversationId}:`)).toBe(true)
+  })
+
+  test('fetches checkpoint state values', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    const conversationId = `conv-${crypto.randomUUID()}`
+
+    await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'What is machine learning?', conversationId }),
+    })
+
+    const list = await app.request(`/api/v1/conversations/${conversationId}/checkpoints`)
+    const { checkpoints } = (await list.json()) as CheckpointListBody
+
+    // Newest checkpoint holds the final state of the run
+    const res = await app.request(
+      `/api/v1/conversations/${conversationId}/checkpoints/${checkpoints[0].checkpointId}`
+    )
+    expect(res.status).toBe(200)
+
+    const body = (await res.json()) as { values: { query: string; finalAnswer: string } }
+    expect(body.values.query).toBe('What is machine learning?')
+    expect(body.values.finalAnswer).toBeDefined()
+  })
+
+  test('returns empty list for unknown conversation', async () => {
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/conversations/unknown-conv/checkpoints')
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as CheckpointListBody).checkpoints).toEqual([])
+  })
+
+  test('returns 404 for unknown checkpoint', async () => {
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/conversations/unknown-conv/checkpoints/missing')
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,147 @@
+// tests/integration/api/clarification.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks, getRAGRequests } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+interface ChatBody {
+  status: string
+  answer: string
+  clarification?: { question: string; options: string[] }
+  resumeToken?: string
+}
+
+/**
+ * Read an SSE response to the end and return the data of its closing done event.
+ */
+async function readDone(res: Response): Promise<ChatBody & { conversationId: string }> {
+  const blocks = (await res.text()).split('\n\n').filter((block) => block.includes('event: done'))
+  return JSON.parse(blocks[0].match(/^data: (.+)$/m)?.[1] ?? 'null').data
+}
+
+describe('API - Clarification Turn', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  test('vague query pauses with a clarification question and resume token', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'Tell me about ML' }),
+    })
+
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as ChatBody
+    expect(body.status).toBe('needs_clarification')
+    expect(body.clarification).toEqual(llmFixtures.clarifier.success)
+    expect(body.answer).toBe(llmFixtures.clarifier.success.question)
+    expect(body.resumeToken).toBeDefined()
+    expect(getRAGRequests()).toHaveLength(0)
+  })
+
+  test('resuming with the answer completes the same run', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+
+    const first = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'Tell me about ML' }),
+    })
+    const { resumeToken } = (await first.json()) as ChatBody
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'Neural networks', resumeToken }),
+    })
+
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as ChatBody
+    expect(body.status).toBe('completed')
+    expect(body.answer).toBe(llmFixtures.generator.success)
+    // The clarified query is what gets retrieved
+    expect(getRAGRequests()[0].body.query).toBe('Tell me about ML (Neural networks)')
+  })
+
+  test('resume token cannot be used twice', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+
+    const first = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'Tell me about ML' }),
+    })
+    const { resumeToken } = (await first.json()) as ChatBody
+
+    const resume = () =>
+      app.request('/api/v1/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query: 'Neural networks', resumeToken }),
+      })
+
+    expect((await resume()).status).toBe(200)
+    expect((await resume()).status).toBe(404)
+  })
+
+  test('returns 404 for unknown resume token', async () => {
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'Neural networks', resumeToken: 'unknown-token' }),
+    })
+
+    expect(res.status).toBe(404)
+    const body = (await res.json()) as { error: string }
+    expect(body.error).toBe('Invalid or expired resume token')
+  })
+
+  test('resumes a paused run over the stream endpoint', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    const stream = (body: Record<string, string>) =>
+      app.request('/api/v1/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+    const paused = await readDone(await stream({ query: 'Tell me about ML' }))
+    expect(paused.status).toBe('needs_clarification')
+
+    const done = await readDone(await stream({ query: 'Neural networks', resumeToken: paused.resumeToken ?? '' }))
+
+    expect(done.status).toBe('completed')
+    expect(done.conversationId).toBe(paused.conversationId)
+    expect(getRAGRequests()[0].body.query).toBe('Tell me about ML (Neural networks)')
+  })
+
+  test('stream endpoint returns 404 for unknown resume token', async () => {
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'Neural networks', resumeToken: 'unknown-token' }),
+    })
+
+    expect(res.status).toBe(404)
+    const body = (await res.json()) as { error: string }
+    expect(body.error).toBe('Invalid or expired resume token')
+  })
+})
@@ -0,0 +1,173 @@
+// tests/integration/api/completions.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+import type { ChatCompletion } from '@/api/openai'
+import { getCheckpointer } from '@/core/checkpoint'
+
+async function complete(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  const { default: app } = await import('@/api/server')
+  return app.request('/v1/chat/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * Read an OpenAI-style SSE response into its data payloads.
+ */
+async function readData(res: Response): Promise<string[]> {
+  const text = await res.text()
+  return text
+    .split('\n\n')
+    .map((block) => block.match(/^data: (.+)$/m)?.[1])
+    .filter((data): data is string => data !== undefined)
+}
+
+describe('API - OpenAI-compatible completions', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  test('returns a chat completion with the rag extension', async () => {
+    mockLLM()
+    mockRAG()
+
+    const res = await complete({
+      model: 'my-model',
+      messages: [{ role: 'user', content: 'What is machine learning?' }],
+    })
+
+    expect(res.status).toBe(200)
+    const body = (await res.json()) as ChatCompletion
+    expect(body).toMatchObject({
+      object: 'chat.completion',
+      model: 'my-model',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: llmFixtures.generator.success },
+          finish_reason: 'stop',
+        },
+      ],
+    })
+    expect(body.id).toStartWith('chatcmpl-')
+    expect(body.usage.total_tokens).toBeGreaterThan(0)
+    expect(body.rag.qualityScore).toBeDefined()
+    expect(body.rag.sources?.length).toBeGreaterThan(0)
+  })
+
+  test('takes history from messages without saving the conversation', async () => {
+    mockLLM()
+    mockRAG()
+
+    const res = await complete({
+      messages: [
+        { role: 'user', content: 'What is machine learning?' },
+        { role: 'assistant', content: 'ML is a subset of AI.' },
+        { role: 'user', content: 'What does it cost?' },
+      ],
+    })
+    const body = (await res.json()) as { rag: { conversationId: string } }
+
+    const { default: app } = await import('@/api/server')
+    const conversation = await app.request(`/api/v1/conversations/${body.rag.conversationId}`)
+    expect(conversation.status).toBe(404)
+  })
+
+  test('streams chunks in the OpenAI delta format', async () => {
+    mockLLM()
+    mockRAG()
+
+    const res = await complete({
+      messages: [{ role: 'user', content: 'What is AI?' }],
+      stream: true,
+      stream_options: { include_usage: true },
+    })
+
+    expect(res.headers.get('content-type')).toContain('text/event-stream')
+    const data = await readData(res)
+    expect(data.at(-1)).toBe('[DONE]')
+
+    const chunks = data.slice(0, -1).map((item) => JSON.parse(item))
+    expect(chunks.every((chunk) => chunk.object === 'chat.completion.chunk')).toBe(true)
+    expect(chunks[0].choices[0].delta.role).toBe('assistant')
+
+    const content = chunks.map((chunk) => chunk.choices[0]?.delta.content ?? '').join('')
+    expect(content).toBe(llmFixtures.generator.success)
+
+    const final = chunks.at(-2)
+    expect(final.choices[0].finish_reason).toBe('stop')
+    expect(final.rag.qualityScore).toBeDefined()
+    expect(chunks.at(-1)).toMatchObject({ choices: [] })
+    expect(chunks.at(-1).usage.total_tokens).toBeGreaterThan(0)
+  })
+
+  test('streams only the accepted draft when the critic asks for refinement', async () => {
+    mockLLM({ critic: llmFixtures.critic.fail })
+    mockRAG()
+
+    const res = await complete({ messages: [{ role: 'user', content: 'What is AI?' }], stream: true })
+    const chunks = (await readData(res)).slice(0, -1).map((item) => JSON.parse(item))
+    const content = chunks.map((chunk) => chunk.choices[0]?.delta.content ?? '').join('')
+
+    // Every draft has the same text in the mock, so exactly one copy means rejected drafts were dropped
+    expect(content).toBe(llmFixtures.generator.success)
+  })
+
+  test('does not keep runs paused for clarification', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    mockRAG()
+
+    const res = await complete({ messages: [{ role: 'user', content: 'Tell me about ML' }] })
+    const body = (await res.json()) as ChatCompletion
+    expect(body.choices[0].message.content).toBe(llmFixtures.clarifier.success.question)
+
+    const streamed = await complete({ messages: [{ role: 'user', content: 'Tell me about ML' }], stream: true })
+    const chunks = (await readData(streamed)).slice(0, -1).map((item) => JSON.parse(item))
+    const streamedId = chunks.at(-1).rag.conversationId
+    expect(chunks.at(-1).rag.clarification).toEqual(llmFixtures.clarifier.success)
+
+    expect(await getCheckpointer().listThreadIds(body.rag.conversationId)).toEqual([])
+    expect(await getCheckpointer().listThreadIds(streamedId)).toEqual([])
+  })
+
+  test('returns an OpenAI error body for invalid messages', async () => {
+    const res = await complete({ messages: [] })
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({
+      error: {
+        message: 'messages must be a non-empty array',
+        type: 'invalid_request_error',
+        param: null,
+        code: null,
+      },
+    })
+  })
+
+  test('accepts the API key as a bearer token', async () => {
+    mockLLM()
+    mockRAG()
+    const originalKey = process.env.API_KEY
+    process.env.API_KEY = 'test-key'
+
+    try {
+      const rejected = await complete({ messages: [{ role: 'user', content: 'What is AI?' }] })
+      const accepted = await complete(
+        { messages: [{ role: 'user', content: 'What is AI?' }] },
+        { Authorization: 'Bearer test-key' }
+      )
+
+      expect(rejected.status).toBe(401)
+      expect(accepted.status).toBe(200)
+    } finally {
+      if (originalKey) {
+        process.env.API_KEY = originalKey
+      } else {
+        delete process.env.API_KEY
+      }
+    }
+  })
+})
@@ -0,0 +1,161 @@
+// tests/integration/api/conversation-management.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+type App = { request: (path: string, init?: RequestInit) => Response | Promise<Response> }
+
+async function startConversation(app: App, query = 'What is machine learning?', id: string = crypto.randomUUID()) {
+  const conversationId = `conv-${id}`
+  await app.request('/api/v1/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, conversationId }),
+  })
+  return conversationId
+}
+
+describe('API - Conversation Management', () => {
+  beforeEach(() => {
+    restoreMocks()
+    mockLLM()
+    mockRAG()
+  })
+
+  test('lists conversations most recently updated first', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request('/api/v1/conversations?limit=5')
+    expect(res.status).toBe(200)
+
+    const body = (await res.json()) as {
+      conversations: Array<{ id: string; title: string; turnCount: number }>
+      limit: number
+    }
+    expect(body.limit).toBe(5)
+    expect(body.conversations[0]).toMatchObject({
+      id: conversationId,
+      title: 'What is machine learning?',
+      turnCount: 1,
+    })
+  })
+
+  test('fetches a conversation with turns, sources and scores', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}`)
+    expect(res.status).toBe(200)
+
+    const body = (await res.json()) as {
+      turns: Array<{ query: string; answer: string; qualityScore?: number; sources: unknown[] }>
+    }
+    expect(body.turns).toHaveLength(1)
+    expect(body.turns[0].query).toBe('What is machine learning?')
+    expect(body.turns[0].qualityScore).toBeDefined()
+    expect(body.turns[0].sources.length).toBeGreaterThan(0)
+  })
+
+  test('renames a conversation', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: 'ML basics' }),
+    })
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as { title: string }).title).toBe('ML basics')
+  })
+
+  test('rejects rename without a title', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: '  ' }),
+    })
+    expect(res.status).toBe(400)
+  })
+
+  test('deletes a conversation and its checkpoints', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}`, { method: 'DELETE' })
+    expect(res.status).toBe(204)
+
+    expect((await app.request(`/api/v1/conversations/${conversationId}`)).status).toBe(404)
+    const checkpoints = await app.request(`/api/v1/conversations/${conversationId}/checkpoints`)
+    expect(((await checkpoints.json()) as { checkpoints: unknown[] }).checkpoints).toEqual([])
+  })
+
+  test('deletes the checkpoints of a run paused before any turn was saved', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app, 'Tell me about ML')
+    expect((await app.request(`/api/v1/conversations/${conversationId}`)).status).toBe(404)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}`, { method: 'DELETE' })
+    expect(res.status).toBe(204)
+
+    const checkpoints = await app.request(`/api/v1/conversations/${conversationId}/checkpoints`)
+    expect(((await checkpoints.json()) as { checkpoints: unknown[] }).checkpoints).toEqual([])
+    expect((await app.request(`/api/v1/conversations/${conversationId}`, { method: 'DELETE' })).status).toBe(404)
+  })
+
+  test('exports a conversation as markdown', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}/export?format=markdown`)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/markdown')
+    expect(res.headers.get('Content-Disposition')).toContain(`conversation-${conversationId}.md`)
+
+    const markdown = await res.text()
+    expect(markdown).toContain('**User:** What is machine learning?')
+  })
+
+  test('exports a conversation as JSON by default', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}/export`)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Disposition')).toContain(`conversation-${conversationId}.json`)
+    expect(((await res.json()) as { id: string }).id).toBe(conversationId)
+  })
+
+  test('exports a conversation whose id has quotes and line breaks', async () => {
+    const { default: app } = await import('@/api/server')
+    const suffix = crypto.randomUUID().slice(0, 8)
+    const conversationId = await startConversation(app, undefined, `"a"\r\nb ${suffix}`)
+
+    const res = await app.request(`/api/v1/conversations/${encodeURIComponent(conversationId)}/export`)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Disposition')).toBe(
+      `attachment; filename="conversation-conv-_a___b_${suffix}.json"`
+    )
+  })
+
+  test('rejects unsupported export formats', async () => {
+    const { default: app } = await import('@/api/server')
+    const conversationId = await startConversation(app)
+
+    const res = await app.request(`/api/v1/conversations/${conversationId}/export?format=pdf`)
+    expect(res.status).toBe(400)
+  })
+
+  test('returns 404 for unknown conversations', async () => {
+    const { default: app } = await import('@/api/server')
+
+    expect((await app.request('/api/v1/conversations/missing')).status).toBe(404)
+    expect((await app.request('/api/v1/conversations/missing', { method: 'DELETE' })).status).toBe(404)
+    expect((await app.request('/api/v1/conversations/missing/export')).status).toBe(404)
+  })
+})
@@ -0,0 +1,77 @@
+// tests/integration/api/conversation.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks, getRAGRequests, resetCallCounts } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+async function ask(
+  app: { request: (path: string, init: RequestInit) => Response | Promise<Response> },
+  query: string,
+  conversationId?: string
+) {
+  const res = await app.request('/api/v1/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, conversationId }),
+  })
+  return (await res.json()) as { conversationId: string; answer: string }
+}
+
+describe('API - Multi-Turn Conversations', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  test('returns a conversationId for new conversations', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    const body = await ask(app, 'What is machine learning?')
+
+    expect(body.conversationId).toBeDefined()
+  })
+
+  test('first turn is retrieved as typed', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    await ask(app, 'What is machine learning?', `conv-${crypto.randomUUID()}`)
+
+    expect(getRAGRequests()[0].body.query).toBe('What is machine learning?')
+  })
+
+  test('follow-up queries are rewritten using stored history', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    const conversationId = `conv-${crypto.randomUUID()}`
+
+    await ask(app, 'What is machine learning?', conversationId)
+    resetCallCounts()
+    await ask(app, 'what about its pricing?', conversationId)
+
+    expect(getRAGRequests()[0].body.query).toBe(llmFixtures.contextualizer.rewrite)
+  })
+
+  test('stores each turn with answer, sources and scores', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+    const { getConversationStore } = await import('@/core/conversation')
+    const conversationId = `conv-${crypto.randomUUID()}`
+
+    await ask(app, 'What is machine learning?', conversationId)
+    await ask(app, 'what about its pricing?', conversationId)
+
+    const turns = await getConversationStore().getTurns(conversationId)
+    expect(turns).toHaveLength(2)
+    expect(turns[0].answer).toBe(llmFixtures.generator.success)
+    expect(turns[0].qualityScore).toBe(llmFixtures.critic.pass.qualityScore)
+    expect(turns[0].sources.length).toBeGreaterThan(0)
+    expect(turns[1].query).toBe('what about its pricing?')
+    expect(turns[1].standaloneQuery).toBe(llmFixtures.contextualizer.rewrite)
+  })
+})
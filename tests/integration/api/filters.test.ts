@@ -0,0 +1,91 @@
+// tests/integration/api/filters.test.ts
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { config } from '@/core/config'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+
+describe('API - Metadata Filters', () => {
+  const original = config.filters.schema
+
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+    config.filters.schema = {
+      year: { type: 'number', description: 'Publication year' },
+      doc_type: { type: 'string', values: ['security', 'guide'] },
+      team: { type: 'string' },
+      published: { type: 'date' },
+    }
+  })
+
+  afterEach(() => {
+    config.filters.schema = original
+  })
+
+  test('searches with the extracted filters merged with the explicit ones', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query: 'What changed in the 2024 security docs?',
+        filters: { doc_type: 'guide', team: 'platform' },
+      }),
+    })
+
+    expect(res.status).toBe(200)
+    // Explicit filters win over extracted ones on the same field
+    const expected = { year: 2024, doc_type: 'guide', team: 'platform' }
+    expect(((await res.json()) as { filters: unknown }).filters).toEqual(expected)
+    expect(getRAGRequests().length).toBeGreaterThan(0)
+    for (const request of getRAGRequests()) {
+      expect(request.body.filters).toEqual(expected)
+    }
+  })
+
+  test('searches with a date range on a date field', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+
+    const published = { gte: '2024-01-01', lte: '2024-06-30' }
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'What changed in the security docs?', filters: { published } }),
+    })
+
+    expect(res.status).toBe(200)
+    expect(getRAGRequests()[0].body.filters).toMatchObject({ published })
+  })
+
+  test('returns 400 for a range on a field that is not a date', async () => {
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'What is machine learning?', filters: { year: { gte: 2020 } } }),
+    })
+
+    expect(res.status).toBe(400)
+    expect(((await res.json()) as { error: string }).error).toBe('filters.year must be a number')
+  })
+
+  test('returns 400 for filters outside the schema', async () => {
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'What is machine learning?', filters: { region: 'eu' } }),
+    })
+
+    expect(res.status).toBe(400)
+    expect(((await res.json()) as { error: string }).error).toContain('Unknown filter field: region')
+  })
+})
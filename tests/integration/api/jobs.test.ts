@@ -0,0 +1,130 @@
+// tests/integration/api/jobs.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { getRAGRequests, mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+async function submitJob(body: Record<string, unknown>) {
+  const { default: app } = await import('@/api/server')
+  return app.request('/api/v1/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+/**
+ * Poll a job until it leaves the queued/running states.
+ */
+async function waitForJob(jobId: string): Promise<Record<string, unknown>> {
+  const { default: app } = await import('@/api/server')
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const res = await app.request(`/api/v1/jobs/${jobId}`)
+    const job = (await res.json()) as Record<string, unknown>
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return job
+    }
+    await Bun.sleep(10)
+  }
+  throw new Error(`Job ${jobId} did not finish`)
+}
+
+describe('API - Jobs', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  describe('POST /api/v1/jobs', () => {
+    test('accepts a chat request and returns a job id', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await submitJob({ query: 'What is AI?' })
+
+      expect(res.status).toBe(202)
+      const job = (await res.json()) as { id: string; status: string }
+      expect(job.id).toBeDefined()
+      expect(['queued', 'running']).toContain(job.status)
+      expect(res.headers.get('Location')).toBe(`/api/v1/jobs/${job.id}`)
+    })
+
+    test('returns 400 for missing query', async () => {
+      const res = await submitJob({})
+
+      expect(res.status).toBe(400)
+    })
+
+    test('returns 400 for a callbackUrl that is not http(s)', async () => {
+      const res = await submitJob({ query: 'What is AI?', callbackUrl: 'ftp://example.com/hook' })
+
+      expect(res.status).toBe(400)
+      expect(await res.json()).toEqual({ error: 'callbackUrl must be an http(s) URL' })
+    })
+
+    test('returns 400 for a callbackUrl on a loopback host', async () => {
+      const res = await submitJob({ query: 'What is AI?', callbackUrl: 'http://127.0.0.1:8080/hook' })
+
+      expect(res.status).toBe(400)
+      expect(await res.json()).toEqual({ error: 'callbackUrl must not point at a loopback or link-local host' })
+    })
+
+    test('returns 400 for invalid workflow options', async () => {
+      const res = await submitJob({ query: 'What is AI?', options: { topK: 0 } })
+
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('GET /api/v1/jobs/:id', () => {
+    test('returns the chat result once the job completes', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await submitJob({ query: 'What is AI?' })
+      const { id } = (await res.json()) as { id: string }
+      const job = await waitForJob(id)
+
+      expect(job).toMatchObject({
+        id,
+        status: 'completed',
+        result: {
+          status: 'completed',
+          answer: llmFixtures.generator.success,
+        },
+      })
+      expect(job.startedAt).toBeDefined()
+      expect(job.completedAt).toBeDefined()
+      expect(job.request).toBeUndefined()
+    })
+
+    test('returns 404 for an unknown job', async () => {
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/jobs/unknown')
+
+      expect(res.status).toBe(404)
+    })
+  })
+
+  describe('webhook callback', () => {
+    test('posts the finished job to the callback URL', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await submitJob({ query: 'What is AI?', callbackUrl: 'https://example.com/hook' })
+      const { id } = (await res.json()) as { id: string }
+      await waitForJob(id)
+      await Bun.sleep(10)
+
+      const callback = getRAGRequests().find((r) => r.url === 'https://example.com/hook')
+      expect(callback?.body).toMatchObject({
+        id,
+        status: 'completed',
+        result: { answer: llmFixtures.generator.success },
+      })
+
+      const { default: app } = await import('@/api/server')
+      const job = (await (await app.request(`/api/v1/jobs/${id}`)).json()) as Record<string, unknown>
+      expect(job.webhook).toMatchObject({ url: 'https://example.com/hook', status: 'delivered', attempts: 1 })
+    })
+  })
+})
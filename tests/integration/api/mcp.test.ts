@@ -0,0 +1,145 @@
+// tests/integration/api/mcp.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { getRAGRequests, mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+import type { JsonRpcResponse } from '@/mcp/protocol'
+import type { ToolResult } from '@/mcp/tools'
+
+let nextId = 1
+
+async function post(body: unknown, headers: Record<string, string> = {}) {
+  const { default: app } = await import('@/api/server')
+  return app.request('/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body),
+  })
+}
+
+async function request(method: string, params?: Record<string, unknown>): Promise<JsonRpcResponse> {
+  const res = await post({ jsonrpc: '2.0', id: nextId++, method, params })
+  expect(res.status).toBe(200)
+  return (await res.json()) as JsonRpcResponse
+}
+
+/**
+ * Send a request and return its result, failing on a JSON-RPC error.
+ */
+async function call<T>(method: string, params?: Record<string, unknown>): Promise<T> {
+  const response = await request(method, params)
+  if (!('result' in response)) throw new Error(`${method} failed: ${response.error.message}`)
+  return response.result as T
+}
+
+describe('API - MCP', () => {
+  beforeEach(() => {
+    restoreMocks()
+  })
+
+  test('initializes and lists the tools', async () => {
+    const init = await call<{ serverInfo: { name: string } }>('initialize', {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: 'test', version: '1.0.0' },
+    })
+    expect(init.serverInfo.name).toBe('agentic-data-pipeline-agents')
+
+    const { tools } = await call<{ tools: Array<{ name: string }> }>('tools/list')
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'ask_knowledge_base',
+      'search_documents',
+      'classify_query',
+    ])
+  })
+
+  test('ask_knowledge_base runs the graph and saves the conversation as a resource', async () => {
+    mockLLM()
+    mockRAG()
+
+    const result = await call<ToolResult>('tools/call', {
+      name: 'ask_knowledge_base',
+      arguments: { query: 'What is machine learning?' },
+    })
+    expect(result.isError).toBeUndefined()
+    expect(result.content[0].text).toBe(llmFixtures.generator.success)
+    expect(result.structuredContent?.status).toBe('completed')
+
+    const uri = `conversation://${result.structuredContent?.conversationId}`
+    const { resources } = await call<{ resources: Array<{ uri: string }> }>('resources/list')
+    expect(resources.map((resource) => resource.uri)).toContain(uri)
+
+    const { contents } = await call<{ contents: Array<{ mimeType: string; text: string }> }>('resources/read', { uri })
+    expect(contents[0].mimeType).toBe('text/markdown')
+    expect(contents[0].text).toContain('What is machine learning?')
+  })
+
+  test('ask_knowledge_base reports invalid options as a tool error', async () => {
+    const result = await call<ToolResult>('tools/call', {
+      name: 'ask_knowledge_base',
+      arguments: { query: 'What is AI?', options: { topK: 0 } },
+    })
+
+    expect(result.isError).toBe(true)
+  })
+
+  test('search_documents returns search results', async () => {
+    mockLLM()
+    mockRAG()
+
+    const result = await call<ToolResult>('tools/call', {
+      name: 'search_documents',
+      arguments: { query: 'machine learning', topK: 3, mode: 'semantic' },
+    })
+
+    expect(result.structuredContent?.results).toEqual(expect.arrayContaining([expect.anything()]))
+    expect(getRAGRequests()[0].url).toContain('semantic')
+  })
+
+  test('classify_query returns the classification', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.comparative })
+
+    const result = await call<ToolResult>('tools/call', {
+      name: 'classify_query',
+      arguments: { query: 'Compare A and B' },
+    })
+
+    expect(result.structuredContent).toMatchObject({ queryType: 'comparative' })
+  })
+
+  test('returns a resource error for unknown conversations', async () => {
+    const response = await request('resources/read', { uri: 'conversation://missing' })
+
+    expect(response).toMatchObject({ error: { code: -32002 } })
+  })
+
+  test('accepts notifications with 202 and rejects GET', async () => {
+    const notification = await post({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    const { default: app } = await import('@/api/server')
+    const get = await app.request('/mcp')
+
+    expect(notification.status).toBe(202)
+    expect(get.status).toBe(405)
+  })
+
+  test('rejects unsupported protocol versions', async () => {
+    const res = await post({ jsonrpc: '2.0', id: 1, method: 'ping' }, { 'MCP-Protocol-Version': '1999-01-01' })
+
+    expect(res.status).toBe(400)
+  })
+
+  test('requires the API key when one is configured', async () => {
+    const originalKey = process.env.API_KEY
+    process.env.API_KEY = 'test-key'
+
+    try {
+      const res = await post({ jsonrpc: '2.0', id: 1, method: 'ping' })
+      expect(res.status).toBe(401)
+    } finally {
+      if (originalKey) {
+        process.env.API_KEY = originalKey
+      } else {
+        delete process.env.API_KEY
+      }
+    }
+  })
+})
@@ -1,6 +1,42 @@
 // tests/integration/api/stream.test.ts
 import { describe, test, expect, beforeEach } from 'bun:test'
-import { mockLLM, mockRAG, restoreMocks } from '../helpers/mocks'
+import { mockLLM, mockLLMError, mockRAG, restoreMocks } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+interface StreamEnvelope {
+  version: number
+  seq: number
+  runId: string
+  type: string
+  timestamp: string
+  data: Record<string, unknown>
+}
+
+/**
+ * Read an SSE response to the end and parse each event's id and JSON envelope.
+ */
+async function readEvents(
+  res: Response
+): Promise<Array<{ event: string; id: string | undefined; envelope: StreamEnvelope }>> {
+  const text = await res.text()
+  return text
+    .split('\n\n')
+    .filter((block) => block.includes('data:'))
+    .map((block) => ({
+      event: block.match(/^event: (.+)$/m)?.[1] ?? 'message',
+      id: block.match(/^id: (.+)$/m)?.[1],
+      envelope: JSON.parse(block.match(/^data: (.+)$/m)?.[1] ?? 'null'),
+    }))
+}
+
+async function streamChat(query = 'What is AI?') {
+  const { default: app } = await import('@/api/server')
+  return app.request('/api/v1/chat/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query }),
+  })
+}
 
 describe('API - Stream Endpoint', () => {
   beforeEach(() => {
@@ -36,43 +72,121 @@ describe('API - Stream Endpoint', () => {
       expect(res.status).toBe(400)
     })
 
-    test('streams agent_update events', async () => {
+    test('wraps every event in a versioned envelope with monotonic sequence ids', async () => {
       mockLLM()
       mockRAG()
 
-      const { default: app } = await import('@/api/server')
+      const events = await readEvents(await streamChat())
 
-      const res = await app.request('/api/v1/chat/stream', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: 'What is AI?' }),
+      expect(events.length).toBeGreaterThan(0)
+      const runId = events[0].envelope.runId
+      events.forEach((e, index) => {
+        expect(e.envelope.version).toBe(1)
+        expect(e.envelope.runId).toBe(runId)
+        expect(e.envelope.type).toBe(e.event)
+        expect(e.envelope.seq).toBe(index + 1)
+        expect(e.id).toBe(String(e.envelope.seq))
       })
+    })
 
-      expect(res.status).toBe(200)
+    test('starts with run_started and reports node lifecycle', async () => {
+      mockLLM()
+      mockRAG()
 
-      // Read the stream
-      const reader = res.body?.getReader()
-      expect(reader).toBeDefined()
+      const events = await readEvents(await streamChat())
 
-      const decoder = new TextDecoder()
-      const events: string[] = []
+      expect(events[0].event).toBe('run_started')
+      expect(events[0].envelope.data).toMatchObject({ query: 'What is AI?' })
 
-      // Read a few chunks
-      for (let i = 0; i < 10; i++) {
-        const { done, value } = await reader!.read()
-        if (done) break
+      const started = events.filter((e) => e.event === 'node_started').map((e) => e.envelope.data.node)
+      const completed = events.filter((e) => e.event === 'node_completed').map((e) => e.envelope.data.node)
+      expect(started.slice(0, 3)).toEqual(['classifier', 'extractor', 'retriever'])
+      expect(completed).toEqual(started)
 
-        const chunk = decoder.decode(value)
-        events.push(chunk)
+      const classifier = events.find((e) => e.event === 'node_completed' && e.envelope.data.node === 'classifier')
+      expect(classifier?.envelope.data.queryType).toBeDefined()
+    })
 
-        // Check for event format
-        if (chunk.includes('event:')) {
-          expect(chunk).toContain('event: agent_update')
-        }
-      }
+    test('sends sources once retrieval completes', async () => {
+      mockLLM()
+      mockRAG()
 
-      // Should have received some events
-      expect(events.length).toBeGreaterThan(0)
+      const events = await readEvents(await streamChat())
+
+      const sources = events.find((e) => e.event === 'sources')
+      expect((sources?.envelope.data.sources as unknown[]).length).toBeGreaterThan(0)
+      const retrieverDone = events.findIndex(
+        (e) => e.event === 'node_completed' && e.envelope.data.node === 'retriever'
+      )
+      expect(events.indexOf(sources!)).toBeGreaterThan(retrieverDone)
+    })
+
+    test('streams answer tokens before the generator completes', async () => {
+      mockLLM()
+      mockRAG()
+
+      const events = await readEvents(await streamChat())
+
+      const deltas = events.filter((e) => e.event === 'answer_delta')
+      expect(deltas.length).toBeGreaterThan(1)
+      expect(deltas.map((e) => e.envelope.data.delta).join('')).toBe(llmFixtures.generator.success)
+
+      const generatorDone = events.findIndex(
+        (e) => e.event === 'node_completed' && e.envelope.data.node === 'generator'
+      )
+      expect(events.findIndex((e) => e.event === 'answer_delta')).toBeLessThan(generatorDone)
+    })
+
+    test('ends with done carrying the answer, sources and quality score', async () => {
+      mockLLM()
+      mockRAG()
+
+      const events = await readEvents(await streamChat())
+
+      const done = events[events.length - 1]
+      expect(done.event).toBe('done')
+      expect(done.envelope.data).toMatchObject({
+        status: 'completed',
+        answer: llmFixtures.generator.success,
+        qualityScore: llmFixtures.critic.pass.qualityScore,
+      })
+      expect((done.envelope.data.sources as unknown[]).length).toBeGreaterThan(0)
+      expect(done.envelope.data.policy).toMatchObject({ topK: expect.any(Number) })
+      expect(done.envelope.data.filters).toBeUndefined()
+      expect((done.envelope.data.draftHistory as unknown[]).length).toBeGreaterThan(0)
+    })
+
+    test('sends a critique that marks a draft for discard before refinement', async () => {
+      mockLLM({ critic: llmFixtures.critic.fail })
+      mockRAG()
+
+      const events = await readEvents(await streamChat())
+
+      const critiques = events.filter((e) => e.event === 'critique')
+      expect(critiques.length).toBeGreaterThan(1)
+      expect(critiques[0].envelope.data).toMatchObject({
+        iteration: 1,
+        discardDraft: true,
+        refinementReason: llmFixtures.critic.fail.refinementReason,
+      })
+      expect(critiques[critiques.length - 1].envelope.data.discardDraft).toBe(false)
+
+      // Deltas after the first critique belong to the second draft
+      const afterDiscard = events.slice(events.indexOf(critiques[0]))
+      const redrafted = afterDiscard.filter((e) => e.event === 'answer_delta')
+      expect(redrafted.length).toBeGreaterThan(0)
+      expect(redrafted.every((e) => e.envelope.data.iteration === 2)).toBe(true)
+    })
+
+    test('sends error then done with failed status when the workflow throws', async () => {
+      mockLLMError(new Error('LLM unavailable'))
+      mockRAG()
+
+      const events = await readEvents(await streamChat())
+
+      const types = events.map((e) => e.event)
+      expect(types.slice(-2)).toEqual(['error', 'done'])
+      expect(events[events.length - 1].envelope.data.status).toBe('failed')
     })
 
     test('event data contains valid JSON', async () => {
@@ -106,4 +220,87 @@ describe('API - Stream Endpoint', () => {
       }
     })
   })
+
+  describe('GET /api/v1/runs/:id/events', () => {
+    test('replays events after Last-Event-ID', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await streamChat()
+      const runId = res.headers.get('X-Run-Id')
+      const original = await readEvents(res)
+      expect(runId).toBe(original[0].envelope.runId)
+
+      const { default: app } = await import('@/api/server')
+      const resumed = await app.request(`/api/v1/runs/${runId}/events`, {
+        headers: { 'Last-Event-ID': '3' },
+      })
+
+      expect(resumed.status).toBe(200)
+      expect(resumed.headers.get('content-type')).toContain('text/event-stream')
+      const replayed = await readEvents(resumed)
+      expect(replayed.map((e) => e.envelope)).toEqual(original.slice(3).map((e) => e.envelope))
+    })
+
+    test('accepts the last event id as a query parameter', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await streamChat()
+      const runId = res.headers.get('X-Run-Id')
+      const original = await readEvents(res)
+
+      const { default: app } = await import('@/api/server')
+      const resumed = await app.request(`/api/v1/runs/${runId}/events?lastEventId=${original.length - 1}`)
+
+      const replayed = await readEvents(resumed)
+      expect(replayed.map((e) => e.event)).toEqual(['done'])
+    })
+
+    test('keeps the run going after the client disconnects', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await streamChat()
+      const runId = res.headers.get('X-Run-Id')
+      const reader = res.body!.getReader()
+      await reader.read()
+      await reader.cancel()
+
+      const { default: app } = await import('@/api/server')
+      const resumed = await app.request(`/api/v1/runs/${runId}/events`)
+
+      const events = await readEvents(resumed)
+      expect(events[0].event).toBe('run_started')
+      expect(events[events.length - 1].envelope.data).toMatchObject({
+        status: 'completed',
+        answer: llmFixtures.generator.success,
+      })
+    })
+
+    test('returns 404 for an unknown run', async () => {
+      const { default: app } = await import('@/api/server')
+
+      const res = await app.request('/api/v1/runs/unknown/events')
+
+      expect(res.status).toBe(404)
+      expect(await res.json()).toEqual({ error: 'Run not found' })
+    })
+
+    test('returns 400 for an invalid Last-Event-ID', async () => {
+      mockLLM()
+      mockRAG()
+
+      const res = await streamChat()
+      const runId = res.headers.get('X-Run-Id')
+      await res.text()
+
+      const { default: app } = await import('@/api/server')
+      const resumed = await app.request(`/api/v1/runs/${runId}/events`, {
+        headers: { 'Last-Event-ID': 'abc' },
+      })
+
+      expect(resumed.status).toBe(400)
+    })
+  })
 })
@@ -6,6 +6,23 @@ import { ragFixtures } from '../../fixtures/rag-responses'
 // Track call counts for multi-response scenarios
 let llmCallCount = 0
 let ragCallCount = 0
+let ragRequests: Array<{ url: string; body: Record<string, unknown>; signal?: AbortSignal }> = []
+
+/**
+ * Embedding helpers imported by chunk selection. Every mock of the 'ai'
+ * module must provide them, or importing the agents fails.
+ */
+export const embeddingExports = {
+  embedMany: mock(async ({ values }: { values: string[] }) => ({
+    embeddings: values.map((value) => [value.length, 1]),
+    usage: { tokens: values.length },
+  })),
+  cosineSimilarity: (a: number[], b: number[]) => {
+    const dot = a.reduce((sum, value, i) => sum + value * b[i], 0)
+    const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0))
+    return dot / (norm(a) * norm(b) || 1)
+  },
+}
 
 /**
  * Mock the AI SDK's generateText function
@@ -15,48 +32,135 @@ type ClassifierResponse =
   | typeof llmFixtures.classifier.factual
   | typeof llmFixtures.classifier.analytical
   | typeof llmFixtures.classifier.vague
+  | typeof llmFixtures.classifier.comparative
+  | typeof llmFixtures.classifier.multiHop
 
 export function mockLLM(options?: {
   classifier?: ClassifierResponse
+  decomposer?: typeof llmFixtures.decomposer.success
+  clarifier?: typeof llmFixtures.clarifier.success
   generator?: string
   critic?: typeof llmFixtures.critic.pass
   sequence?: Array<{ type: 'classifier' | 'generator' | 'critic'; response: unknown }>
+  /** Delay before each response; like the real SDK, the call rejects if its abortSignal fires */
+  latencyMs?: number
+  /** Queries the agentic retriever searches for, one hybrid_search call each */
+  retrieverSearches?: string[]
 }) {
   llmCallCount = 0
   const sequence = options?.sequence
 
-  return mock.module('ai', () => ({
-    tool: mock((config: { description: string; inputSchema: unknown; execute: () => unknown }) => config),
-    generateText: mock(async (params: { prompt?: string; system?: string }) => {
-      llmCallCount++
-
-      // If sequence is provided, use it
-      if (sequence) {
-        const idx = (llmCallCount - 1) % sequence.length
-        const item = sequence[idx]
-        if (item.type === 'classifier' || item.type === 'critic') {
-          return { text: JSON.stringify(item.response) }
-        }
-        return { text: item.response, usage: { totalTokens: 100 } }
-      }
+  const generateText = mock(async (params: {
+    prompt?: string
+    system?: string
+    abortSignal?: AbortSignal
+    tools?: Record<string, { execute: (input: unknown, options: unknown) => Promise<unknown> }>
+  }) => {
+    llmCallCount++
 
-      // Otherwise, infer from prompt content
-      const prompt = params.prompt || ''
-      const system = params.system || ''
+    if (options?.latencyMs) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, options.latencyMs)
+        params.abortSignal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(params.abortSignal?.reason)
+        }, { once: true })
+      })
+    }
 
-      if (system.includes('query classifier') || prompt.includes('Classify this query')) {
-        const response = options?.classifier || llmFixtures.classifier.factual
-        return { text: JSON.stringify(response) }
+    // If sequence is provided, use it
+    if (sequence) {
+      const idx = (llmCallCount - 1) % sequence.length
+      const item = sequence[idx]
+      if (item.type === 'classifier' || item.type === 'critic') {
+        return { text: JSON.stringify(item.response) }
       }
+      return { text: item.response, usage: { totalTokens: 100 } }
+    }
+
+    // Otherwise, infer from prompt content
+    const prompt = params.prompt || ''
+    const system = params.system || ''
+
+    if (system.includes('query classifier') || prompt.includes('Classify this query')) {
+      const response = options?.classifier || llmFixtures.classifier.factual
+      return { text: JSON.stringify(response) }
+    }
+
+    if (system.includes('quality evaluator') || prompt.includes('Evaluate the answer')) {
+      const response = options?.critic || llmFixtures.critic.pass
+      return { text: JSON.stringify(response) }
+    }
+
+    if (system.includes('conversational query rewriter')) {
+      return { text: llmFixtures.contextualizer.rewrite }
+    }
+
+    if (system.includes('search query reformulator')) {
+      return { text: llmFixtures.reformulator.rewrite }
+    }
+
+    if (system.includes('comparison analyst')) {
+      return { text: JSON.stringify(llmFixtures.comparison.entities), usage: { totalTokens: 30 } }
+    }
+
+    if (system.includes('metadata filter extractor')) {
+      return { text: JSON.stringify(llmFixtures.filterExtractor.success), usage: { totalTokens: 30 } }
+    }
+
+    if (system.includes('hypothetical answer writer')) {
+      return { text: llmFixtures.queryTransforms.hypotheticalAnswer, usage: { totalTokens: 60 } }
+    }
+
+    if (system.includes('search query expander')) {
+      return { text: JSON.stringify(llmFixtures.queryTransforms.multiQuery), usage: { totalTokens: 40 } }
+    }
+
+    if (system.includes('sub-question rewriter')) {
+      return { text: llmFixtures.decomposer.rewrite }
+    }
+
+    if (system.includes('sub-question answerer')) {
+      return { text: llmFixtures.decomposer.subAnswer }
+    }
+
+    if (system.includes('query decomposer')) {
+      const response = options?.decomposer || llmFixtures.decomposer.success
+      return { text: JSON.stringify(response) }
+    }
 
-      if (system.includes('quality evaluator') || prompt.includes('Evaluate the answer')) {
-        const response = options?.critic || llmFixtures.critic.pass
-        return { text: JSON.stringify(response) }
+    if (system.includes('retrieval specialist')) {
+      for (const query of options?.retrieverSearches ?? []) {
+        await params.tools?.hybrid_search.execute({ query }, { abortSignal: params.abortSignal })
       }
+      return { text: 'Searched', steps: [], totalUsage: { totalTokens: 50 } }
+    }
+
+    if (system.includes('clarification assistant')) {
+      const response = options?.clarifier || llmFixtures.clarifier.success
+      return { text: JSON.stringify(response) }
+    }
 
-      // Generator
-      const text = options?.generator || llmFixtures.generator.success
-      return { text, usage: { totalTokens: 100 } }
+    // Generator
+    const text = options?.generator || llmFixtures.generator.success
+    return { text, usage: { totalTokens: 100 } }
+  })
+
+  return mock.module('ai', () => ({
+    ...embeddingExports,
+    tool: mock((config: { description: string; inputSchema: unknown; execute: () => unknown }) => config),
+    generateText,
+    // Streams the same response as generateText, one word at a time
+    streamText: mock((params: { prompt?: string; system?: string; abortSignal?: AbortSignal }) => {
+      const response = generateText(params)
+      return {
+        textStream: (async function* () {
+          const { text } = await response
+          yield* String(text).split(/(?<= )/)
+        })(),
+        text: response.then((r) => r.text),
+        usage: response.then((r) => r.usage),
+      }
     }),
   }))
 }
@@ -66,10 +170,16 @@ export function mockLLM(options?: {
  */
 export function mockRAG(response?: object | Error) {
   ragCallCount = 0
+  ragRequests = []
   const ragResponse = response || ragFixtures.success
 
-  global.fetch = mock(async (url: string, options?: { method?: string; body?: string }) => {
+  global.fetch = mock(async (url: string, options?: { method?: string; body?: string; signal?: AbortSignal }) => {
     ragCallCount++
+    ragRequests.push({
+      url,
+      body: options?.body ? JSON.parse(options.body) : {},
+      signal: options?.signal,
+    })
 
     if (ragResponse instanceof Error) {
       throw ragResponse
@@ -109,10 +219,14 @@ export function mockRAGError(error: { ok: false; status: number; statusText: str
  */
 export function mockLLMError(error: Error) {
   return mock.module('ai', () => ({
+    ...embeddingExports,
     tool: mock((config: { description: string; inputSchema: unknown; execute: () => unknown }) => config),
     generateText: mock(async () => {
       throw error
     }),
+    streamText: mock(() => {
+      throw error
+    }),
   }))
 }
 
@@ -121,10 +235,18 @@ export function mockLLMError(error: Error) {
  */
 export function mockLLMMalformed() {
   return mock.module('ai', () => ({
+    ...embeddingExports,
     tool: mock((config: { description: string; inputSchema: unknown; execute: () => unknown }) => config),
     generateText: mock(async () => ({
       text: '{ invalid json',
     })),
+    streamText: mock(() => ({
+      textStream: (async function* () {
+        yield '{ invalid json'
+      })(),
+      text: Promise.resolve('{ invalid json'),
+      usage: Promise.resolve(undefined),
+    })),
   }))
 }
 
@@ -135,12 +257,20 @@ export function getCallCounts() {
   return { llmCallCount, ragCallCount }
 }
 
+/**
+ * Get the requests sent to the mocked RAG API, in order
+ */
+export function getRAGRequests() {
+  return ragRequests
+}
+
 /**
  * Reset call counts
  */
 export function resetCallCounts() {
   llmCallCount = 0
   ragCallCount = 0
+  ragRequests = []
 }
 
 /**
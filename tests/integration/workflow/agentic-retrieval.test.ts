@@ -0,0 +1,62 @@
+// tests/integration/workflow/agentic-retrieval.test.ts
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { config } from '@/core/config'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+
+describe('Workflow - Agentic Retrieval', () => {
+  const originalMode = config.retrieval.mode
+
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+    config.retrieval.mode = 'agentic'
+  })
+
+  afterEach(() => {
+    config.retrieval.mode = originalMode
+  })
+
+  test('runs the searches the model chooses and records them in state', async () => {
+    mockLLM({ retrieverSearches: ['machine learning definition', 'machine learning examples'] })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.policy?.retrievalMode).toBe('agentic')
+    expect(getRAGRequests().map((request) => request.body.query)).toEqual([
+      'machine learning definition',
+      'machine learning examples',
+    ])
+    expect(result.retrievalToolCalls).toMatchObject([
+      { tool: 'hybrid_search', query: 'machine learning definition' },
+      { tool: 'hybrid_search', query: 'machine learning examples' },
+    ])
+    expect(result.retrievedChunks?.length).toBeGreaterThan(0)
+    expect(result.finalAnswer).toBeDefined()
+  })
+
+  test('falls back to a single search when the model makes none', async () => {
+    mockLLM({ retrieverSearches: [] })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(getRAGRequests().map((request) => request.body.query)).toEqual(['What is machine learning?'])
+    expect(result.retrievalToolCalls).toEqual([])
+    expect(result.retrievedChunks?.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,98 @@
+// tests/integration/workflow/chunk-selection.test.ts
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { config } from '@/core/config'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+
+const overlapping = {
+  results: [
+    { chunk_id: 'guide-1', content: 'Machine learning lets systems learn patterns from data.', hybrid_score: 0.9, metadata: { source: 'ml-guide.pdf' } },
+    { chunk_id: 'guide-1-copy', content: 'Machine learning lets systems learn patterns from data', hybrid_score: 0.89, metadata: { source: 'ml-mirror.pdf' } },
+    { chunk_id: 'guide-2', content: 'Supervised learning trains on labeled examples.', hybrid_score: 0.85, metadata: { source: 'ml-guide.pdf' } },
+    { chunk_id: 'guide-3', content: 'Unsupervised learning finds structure without labels.', hybrid_score: 0.8, metadata: { source: 'ml-guide.pdf' } },
+    { chunk_id: 'overview-1', content: 'AI is a broad field that includes machine learning.', hybrid_score: 0.75, metadata: { source: 'ai-overview.pdf' } },
+  ],
+  total: 5,
+  query_time_ms: 30,
+}
+
+describe('Workflow - Chunk Selection', () => {
+  const original = { ...config.selection }
+
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+    config.selection.enabled = true
+    config.selection.maxChunksPerDocument = 2
+  })
+
+  afterEach(() => {
+    Object.assign(config.selection, original)
+  })
+
+  test('drops near-duplicates and caps chunks per document', async () => {
+    mockLLM()
+    mockRAG(overlapping)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { topK: 4 },
+      iterations: 0,
+      errors: [],
+    })
+
+    // A pool twice the size of topK is fetched to choose from
+    expect(getRAGRequests()[0].body.top_k).toBe(8)
+    const chunkIds = result.retrievedChunks?.map((chunk) => chunk.chunkId) ?? []
+    expect(chunkIds).not.toContain('guide-1-copy')
+    expect(chunkIds.filter((id) => id.startsWith('guide-'))).toHaveLength(2)
+    expect(chunkIds).toContain('overview-1')
+  })
+
+  test('packs the chunks sent to the generator into the context budget', async () => {
+    config.selection.contextTokenBudget = 30
+    mockLLM()
+    mockRAG(overlapping)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { topK: 4 },
+      iterations: 0,
+      errors: [],
+    })
+
+    const contentLength = (result.retrievedChunks ?? []).reduce((sum, chunk) => sum + chunk.content.length, 0)
+    expect(result.retrievedChunks?.length).toBeGreaterThan(0)
+    expect(result.retrievedChunks?.length).toBeLessThan(4)
+    expect(contentLength).toBeLessThanOrEqual(30 * 4)
+  })
+
+  test('keeps the top of the ranking when selection is off', async () => {
+    config.selection.enabled = false
+    mockLLM()
+    mockRAG(overlapping)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { topK: 4 },
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(getRAGRequests()[0].body.top_k).toBe(4)
+    expect(result.retrievedChunks?.map((chunk) => chunk.chunkId)).toEqual([
+      'guide-1',
+      'guide-1-copy',
+      'guide-2',
+      'guide-3',
+    ])
+  })
+})
@@ -0,0 +1,112 @@
+// tests/integration/workflow/comparison.test.ts
+import { describe, test, expect, beforeEach, mock } from 'bun:test'
+import { llmFixtures } from '../../fixtures/llm-responses'
+import { mockLLM, restoreMocks, resetCallCounts } from '../helpers/mocks'
+
+let searchedQueries: string[] = []
+
+// Each entity's search finds its own two chunks
+function mockEntitySearch() {
+  searchedQueries = []
+  global.fetch = mock(async (_url: string, init?: { body?: string }) => {
+    const { query } = JSON.parse(init?.body ?? '{}') as { query: string }
+    searchedQueries.push(query)
+    const prefix = query.startsWith('unsupervised') ? 'unsup' : 'sup'
+    return {
+      ok: true,
+      json: async () => ({
+        results: [1, 2].map((n) => ({
+          chunk_id: `${prefix}-${n}`,
+          content: `${query}, passage ${n}.`,
+          hybrid_score: 0.9 - n / 10,
+        })),
+        total: 2,
+        query_time_ms: 20,
+      }),
+    } as Response
+  }) as unknown as typeof fetch
+}
+
+describe('Workflow - Comparison', () => {
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+  })
+
+  test('retrieves per entity and parses a comparison table with per-cell citations', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.comparative, generator: llmFixtures.comparison.answer })
+    mockEntitySearch()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'Compare supervised learning and unsupervised learning',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(searchedQueries).toEqual(['supervised learning', 'unsupervised learning'])
+    expect(result.comparedEntities).toEqual(['supervised learning', 'unsupervised learning'])
+    // Interleaved, so each entity keeps an equal share
+    expect(result.retrievedChunks?.map((chunk) => [chunk.chunkId, chunk.entity])).toEqual([
+      ['sup-1', 'supervised learning'],
+      ['unsup-1', 'unsupervised learning'],
+      ['sup-2', 'supervised learning'],
+      ['unsup-2', 'unsupervised learning'],
+    ])
+    expect(result.comparisonTable).toEqual({
+      entities: ['supervised learning', 'unsupervised learning'],
+      rows: [
+        {
+          aspect: 'Training data',
+          cells: [
+            { entity: 'supervised learning', text: 'Labeled examples', citations: ['sup-1'] },
+            { entity: 'unsupervised learning', text: 'Unlabeled data', citations: ['unsup-1'] },
+          ],
+        },
+        {
+          aspect: 'Typical task',
+          cells: [
+            { entity: 'supervised learning', text: 'Classification', citations: ['sup-1', 'sup-2'] },
+            { entity: 'unsupervised learning', text: 'Clustering', citations: ['unsup-1', 'unsup-2'] },
+          ],
+        },
+      ],
+    })
+  })
+
+  test('asks the model for the entities when the query does not name them plainly', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.comparative, generator: llmFixtures.comparison.answer })
+    mockEntitySearch()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'Which of the two learning paradigms in the ML guide needs labels?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(searchedQueries).toEqual(llmFixtures.comparison.entities.entities)
+    expect(result.comparisonTable?.rows).toHaveLength(2)
+  })
+
+  test('returns no table for queries that are not comparisons', async () => {
+    mockLLM({ generator: llmFixtures.comparison.answer })
+    mockEntitySearch()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is supervised learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.comparedEntities).toBeUndefined()
+    expect(result.comparisonTable).toBeUndefined()
+  })
+})
@@ -1,6 +1,6 @@
 // tests/integration/workflow/errors.test.ts
 import { describe, test, expect, beforeEach, mock } from 'bun:test'
-import { mockRAG, restoreMocks, resetCallCounts } from '../helpers/mocks'
+import { embeddingExports, mockRAG, restoreMocks, resetCallCounts } from '../helpers/mocks'
 import { errorFixtures } from '../../fixtures/errors'
 import { llmFixtures } from '../../fixtures/llm-responses'
 
@@ -12,6 +12,7 @@ describe('Workflow - Error Handling', () => {
 
   test('handles RAG API failure gracefully', async () => {
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -27,6 +28,7 @@ describe('Workflow - Error Handling', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     // RAG returns error
@@ -49,6 +51,7 @@ describe('Workflow - Error Handling', () => {
   test('handles malformed classifier response', async () => {
     // Classifier returns invalid JSON, should default to 'vague'
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -65,6 +68,7 @@ describe('Workflow - Error Handling', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -86,6 +90,7 @@ describe('Workflow - Error Handling', () => {
 
   test('handles malformed critic response', async () => {
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -102,6 +107,7 @@ describe('Workflow - Error Handling', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -123,6 +129,7 @@ describe('Workflow - Error Handling', () => {
 
   test('workflow continues if one agent has issues', async () => {
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -138,6 +145,7 @@ describe('Workflow - Error Handling', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
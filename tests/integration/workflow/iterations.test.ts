@@ -1,6 +1,6 @@
 // tests/integration/workflow/iterations.test.ts
 import { describe, test, expect, beforeEach, mock } from 'bun:test'
-import { mockRAG, restoreMocks, resetCallCounts } from '../helpers/mocks'
+import { embeddingExports, mockRAG, restoreMocks, resetCallCounts } from '../helpers/mocks'
 import { llmFixtures } from '../../fixtures/llm-responses'
 
 describe('Workflow - Max Iterations', () => {
@@ -12,6 +12,7 @@ describe('Workflow - Max Iterations', () => {
   test('stops after 2 iteration even if quality is low', async () => {
     // Critic always fails - should hit max iterations
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -27,6 +28,7 @@ describe('Workflow - Max Iterations', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -52,6 +54,7 @@ describe('Workflow - Max Iterations', () => {
     let criticCallCount = 0
 
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -68,6 +71,7 @@ describe('Workflow - Max Iterations', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -87,6 +91,7 @@ describe('Workflow - Max Iterations', () => {
 
   test('returns best effort answer when max iterations reached', async () => {
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -102,6 +107,7 @@ describe('Workflow - Max Iterations', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -120,4 +126,41 @@ describe('Workflow - Max Iterations', () => {
     expect(result.finalAnswer!.length).toBeGreaterThan(1)
     expect(result.needsRefinement).toBe(true)
   })
+
+  test('honours a per-request maxIterations override', async () => {
+    mock.module('ai', () => ({
+      ...embeddingExports,
+      generateText: mock(async (params: { prompt?: string; system?: string }) => {
+        const prompt = params.prompt || ''
+        const system = params.system || ''
+
+        if (system.includes('query classifier') || prompt.includes('Classify this query')) {
+          return { text: JSON.stringify(llmFixtures.classifier.factual) }
+        }
+
+        if (system.includes('quality evaluator') || prompt.includes('Evaluate the answer')) {
+          return { text: JSON.stringify(llmFixtures.critic.fail) }
+        }
+
+        return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
+      }),
+      tool: mock(() => ({})),
+      streamText: mock(() => ({})),
+    }))
+
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { maxIterations: 1 },
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.iterations).toBe(1)
+    expect(result.policy?.maxIterations).toBe(1)
+  })
 })
@@ -0,0 +1,107 @@
+// tests/integration/workflow/multi-hop.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+import { ragFixtures } from '../../fixtures/rag-responses'
+
+describe('Workflow - Multi-Hop Retrieval', () => {
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+  })
+
+  test('retrieves each sub-question in order', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.multiHop })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    await graph.invoke({
+      query: 'What else has the author of the ML guide published?',
+      iterations: 0,
+      errors: [],
+    })
+
+    const queries = getRAGRequests().map((r) => r.body.query)
+    // First hop is sent as-is, later hops are rewritten with earlier answers
+    expect(queries).toEqual([
+      llmFixtures.decomposer.success.subQueries[0],
+      llmFixtures.decomposer.rewrite,
+    ])
+  })
+
+  test('records the sub-question trail with intermediate answers', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.multiHop })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What else has the author of the ML guide published?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.subQuestions).toHaveLength(2)
+    expect(result.subQuestions![0].resolvedQuery).toBe(llmFixtures.decomposer.success.subQueries[0])
+    expect(result.subQuestions![0].answer).toBe(llmFixtures.decomposer.subAnswer)
+    expect(result.subQuestions![1].resolvedQuery).toBe(llmFixtures.decomposer.rewrite)
+    expect(result.subQuestions![1].chunkIds).toEqual(['1', '2'])
+  })
+
+  test('marks hops without evidence as unknown', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.multiHop })
+    mockRAG(ragFixtures.empty)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What else has the author of the ML guide published?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.subQuestions!.every((step) => step.answer === 'Unknown')).toBe(true)
+    expect(result.retrievedChunks).toEqual([])
+    expect(result.finalAnswer).toBeDefined()
+  })
+
+  test('records an error when a hop fails', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.multiHop })
+    mockRAG(new Error('connection refused'))
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What else has the author of the ML guide published?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.errors[0].agent).toBe('decomposer')
+    expect(result.retrievedChunks).toEqual([])
+    expect(result.finalAnswer).toBeDefined()
+  })
+
+  test('chat response includes the sub-question trail', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.multiHop })
+    mockRAG()
+
+    const { default: app } = await import('@/api/server')
+
+    const res = await app.request('/api/v1/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'What else has the author of the ML guide published?' }),
+    })
+
+    const body = (await res.json()) as { subQuestions: Array<{ question: string }> }
+    expect(body.subQuestions.map((s) => s.question)).toEqual(
+      llmFixtures.decomposer.success.subQueries
+    )
+  })
+})
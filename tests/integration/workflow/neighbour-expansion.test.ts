@@ -0,0 +1,65 @@
+// tests/integration/workflow/neighbour-expansion.test.ts
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { config } from '@/core/config'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+
+function part(position: number, score: number) {
+  return {
+    chunk_id: `guide-${position}`,
+    content: `Machine learning guide, part ${position}.`,
+    hybrid_score: score,
+    metadata: { document_id: 'ml-guide', chunk_index: position },
+  }
+}
+
+// The mocked API answers every request with these; the filtered neighbour
+// lookups pick out the chunk at the requested position
+const results = {
+  results: [part(2, 0.9), part(1, 0.5), part(3, 0.4)],
+  total: 3,
+  query_time_ms: 30,
+}
+
+describe('Workflow - Neighbour Expansion', () => {
+  const original = { ...config.expansion }
+
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+    config.expansion.window = 1
+  })
+
+  afterEach(() => {
+    Object.assign(config.expansion, original)
+  })
+
+  test('widens the top hit into a contiguous passage under its own chunkId', async () => {
+    mockLLM()
+    mockRAG(results)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { topK: 1 },
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.retrievedChunks).toHaveLength(1)
+    expect(result.retrievedChunks?.[0]).toMatchObject({
+      chunkId: 'guide-2',
+      score: 0.9,
+      expandedChunkIds: ['guide-1', 'guide-3'],
+    })
+    expect(result.retrievedChunks?.[0].content).toBe(
+      'Machine learning guide, part 1.\nMachine learning guide, part 2.\nMachine learning guide, part 3.'
+    )
+    const lookups = getRAGRequests().filter((request) => request.url.endsWith('/search/semantic/text'))
+    expect(lookups.map((request) => request.body.filters)).toEqual([
+      { document_id: 'ml-guide', chunk_index: 1 },
+      { document_id: 'ml-guide', chunk_index: 3 },
+    ])
+  })
+})
@@ -0,0 +1,69 @@
+// tests/integration/workflow/query-transforms.test.ts
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { config } from '@/core/config'
+import { llmFixtures } from '../../fixtures/llm-responses'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+
+describe('Workflow - Query Transforms', () => {
+  const original = [...config.retrieval.queryTransforms]
+
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+  })
+
+  afterEach(() => {
+    config.retrieval.queryTransforms = original
+  })
+
+  test('searches the transformed queries alongside the original and records them', async () => {
+    config.retrieval.queryTransforms = ['keywords', 'hyde', 'multi_query']
+    mockLLM()
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.transformedQueries).toEqual({
+      keywords: 'machine learning',
+      hypotheticalAnswer: llmFixtures.queryTransforms.hypotheticalAnswer,
+      variants: llmFixtures.queryTransforms.multiQuery.queries,
+    })
+    const searches = getRAGRequests().map((request) => [
+      request.url.replace(/^.*\/api\/v1/, ''),
+      request.body.query,
+    ])
+    expect(searches).toEqual([
+      ['/search/hybrid', 'What is machine learning?'],
+      ['/search/text', 'machine learning'],
+      ['/search/semantic/text', llmFixtures.queryTransforms.hypotheticalAnswer],
+      ['/search/hybrid', 'definition of machine learning'],
+      ['/search/hybrid', 'how do computers learn from data'],
+    ])
+    expect(result.retrievedChunks?.length).toBeGreaterThan(0)
+  })
+
+  test('makes a single search when no transforms are configured', async () => {
+    config.retrieval.queryTransforms = []
+    mockLLM()
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.transformedQueries).toBeUndefined()
+    expect(getRAGRequests()).toHaveLength(1)
+  })
+})
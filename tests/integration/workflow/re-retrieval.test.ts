@@ -0,0 +1,153 @@
+// tests/integration/workflow/re-retrieval.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { config } from '@/core/config'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+import { ragFixtures } from '../../fixtures/rag-responses'
+
+const lowScoreResults = {
+  results: [
+    { chunk_id: 'weak-1', content: 'Loosely related text.', hybrid_score: 0.2 },
+  ],
+  total: 1,
+  query_time_ms: 20,
+}
+
+describe('Workflow - Re-Retrieval', () => {
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+  })
+
+  test('retrieves again with a reformulated query when retrieval score is low', async () => {
+    mockLLM()
+    mockRAG(lowScoreResults)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    const requests = getRAGRequests()
+    expect(requests).toHaveLength(2)
+    expect(requests[1].body.query).toBe(llmFixtures.reformulator.rewrite)
+    // Twice the topK, plus a slot for the excluded first-pass chunk
+    expect(requests[1].body.top_k).toBe((requests[0].body.top_k as number) * 2 + 1)
+    expect(result.retrievalPasses).toBe(1)
+  })
+
+  test('stops once a pass finds strong evidence, judged on that pass alone', async () => {
+    mockLLM()
+    mockRAG(lowScoreResults)
+    const weakFetch = global.fetch
+    // The reformulated query finds good passages; the original only weak ones
+    global.fetch = (async (url: string, init?: { body?: string }) => {
+      const { query } = JSON.parse(init?.body ?? '{}') as { query: string }
+      if (query !== llmFixtures.reformulator.rewrite) {
+        return weakFetch(url, init)
+      }
+      return { ok: true, status: 200, json: async () => ragFixtures.success } as Response
+    }) as unknown as typeof fetch
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { maxRetrievalPasses: 3 },
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.retrievalPasses).toBe(1)
+    expect(result.retrievalScore).toBeGreaterThanOrEqual(0.5)
+    expect(result.retrievedChunks?.map((c) => c.chunkId)).toEqual([
+      'weak-1',
+      ...ragFixtures.success.results.map((r) => r.chunk_id),
+    ])
+  })
+
+  test('grows topK linearly up to the policy limit over several weak passes', async () => {
+    mockLLM()
+    mockRAG(lowScoreResults)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { topK: 8, maxRetrievalPasses: 3 },
+      iterations: 0,
+      errors: [],
+    })
+
+    // Each re-retrieval also over-fetches by the one excluded chunk
+    expect(getRAGRequests().map((request) => request.body.top_k)).toEqual([8, 17, 21, 21])
+    expect(result.retrievalPasses).toBe(3)
+  })
+
+  test('keeps re-retrieval within a lowered topK limit', async () => {
+    mockLLM()
+    mockRAG(lowScoreResults)
+    const original = config.workflow.limits.topK
+    config.workflow.limits.topK = 12
+
+    try {
+      const { createAgentGraph } = await import('@/agents/supervisor/graph')
+      await createAgentGraph().invoke({
+        query: 'What is machine learning?',
+        policyOptions: { topK: 8, maxRetrievalPasses: 2 },
+        iterations: 0,
+        errors: [],
+      })
+    } finally {
+      config.workflow.limits.topK = original
+    }
+
+    expect(getRAGRequests().map((request) => request.body.top_k)).toEqual([8, 13, 13])
+  })
+
+  test('does not re-retrieve when retrieval score is good', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(getRAGRequests()).toHaveLength(1)
+    expect(result.retrievalPasses).toBeUndefined()
+  })
+
+  test('re-retrieves when the critic flags missing evidence', async () => {
+    mockLLM({ critic: llmFixtures.critic.fail })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    const requests = getRAGRequests()
+    expect(requests).toHaveLength(2)
+    expect(requests[1].body.query).toBe(llmFixtures.reformulator.rewrite)
+    // Chunks from the first pass are not duplicated
+    expect(result.retrievedChunks?.map((c) => c.chunkId)).toEqual(
+      ragFixtures.success.results.map((r) => r.chunk_id)
+    )
+    expect(result.retrievalPasses).toBe(1)
+  })
+})
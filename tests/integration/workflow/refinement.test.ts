@@ -1,6 +1,6 @@
 // tests/integration/workflow/refinement.test.ts
 import { describe, test, expect, beforeEach, mock } from 'bun:test'
-import { mockRAG, restoreMocks, resetCallCounts } from '../helpers/mocks'
+import { embeddingExports, mockRAG, restoreMocks, resetCallCounts } from '../helpers/mocks'
 import { llmFixtures } from '../../fixtures/llm-responses'
 
 describe('Workflow - Refinement Loop', () => {
@@ -14,6 +14,7 @@ describe('Workflow - Refinement Loop', () => {
     let criticCallCount = 0
 
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -36,6 +37,7 @@ describe('Workflow - Refinement Loop', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -59,6 +61,7 @@ describe('Workflow - Refinement Loop', () => {
   test('stops retrying after quality passes', async () => {
     // Critic passes on first try
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -74,6 +77,7 @@ describe('Workflow - Refinement Loop', () => {
         return { text: llmFixtures.generator.success, usage: { totalTokens: 100 } }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -96,6 +100,7 @@ describe('Workflow - Refinement Loop', () => {
     let generatorCallCount = 0
 
     mock.module('ai', () => ({
+      ...embeddingExports,
       generateText: mock(async (params: { prompt?: string; system?: string }) => {
         const prompt = params.prompt || ''
         const system = params.system || ''
@@ -117,6 +122,7 @@ describe('Workflow - Refinement Loop', () => {
         }
       }),
       tool: mock(() => ({})),
+      streamText: mock(() => ({})),
     }))
 
     mockRAG()
@@ -135,4 +141,66 @@ describe('Workflow - Refinement Loop', () => {
     expect(result.finalAnswer).toBeDefined()
     expect(result.finalAnswer).toContain('Generated answer attempt')
   })
+
+  test('refinement passes the prior draft and critique to the generator', async () => {
+    const generatorPrompts: string[] = []
+    let criticCallCount = 0
+
+    mock.module('ai', () => ({
+      ...embeddingExports,
+      generateText: mock(async (params: { prompt?: string; system?: string }) => {
+        const prompt = params.prompt || ''
+        const system = params.system || ''
+
+        if (system.includes('query classifier') || prompt.includes('Classify this query')) {
+          return { text: JSON.stringify(llmFixtures.classifier.factual) }
+        }
+
+        if (system.includes('quality evaluator') || prompt.includes('Evaluate the answer')) {
+          criticCallCount++
+          const critique = criticCallCount === 1 ? llmFixtures.critic.fail : llmFixtures.critic.pass
+          return { text: JSON.stringify(critique) }
+        }
+
+        if (system.includes('search query reformulator')) {
+          return { text: llmFixtures.reformulator.rewrite }
+        }
+
+        generatorPrompts.push(prompt)
+        return {
+          text: `Generated answer attempt ${generatorPrompts.length}`,
+          usage: { totalTokens: 100 },
+        }
+      }),
+      tool: mock(() => ({})),
+      streamText: mock(() => ({})),
+    }))
+
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(generatorPrompts).toHaveLength(2)
+    expect(generatorPrompts[0]).not.toContain('Previous draft')
+    expect(generatorPrompts[1]).toContain('Previous draft:\nGenerated answer attempt 1')
+    expect(generatorPrompts[1]).toContain(llmFixtures.critic.fail.refinementReason)
+    expect(generatorPrompts[1]).toContain('completeness 0.40')
+
+    expect(result.critiqueScores).toEqual(llmFixtures.critic.pass.scores)
+    expect(result.draftHistory).toHaveLength(2)
+    expect(result.draftHistory?.[0]).toMatchObject({
+      iteration: 1,
+      draft: 'Generated answer attempt 1',
+      qualityScore: llmFixtures.critic.fail.qualityScore,
+      scores: llmFixtures.critic.fail.scores,
+    })
+    expect(result.draftHistory?.[1].draft).toBe('Generated answer attempt 2')
+  })
 })
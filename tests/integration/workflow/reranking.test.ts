@@ -0,0 +1,49 @@
+// tests/integration/workflow/reranking.test.ts
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test'
+import { config } from '@/core/config'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+
+const candidates = {
+  results: [
+    { chunk_id: 'release-notes', content: 'Release notes for the proxy server.', hybrid_score: 0.92 },
+    { chunk_id: 'ml-intro', content: 'Machine learning is a field of study in which machine learning models learn from data.', hybrid_score: 0.71 },
+    { chunk_id: 'ml-history', content: 'The history of learning machines.', hybrid_score: 0.65 },
+  ],
+  total: 3,
+  query_time_ms: 30,
+}
+
+describe('Workflow - Reranking', () => {
+  const original = { ...config.retrieval }
+
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+    config.retrieval.reranker = 'bm25'
+    config.retrieval.rerankCandidates = 12
+  })
+
+  afterEach(() => {
+    Object.assign(config.retrieval, original)
+  })
+
+  test('over-fetches candidates and reorders them by relevance', async () => {
+    mockLLM()
+    mockRAG(candidates)
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { topK: 2 },
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.policy?.reranker).toBe('bm25')
+    expect(getRAGRequests()[0].body.top_k).toBe(12)
+    expect(result.retrievedChunks?.map((chunk) => chunk.chunkId)).toEqual(['ml-intro', 'ml-history'])
+    expect(result.retrievedChunks?.[0]).toMatchObject({ score: 0.71, rerankScore: 1 })
+  })
+})
@@ -0,0 +1,71 @@
+// tests/integration/workflow/retrieval-strategy.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks, resetCallCounts, getRAGRequests } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+function endpoints(): string[] {
+  return getRAGRequests().map((request) => new URL(request.url).pathname)
+}
+
+describe('Workflow - Retrieval Strategy', () => {
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+  })
+
+  test('factual queries run a single hybrid search', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(endpoints()).toEqual(['/api/v1/search/hybrid'])
+    expect(result.retrievalStrategy).toEqual(['hybrid'])
+  })
+
+  test('analytical queries fuse hybrid search with the thorough RAG pipeline', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.analytical })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'Why does hybrid search outperform keyword search?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(endpoints().sort()).toEqual(['/api/v1/rag/query', '/api/v1/search/hybrid'])
+    const ragQuery = getRAGRequests().find((request) => request.url.endsWith('/rag/query'))
+    expect(ragQuery?.body.strategy).toBe('thorough')
+    expect(result.retrievalStrategy).toEqual(['hybrid', 'rag_thorough'])
+    expect(result.retrievedChunks?.length).toBeGreaterThan(0)
+  })
+
+  test('request options pick the search methods', async () => {
+    mockLLM()
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      policyOptions: { retrievalStrategy: ['semantic'] },
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(endpoints()).toEqual(['/api/v1/search/semantic/text'])
+    expect(result.policy?.retrievalStrategy).toEqual(['semantic'])
+    expect(result.retrievalStrategy).toEqual(['semantic'])
+  })
+})
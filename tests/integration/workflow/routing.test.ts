@@ -0,0 +1,93 @@
+// tests/integration/workflow/routing.test.ts
+import { describe, test, expect, beforeEach } from 'bun:test'
+import { mockLLM, mockRAG, restoreMocks, getCallCounts, resetCallCounts } from '../helpers/mocks'
+import { llmFixtures } from '../../fixtures/llm-responses'
+
+describe('Workflow - Query Type Routing', () => {
+  beforeEach(() => {
+    restoreMocks()
+    resetCallCounts()
+  })
+
+  test('factual queries take the single-pass retriever path', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.factual })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What is machine learning?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.queryType).toBe('factual')
+    expect(getCallCounts().ragCallCount).toBe(1)
+    expect(result.subQuestions).toBeUndefined()
+    expect(result.finalAnswer).toBeDefined()
+  })
+
+  test('multi_hop queries are decomposed and retrieved per sub-query', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.multiHop })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'What else has the author of the ML guide published?',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.queryType).toBe('multi_hop')
+    expect(result.subQuestions!.map((step) => step.question)).toEqual(
+      llmFixtures.decomposer.success.subQueries
+    )
+    expect(getCallCounts().ragCallCount).toBe(2)
+    // Duplicate chunks across sub-queries are merged
+    expect(result.retrievedChunks!.length).toBe(2)
+    expect(result.currentAgent).toBe('critic')
+    expect(result.finalAnswer).toBeDefined()
+  })
+
+  test('comparative queries retrieve each entity side by side', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.comparative })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'Compare supervised learning and unsupervised learning',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.queryType).toBe('comparative')
+    expect(getCallCounts().ragCallCount).toBe(2)
+    expect(result.retrievedChunks!.length).toBeGreaterThan(0)
+    expect(result.finalAnswer).toBeDefined()
+  })
+
+  test('vague queries ask for clarification without retrieving', async () => {
+    mockLLM({ classifier: llmFixtures.classifier.vague })
+    mockRAG()
+
+    const { createAgentGraph } = await import('@/agents/supervisor/graph')
+    const graph = createAgentGraph()
+
+    const result = await graph.invoke({
+      query: 'Tell me about ML',
+      iterations: 0,
+      errors: [],
+    })
+
+    expect(result.queryType).toBe('vague')
+    expect(getCallCounts().ragCallCount).toBe(0)
+    expect(result.clarification).toEqual(llmFixtures.clarifier.success)
+    expect(result.finalAnswer).toBe(llmFixtures.clarifier.success.question)
+    expect(result.iterations).toBe(0)
+  })
+})
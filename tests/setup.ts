@@ -1,3 +1,4 @@
 // tests/setup.ts
 process.env.LLM_API_KEY = 'test-key'
 process.env.LLM_BASE_URL = 'https://test.openai.azure.com'
+process.env.WEBHOOK_SECRET = 'test-webhook-secret'